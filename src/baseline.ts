@@ -0,0 +1,136 @@
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { isAbsolute, relative, sep } from 'node:path';
+import type { Baseline, BaselineEntry, CheckResult, Report } from './types/index.js';
+
+export class BaselineError extends Error {
+  constructor(
+    message: string,
+    public readonly path: string,
+  ) {
+    super(`Invalid baseline ${path}: ${message}`);
+    this.name = 'BaselineError';
+  }
+}
+
+function normalizeWhitespace(text: string): string {
+  return text.trim().replace(/\s+/g, ' ');
+}
+
+/** Location relative to cwd with forward slashes, so baselines are portable. */
+function portablePath(location: string, cwd: string): string {
+  const rel = isAbsolute(location) ? relative(cwd, location) : location;
+  return (rel || '.').split(sep).join('/');
+}
+
+/**
+ * Compute a stable fingerprint for each result.
+ *
+ * The fingerprint is built from the check ID, the file path relative to
+ * `cwd`, and the normalized text of the offending source line — not the
+ * line number — so it survives lines shifting above the finding. Results
+ * without a line fall back to their title.
+ */
+export function fingerprintResults(results: CheckResult[], cwd: string): string[] {
+  const sources = new Map<string, string[] | null>();
+
+  const sourceLine = (location: string, line: number): string | undefined => {
+    if (!sources.has(location)) {
+      try {
+        sources.set(location, readFileSync(location, 'utf-8').split('\n'));
+      } catch {
+        sources.set(location, null);
+      }
+    }
+    return sources.get(location)?.[line - 1];
+  };
+
+  return results.map((result) => {
+    const file = result.location ? portablePath(result.location, cwd) : '';
+    const lineText =
+      result.location && result.line ? sourceLine(result.location, result.line) : undefined;
+    const content = normalizeWhitespace(lineText ?? result.title);
+    return createHash('sha256')
+      .update(`${result.id}\0${file}\0${content}`)
+      .digest('hex')
+      .slice(0, 32);
+  });
+}
+
+export function createBaseline(report: Report, cwd: string): Baseline {
+  const fingerprints = fingerprintResults(report.results, cwd);
+  const entries = new Map<string, BaselineEntry>();
+
+  report.results.forEach((result, i) => {
+    const existing = entries.get(fingerprints[i]);
+    if (existing) {
+      existing.count++;
+      return;
+    }
+    entries.set(fingerprints[i], {
+      fingerprint: fingerprints[i],
+      id: result.id,
+      location: result.location ? portablePath(result.location, cwd) : undefined,
+      title: result.title,
+      count: 1,
+    });
+  });
+
+  return {
+    version: 1,
+    createdAt: report.timestamp,
+    entries: [...entries.values()],
+  };
+}
+
+export function loadBaseline(path: string): Baseline {
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (err) {
+    throw new BaselineError(err instanceof Error ? err.message : String(err), path);
+  }
+
+  const baseline = data as Partial<Baseline> | null;
+  if (!baseline || baseline.version !== 1 || !Array.isArray(baseline.entries)) {
+    throw new BaselineError('expected { "version": 1, "entries": [...] }', path);
+  }
+  for (const entry of baseline.entries) {
+    if (typeof entry?.fingerprint !== 'string' || typeof entry.count !== 'number') {
+      throw new BaselineError('every entry needs a string fingerprint and a numeric count', path);
+    }
+  }
+  return baseline as Baseline;
+}
+
+/**
+ * Split results into those already recorded in the baseline and new ones.
+ * Each baseline entry absorbs at most `count` matching results, so a second
+ * copy of a known problem is still reported as new.
+ */
+export function partitionByBaseline(
+  results: CheckResult[],
+  baseline: Baseline,
+  cwd: string,
+): { known: CheckResult[]; fresh: CheckResult[] } {
+  const remaining = new Map<string, number>();
+  for (const entry of baseline.entries) {
+    remaining.set(entry.fingerprint, (remaining.get(entry.fingerprint) ?? 0) + entry.count);
+  }
+
+  const fingerprints = fingerprintResults(results, cwd);
+  const known: CheckResult[] = [];
+  const fresh: CheckResult[] = [];
+
+  results.forEach((result, i) => {
+    const left = remaining.get(fingerprints[i]) ?? 0;
+    if (left > 0) {
+      remaining.set(fingerprints[i], left - 1);
+      known.push(result);
+    } else {
+      fresh.push(result);
+    }
+  });
+
+  return { known, fresh };
+}
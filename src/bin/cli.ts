@@ -1,6 +1,6 @@
 import { existsSync } from 'node:fs';
 import { Command, Option } from 'commander';
-import type { CliOptions, Severity } from '../types/index.js';
+import type { CliOptions, OutputFormat, Severity } from '../types/index.js';
 import { getVersion } from '../version.js';
 
 // Register all checks via side-effect imports
@@ -18,6 +18,29 @@ process.on('uncaughtException', (error) => {
 
 const program = new Command();
 
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+/**
+ * `--build-arg KEY=VAL` values. A bare `KEY` takes its value from the
+ * environment, as `docker build` does, and is ignored when unset.
+ */
+function parseBuildArgs(values: string[]): Record<string, string> | undefined {
+  const buildArgs: Record<string, string> = {};
+  for (const value of values) {
+    const eq = value.indexOf('=');
+    const key = eq === -1 ? value : value.slice(0, eq);
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(key)) {
+      console.error(`Error: --build-arg must be KEY=VALUE, got: ${value}`);
+      process.exit(2);
+    }
+    const resolved = eq === -1 ? process.env[key] : value.slice(eq + 1);
+    if (resolved !== undefined) buildArgs[key] = resolved;
+  }
+  return Object.keys(buildArgs).length > 0 ? buildArgs : undefined;
+}
+
 function parseOptions(cmd: Command): CliOptions {
   const opts = cmd.optsWithGlobals();
 
@@ -26,18 +49,73 @@ function parseOptions(cmd: Command): CliOptions {
     console.error(`Error: Dockerfile not found: ${opts.file}`);
     process.exit(2);
   }
-  if (opts.composefile && !existsSync(opts.composefile)) {
-    console.error(`Error: Compose file not found: ${opts.composefile}`);
+  for (const composefile of (opts.composefile ?? []) as string[]) {
+    if (!existsSync(composefile)) {
+      console.error(`Error: Compose file not found: ${composefile}`);
+      process.exit(2);
+    }
+  }
+  if (opts.config && !existsSync(opts.config)) {
+    console.error(`Error: Config file not found: ${opts.config}`);
+    process.exit(2);
+  }
+  for (const envFile of (opts.envFile ?? []) as string[]) {
+    if (!existsSync(envFile)) {
+      console.error(`Error: Env file not found: ${envFile}`);
+      process.exit(2);
+    }
+  }
+  if (opts.baseline && !existsSync(opts.baseline)) {
+    console.error(`Error: Baseline file not found: ${opts.baseline}`);
+    process.exit(2);
+  }
+
+  if (opts.dryRun && !opts.fix) {
+    console.error('Error: --dry-run requires --fix');
+    process.exit(2);
+  }
+  if (opts.patch && !opts.dryRun) {
+    console.error('Error: --patch requires --fix --dry-run');
+    process.exit(2);
+  }
+  if (opts.diffLines && !opts.changedSince) {
+    console.error('Error: --diff-lines requires --changed-since');
+    process.exit(2);
+  }
+
+  const concurrency = opts.concurrency !== undefined ? Number(opts.concurrency) : undefined;
+  if (concurrency !== undefined && (!Number.isInteger(concurrency) || concurrency < 1)) {
+    console.error(`Error: --concurrency must be a positive integer, got: ${opts.concurrency}`);
+    process.exit(2);
+  }
+  const checkTimeout = opts.checkTimeout !== undefined ? Number(opts.checkTimeout) : undefined;
+  if (checkTimeout !== undefined && (!Number.isFinite(checkTimeout) || checkTimeout <= 0)) {
+    console.error(`Error: --check-timeout must be a positive number of seconds, got: ${opts.checkTimeout}`);
     process.exit(2);
   }
 
   return {
     json: opts.json ?? false,
+    format: opts.format as OutputFormat | undefined,
     ci: opts.ci ?? false,
     fix: opts.fix ?? false,
     severity: opts.severity as Severity | undefined,
     file: opts.file,
-    composefile: opts.composefile,
+    composefile: opts.composefile?.length ? opts.composefile : undefined,
+    envFile: opts.envFile,
+    profile: opts.profile?.length ? opts.profile : undefined,
+    buildArgs: parseBuildArgs(opts.buildArg ?? []),
+    target: opts.target,
+    config: opts.config,
+    baseline: opts.baseline,
+    output: opts.output,
+    concurrency,
+    checkTimeout,
+    recursive: opts.recursive ?? false,
+    changedSince: opts.changedSince,
+    diffLines: opts.diffLines ?? false,
+    dryRun: opts.dryRun ?? false,
+    patch: opts.patch,
   };
 }
 
@@ -46,19 +124,75 @@ program
   .description('Diagnose and fix Docker problems automatically')
   .version(getVersion())
   .option('--json', 'Output results as JSON')
+  .addOption(new Option('--format <format>', 'Output format').choices(['text', 'json', 'sarif', 'junit', 'html']))
+  .option('-o, --output <path>', 'Write the report to a file instead of stdout')
   .option('--ci', 'CI mode (JSON output + exit codes)')
   .option('--fix', 'Auto-apply all safe fixes')
+  .option('--dry-run', 'With --fix, show the changes as a diff without writing them')
+  .option('--patch <path>', 'With --fix --dry-run, write the changes to a patch file')
   .addOption(new Option('--severity <level>', 'Minimum severity level').choices(['error', 'warning', 'info']))
   .option('-f, --file <path>', 'Dockerfile path')
-  .option('-c, --composefile <path>', 'Compose file path')
+  .option('-c, --composefile <path>', 'Compose file path (repeatable; merged in order)', collect, [])
+  .option('--env-file <path>', 'Env file for compose interpolation (repeatable; replaces .env)', collect, [])
+  .option('--profile <name>', 'Enable a compose profile (repeatable; default: COMPOSE_PROFILES)', collect, [])
+  .option('--build-arg <KEY=VAL>', 'Value for a Dockerfile ARG (repeatable)', collect, [])
+  .option('--target <stage>', 'Build stage to check unused stages against (default: the last stage)')
+  .option('--config <path>', 'Config file path (default: nearest .dockerdoctorrc)')
+  .option('--baseline <path>', 'Only report findings not recorded in this baseline file')
+  .option('--changed-since <ref>', 'Only check files changed since this git revision (static checks only)')
+  .option('--diff-lines', 'With --changed-since, only report findings on changed lines')
+  .option('--concurrency <n>', 'Maximum number of checks to run in parallel (default: 4)')
+  .option('--check-timeout <seconds>', 'Give up on a single check after this many seconds (default: 60)')
   .showSuggestionAfterError(true);
 
 program
   .command('check')
   .description('Run all checks')
-  .action(async () => {
+  .argument('[root]', 'Directory to scan with --recursive (default: current directory)')
+  .option('-r, --recursive', 'Check every Docker project below the root, skipping .gitignore\'d paths')
+  .action(async (root: string | undefined, _options: unknown, cmd: Command) => {
+    const opts = parseOptions(cmd);
+    if (opts.recursive) {
+      const { recursiveCheckCommand } = await import('../commands/recursive.js');
+      process.exit(await recursiveCheckCommand(opts, root));
+    }
+    if (root !== undefined) {
+      console.error(`Error: a root directory is only accepted with --recursive, got: ${root}`);
+      process.exit(2);
+    }
     const { checkCommand } = await import('../commands/check.js');
-    const code = await checkCommand(parseOptions(program));
+    const code = await checkCommand(opts);
+    process.exit(code);
+  });
+
+program
+  .command('fix')
+  .description('Apply all safe fixes, backing up the files they change')
+  .option('--undo', 'Restore the files changed by the last fix run')
+  .action(async (options: { undo?: boolean }, cmd: Command) => {
+    const { fixCommand, fixUndoCommand } = await import('../commands/fix.js');
+    const code = options.undo ? fixUndoCommand() : await fixCommand(parseOptions(cmd));
+    process.exit(code);
+  });
+
+program
+  .command('pin')
+  .description('Pin base images and compose images to their current digests')
+  .option('--update', 'Refresh digests that are already pinned')
+  .option('--registry <url>', 'Registry mirror to resolve Docker Hub digests from')
+  .action(async (options: { update?: boolean; registry?: string }, cmd: Command) => {
+    const { pinCommand } = await import('../commands/pin.js');
+    const code = await pinCommand(parseOptions(cmd), options);
+    process.exit(code);
+  });
+
+program
+  .command('context')
+  .description('List the files a build would send to the daemon, after .dockerignore')
+  .argument('[dir]', 'Build context directory (default: current directory)')
+  .action(async (dir: string | undefined, _options: unknown, cmd: Command) => {
+    const { contextCommand } = await import('../commands/context.js');
+    const code = await contextCommand(parseOptions(cmd), dir);
     process.exit(code);
   });
 
@@ -152,6 +286,22 @@ program
     process.exit(code);
   });
 
+const baseline = program
+  .command('baseline')
+  .description('Manage the baseline of known findings');
+
+baseline
+  .command('create')
+  .description('Record current findings so only new ones are reported')
+  .option('-r, --recursive', 'Record every Docker project below the current directory')
+  .action(async (_options: unknown, cmd: Command) => {
+    const { baselineCreateCommand } = await import('../commands/baseline.js');
+    // -o/--output is a global option; default to the conventional file name
+    const opts = parseOptions(cmd);
+    const code = await baselineCreateCommand(opts, opts.output ?? '.dockerdoctor-baseline.json');
+    process.exit(code);
+  });
+
 // When no subcommand is given, show interactive menu or run all checks
 program.argument('[args...]', '', []);
 program.action(async (args: string[]) => {
@@ -161,7 +311,7 @@ program.action(async (args: string[]) => {
     process.exit(1);
   }
   const opts = parseOptions(program);
-  if (opts.json || opts.ci || opts.fix) {
+  if (opts.json || opts.ci || opts.fix || opts.format || opts.output) {
     const { checkCommand } = await import('../commands/check.js');
     const code = await checkCommand(opts);
     process.exit(code);
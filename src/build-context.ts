@@ -0,0 +1,62 @@
+import { lstat, readdir, readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { DockerignoreEntry } from './types/index.js';
+import { parseDockerignore, isDockerignored } from './parsers/dockerignore.js';
+
+export interface BuildContextListing {
+  /** Files sent to the daemon, relative to the context and `/`-separated, in path order */
+  files: Array<{ path: string; size: number }>;
+  totalBytes: number;
+  /** Every directory with the bytes it sends, largest first */
+  directories: Array<{ path: string; size: number }>;
+}
+
+/**
+ * List the files Docker would send as the build context of `dir`, after
+ * its .dockerignore (read from `dir` unless `entries` are given). Excluded
+ * directories are skipped without being read, unless a `!` entry could
+ * re-include something inside them. Symlinks are sent as links, not
+ * followed.
+ */
+export async function listBuildContext(dir: string, entries?: DockerignoreEntry[]): Promise<BuildContextListing> {
+  if (!entries) {
+    const path = join(dir, '.dockerignore');
+    const raw = await readFile(path, 'utf-8').catch(() => '');
+    entries = parseDockerignore(raw, path).entries;
+  }
+  const rules = entries;
+  const hasNegation = rules.some((e) => e.negation);
+
+  const files: BuildContextListing['files'] = [];
+  const sizes = new Map<string, number>();
+
+  async function walk(rel: string): Promise<void> {
+    const names = (await readdir(join(dir, rel))).sort();
+    for (const name of names) {
+      const path = rel ? `${rel}/${name}` : name;
+      const stat = await lstat(join(dir, path));
+      const ignored = isDockerignored(path, rules);
+      if (stat.isDirectory()) {
+        if (!ignored || hasNegation) await walk(path);
+      } else if (!ignored) {
+        files.push({ path, size: stat.size });
+      }
+    }
+  }
+  await walk('');
+
+  let totalBytes = 0;
+  for (const file of files) {
+    totalBytes += file.size;
+    const segments = file.path.split('/');
+    for (let i = 1; i < segments.length; i++) {
+      const parent = segments.slice(0, i).join('/');
+      sizes.set(parent, (sizes.get(parent) ?? 0) + file.size);
+    }
+  }
+  const directories = [...sizes]
+    .map(([path, size]) => ({ path, size }))
+    .sort((a, b) => b.size - a.size || a.path.localeCompare(b.path));
+
+  return { files, totalBytes, directories };
+}
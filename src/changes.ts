@@ -0,0 +1,164 @@
+import { realpathSync } from 'node:fs';
+import { join, relative, resolve } from 'node:path';
+import type { ChangeSet, CheckContext, CheckResult } from './types/index.js';
+
+export class GitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GitError';
+  }
+}
+
+async function git(cwd: string, args: string[]): Promise<string> {
+  const { execa } = await import('execa');
+  try {
+    const result = await execa('git', ['-c', 'core.quotePath=false', ...args], { cwd, timeout: 30000 });
+    return result.stdout;
+  } catch (err: unknown) {
+    const e = err as { stderr?: string; message?: string };
+    throw new GitError((e.stderr || e.message || 'git failed').trim());
+  }
+}
+
+function unquotePath(path: string): string {
+  // Paths with unusual characters are C-quoted even with core.quotePath=false
+  if (!path.startsWith('"') || !path.endsWith('"')) return path;
+  return path.slice(1, -1).replace(/\\(["\\tn])/g, (_, ch: string) => ({ t: '\t', n: '\n' })[ch] ?? ch);
+}
+
+/**
+ * Added and modified lines per file from `git diff --unified=0` output,
+ * keyed by the path relative to the repository root. Deleted files are
+ * left out; a file whose changes are only deletions maps to an empty set.
+ */
+export function parseUnifiedDiff(diff: string): Map<string, Set<number>> {
+  const files = new Map<string, Set<number>>();
+  let current: Set<number> | undefined;
+  // Between a `diff --git` line and its first hunk, where file headers live
+  let inHeader = false;
+  // Lines of the current hunk still to come, so content like `+++ x` isn't a header
+  let oldLeft = 0;
+  let newLeft = 0;
+
+  for (const line of diff.split('\n')) {
+    if (oldLeft > 0 || newLeft > 0) {
+      if (line.startsWith('+')) newLeft--;
+      else if (line.startsWith('-')) oldLeft--;
+      else if (line.startsWith(' ')) {
+        oldLeft--;
+        newLeft--;
+      }
+      continue;
+    }
+
+    if (line.startsWith('diff --git ')) {
+      inHeader = true;
+      current = undefined;
+      continue;
+    }
+
+    if (inHeader && line.startsWith('+++ ')) {
+      const target = line.slice(4);
+      if (target === '/dev/null') continue;
+      const path = unquotePath(target).replace(/^b\//, '');
+      current = files.get(path) ?? new Set();
+      files.set(path, current);
+      continue;
+    }
+
+    const hunk = /^@@ -\d+(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/.exec(line);
+    if (hunk) {
+      inHeader = false;
+      oldLeft = hunk[1] === undefined ? 1 : Number(hunk[1]);
+      const start = Number(hunk[2]);
+      newLeft = hunk[3] === undefined ? 1 : Number(hunk[3]);
+      if (current) for (let n = start; n < start + newLeft; n++) current.add(n);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Ask git which files changed since `ref`: everything that differs between
+ * the working tree and the merge base of `ref` and HEAD (so commits that
+ * landed on `ref` after the branch point don't count), plus untracked files.
+ */
+export async function loadChanges(cwd: string, ref: string): Promise<ChangeSet> {
+  const toplevel = (await git(cwd, ['rev-parse', '--show-toplevel'])).trim();
+  // Keep paths under `cwd` as the user spelled it, even when it is a symlink
+  const root = resolve(cwd, relative(realpathSync(cwd), toplevel));
+
+  await git(cwd, ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`]).catch(() => {
+    throw new GitError(`Unknown git revision: ${ref}`);
+  });
+  // Shallow clones may not have a merge base; fall back to the ref itself
+  const base = (await git(cwd, ['merge-base', ref, 'HEAD']).catch(() => ref)).trim();
+
+  const diff = await git(root, ['diff', '--unified=0', '--no-color', '--no-ext-diff', base, '--']);
+  const untracked = await git(root, ['ls-files', '--others', '--exclude-standard', '-z']);
+
+  const files: ChangeSet['files'] = new Map();
+  for (const [path, lines] of parseUnifiedDiff(diff)) files.set(join(root, path), lines);
+  for (const path of untracked.split('\0').filter(Boolean)) files.set(join(root, path), null);
+
+  return { ref, files };
+}
+
+function isChanged(changes: ChangeSet, path: string, cwd: string): boolean {
+  return changes.files.has(resolve(cwd, path));
+}
+
+/**
+ * Narrow a context to the files that changed: only changed Dockerfiles and
+ * shell scripts are checked, and the compose configuration only when one of
+ * its files changed. The .dockerignore stays, since Dockerfile checks read it.
+ */
+export function restrictToChanges(context: CheckContext, changes: ChangeSet): CheckContext {
+  const dockerfiles = (context.dockerfiles ?? (context.dockerfile ? [context.dockerfile] : [])).filter((d) =>
+    isChanged(changes, d.path, context.cwd),
+  );
+  const compose = context.compose?.files.some((f) => isChanged(changes, f.path, context.cwd))
+    ? context.compose
+    : undefined;
+
+  return {
+    ...context,
+    dockerfile: dockerfiles[0],
+    dockerfiles,
+    compose,
+    files: {
+      ...context.files,
+      shellScripts: context.files.shellScripts.filter((p) => isChanged(changes, p, context.cwd)),
+    },
+  };
+}
+
+/**
+ * Whether a finding belongs to a changed file. With `diffLines`, it must
+ * also be on a changed line; a Dockerfile finding counts when any line of
+ * its (possibly continued) instruction changed. Untracked files count in
+ * full.
+ */
+export function isChangedResult(
+  result: CheckResult,
+  changes: ChangeSet,
+  context: CheckContext,
+  diffLines = false,
+): boolean {
+  if (!result.location) return false;
+  const location = resolve(context.cwd, result.location);
+  const lines = changes.files.get(location);
+  if (lines === undefined) return false;
+  if (!diffLines || lines === null) return true;
+  if (result.line === undefined) return false;
+
+  const instruction = context.dockerfiles
+    ?.find((d) => resolve(context.cwd, d.path) === location)
+    ?.allInstructions.find((i) => i.lineno === result.line);
+  const end = instruction?.endLine ?? result.line;
+  for (let line = result.line; line <= end; line++) {
+    if (lines.has(line)) return true;
+  }
+  return false;
+}
@@ -1,6 +1,7 @@
 import { registerCheck } from '../registry.js';
 import type { CheckContext, CheckResult } from '../../types/index.js';
 import { dockerBuildContextSize } from '../../docker/exec.js';
+import { getNumberOption } from '../utils.js';
 
 const WARN_THRESHOLD_BYTES = 100 * 1024 * 1024; // 100 MB
 const ERROR_THRESHOLD_BYTES = 500 * 1024 * 1024; // 500 MB
@@ -16,8 +17,10 @@ registerCheck({
     if (sizeBytes < 0) return [];
 
     const sizeMB = Math.round(sizeBytes / (1024 * 1024));
+    const warnBytes = getNumberOption(context, 'build.context-size', 'warnBytes', WARN_THRESHOLD_BYTES);
+    const errorBytes = getNumberOption(context, 'build.context-size', 'errorBytes', ERROR_THRESHOLD_BYTES);
 
-    if (sizeBytes > ERROR_THRESHOLD_BYTES) {
+    if (sizeBytes > errorBytes) {
       return [
         {
           id: 'build.context-size',
@@ -26,7 +29,7 @@ registerCheck({
           category: 'build',
           message:
             `The Docker build context at \`${context.cwd}\` is ${sizeMB} MB, ` +
-            `which exceeds the 500 MB threshold. This will cause very slow builds ` +
+            `which exceeds the ${Math.round(errorBytes / (1024 * 1024))} MB threshold. This will cause very slow builds ` +
             `and may exhaust disk space or memory during image creation.`,
           fixes: [
             {
@@ -49,7 +52,7 @@ registerCheck({
       ];
     }
 
-    if (sizeBytes > WARN_THRESHOLD_BYTES) {
+    if (sizeBytes > warnBytes) {
       return [
         {
           id: 'build.context-size',
@@ -58,7 +61,7 @@ registerCheck({
           category: 'build',
           message:
             `The Docker build context at \`${context.cwd}\` is ${sizeMB} MB, ` +
-            `which exceeds the 100 MB threshold. Large build contexts slow down ` +
+            `which exceeds the ${Math.round(warnBytes / (1024 * 1024))} MB threshold. Large build contexts slow down ` +
             `builds because the entire context is sent to the Docker daemon.`,
           fixes: [
             {
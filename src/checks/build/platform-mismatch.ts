@@ -1,6 +1,7 @@
 import { registerCheck } from '../registry.js';
 import type { CheckContext, CheckResult } from '../../types/index.js';
 import { dockerExec } from '../../docker/exec.js';
+import { expandArgs, getFlag, getDockerfiles } from '../utils.js';
 
 registerCheck({
   id: 'build.platform-mismatch',
@@ -9,7 +10,8 @@ registerCheck({
   requiresDocker: true,
 
   async run(context: CheckContext): Promise<CheckResult[]> {
-    if (!context.dockerfile) return [];
+    const dockerfiles = getDockerfiles(context);
+    if (dockerfiles.length === 0) return [];
 
     // Get the host Docker architecture
     const versionResult = await dockerExec(['version', '--format', '{{.Server.Arch}}']);
@@ -30,54 +32,60 @@ registerCheck({
 
     const hostPlatforms = archAliases[hostArch] ?? [hostArch];
 
-    for (const stage of context.dockerfile.stages) {
-      // Find FROM instructions with --platform flag
-      for (const instr of stage.instructions) {
-        if (instr.name !== 'FROM') continue;
+    for (const dockerfile of dockerfiles) {
+      for (const stage of dockerfile.stages) {
+        // Find FROM instructions with --platform flag
+        for (const instr of stage.instructions) {
+          if (instr.name !== 'FROM') continue;
 
-        const platformMatch = instr.args.match(/--platform=(\S+)/i);
-        if (!platformMatch) continue;
+          const flag = getFlag(instr, 'platform');
+          if (!flag) continue;
 
-        const specifiedPlatform = platformMatch[1].toLowerCase();
+          // $BUILDPLATFORM / $TARGETPLATFORM are filled in by buildx at build time
+          const platform = expandArgs(dockerfile, instr, flag);
+          if (platform.includes('$')) continue;
 
-        const matches = hostPlatforms.some(
-          (hp) => specifiedPlatform === hp.toLowerCase(),
-        );
+          const specifiedPlatform = platform.toLowerCase();
 
-        if (!matches) {
-          results.push({
-            id: 'build.platform-mismatch',
-            title: 'Dockerfile platform does not match host architecture',
-            severity: 'warning',
-            category: 'build',
-            message:
-              `\`${instr.raw.trim()}\` at line ${instr.lineno} specifies platform ` +
-              `\`${specifiedPlatform}\`, but the Docker host architecture is \`${hostArch}\`. ` +
-              'This will either require emulation (slow) or fail if QEMU is not configured.',
-            location: context.dockerfile.path,
-            line: instr.lineno,
-            fixes: [
-              {
-                description: 'Use docker buildx for cross-platform builds',
-                type: 'manual',
-                instructions:
-                  'If you intentionally need a different platform:\n' +
-                  '  1. Set up buildx: `docker buildx create --use`\n' +
-                  '  2. Build with: `docker buildx build --platform ' +
-                  specifiedPlatform +
-                  ' -t <image> .`\n\n' +
-                  'If the platform flag is not needed, remove `--platform=' +
-                  specifiedPlatform +
-                  '` from the FROM instruction to use the native architecture.',
-              },
-            ],
-            meta: {
-              hostArch,
-              specifiedPlatform,
+          const matches = hostPlatforms.some(
+            (hp) => specifiedPlatform === hp.toLowerCase(),
+          );
+
+          if (!matches) {
+            results.push({
+              id: 'build.platform-mismatch',
+              title: 'Dockerfile platform does not match host architecture',
+              severity: 'warning',
+              category: 'build',
+              message:
+                `\`${instr.raw.trim()}\` at line ${instr.lineno} specifies platform ` +
+                `\`${specifiedPlatform}\`, but the Docker host architecture is \`${hostArch}\`. ` +
+                'This will either require emulation (slow) or fail if QEMU is not configured.',
+              location: dockerfile.path,
               line: instr.lineno,
-              instruction: instr.raw.trim(),
-            },
-          });
+              fixes: [
+                {
+                  description: 'Use docker buildx for cross-platform builds',
+                  type: 'manual',
+                  instructions:
+                    'If you intentionally need a different platform:\n' +
+                    '  1. Set up buildx: `docker buildx create --use`\n' +
+                    '  2. Build with: `docker buildx build --platform ' +
+                    specifiedPlatform +
+                    ' -t <image> .`\n\n' +
+                    'If the platform flag is not needed, remove `--platform=' +
+                    specifiedPlatform +
+                    '` from the FROM instruction to use the native architecture.',
+                },
+              ],
+              meta: {
+                hostArch,
+                specifiedPlatform,
+                line: instr.lineno,
+                instruction: instr.raw.trim(),
+              },
+            });
+          }
         }
       }
     }
@@ -1,5 +1,6 @@
 import { registerCheck } from '../registry.js';
 import type { CheckContext, CheckResult } from '../../types/index.js';
+import { composePosition } from '../utils.js';
 
 registerCheck({
   id: 'compose.bind-mounts',
@@ -54,7 +55,7 @@ registerCheck({
           `containers to fail when scheduled on nodes without the expected path. ` +
           `Use named volumes with a volume driver (e.g., NFS, cloud storage) for ` +
           `data that must be shared across nodes.`,
-        location: context.compose.path,
+        ...composePosition(context.compose, `services.${service.name}.volumes[${service.volumes.indexOf(bindMounts[0])}]`),
         fixes: [
           {
             description: 'Replace bind mounts with named volumes',
@@ -1,5 +1,6 @@
 import { registerCheck } from '../registry.js';
 import type { CheckContext, CheckResult } from '../../types/index.js';
+import { composePosition } from '../utils.js';
 
 registerCheck({
   id: 'compose.bridge-network',
@@ -29,7 +30,7 @@ registerCheck({
             `Swarm mode, which requires the \`overlay\` driver for cross-node communication. ` +
             `If you plan to deploy with \`docker stack deploy\`, this network will not ` +
             `connect services running on different nodes.`,
-          location: context.compose.path,
+          ...composePosition(context.compose, `networks.${netName}.driver`),
           fixes: [
             {
               description: 'Switch to overlay driver for Swarm compatibility',
@@ -0,0 +1,66 @@
+import { registerCheck } from '../registry.js';
+import type { CheckContext, CheckResult, ComposeLoadIssue } from '../../types/index.js';
+import { composePosition } from '../utils.js';
+
+const TITLES: Record<ComposeLoadIssue['kind'], string> = {
+  'include-missing': 'Included compose file not found',
+  'include-cycle': 'Compose include cycle',
+  'extends-missing': 'Extended service not found',
+  'extends-cycle': 'Compose extends cycle',
+};
+
+const INSTRUCTIONS: Record<ComposeLoadIssue['kind'], string> = {
+  'include-missing':
+    `Fix the path in the top-level include block. Paths are relative to the\n` +
+    `file that declares the include:\n\n` +
+    `  include:\n` +
+    `    - ./infra/compose.yml`,
+  'include-cycle':
+    `Remove the include that points back to a file already being loaded.\n` +
+    `Shared definitions belong in a separate file that both files include.`,
+  'extends-missing':
+    `Point extends at a service that exists. Without "file", the service must\n` +
+    `be defined in the same compose file:\n\n` +
+    `  services:\n` +
+    `    web:\n` +
+    `      extends:\n` +
+    `        file: common.yml\n` +
+    `        service: base`,
+  'extends-cycle':
+    `Break the chain so that no service extends itself, directly or through\n` +
+    `other services.`,
+};
+
+registerCheck({
+  id: 'compose.broken-reference',
+  name: 'Broken Include or Extends Reference',
+  category: 'compose',
+  requiresDocker: false,
+
+  async run(context: CheckContext): Promise<CheckResult[]> {
+    if (!context.compose) return [];
+
+    const compose = context.compose;
+    return compose.issues.map((issue) => ({
+      id: 'compose.broken-reference',
+      title: TITLES[issue.kind],
+      severity: 'error',
+      category: 'compose',
+      message:
+        `${issue.message} (\`${issue.path}\`). \`docker compose\` will refuse to load the ` +
+        `project; dockerdoctor checked the configuration without this reference.`,
+      ...composePosition(compose, issue.path, issue.file),
+      fixes: [
+        {
+          description: issue.kind.startsWith('include') ? 'Fix the include path' : 'Fix the extends reference',
+          type: 'manual',
+          instructions: INSTRUCTIONS[issue.kind],
+        },
+      ],
+      meta: {
+        kind: issue.kind,
+        path: issue.path,
+      },
+    }));
+  },
+});
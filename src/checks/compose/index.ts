@@ -6,3 +6,5 @@ import './bridge-network.js';
 import './bind-mounts.js';
 import './network-mismatch.js';
 import './undefined-network.js';
+import './unresolved-variable.js';
+import './broken-reference.js';
@@ -1,5 +1,6 @@
 import { registerCheck } from '../registry.js';
 import type { CheckContext, CheckResult } from '../../types/index.js';
+import { composePosition } from '../utils.js';
 
 registerCheck({
   id: 'compose.missing-healthcheck',
@@ -16,13 +17,11 @@ registerCheck({
       // Skip services that already have a healthcheck
       if (service.healthcheck) continue;
 
-      // Skip helper/init containers — they typically have no ports and may use
-      // profiles or have no long-running process
+      // Skip helper/init containers — they typically have no ports or no
+      // long-running process. Services of inactive profiles are already
+      // left out of the parsed configuration.
       const hasPorts = service.ports && service.ports.length > 0;
-      const hasProfiles = Array.isArray((service as Record<string, unknown>).profiles);
-
-      if (!hasPorts && !hasProfiles) continue;
-      if (hasProfiles) continue;
+      if (!hasPorts) continue;
 
       results.push({
         id: 'compose.missing-healthcheck',
@@ -35,7 +34,7 @@ registerCheck({
           `actually healthy and serving traffic. Other services using \`depends_on\` ` +
           `with \`condition: service_healthy\` will not work, and orchestrators cannot ` +
           `perform proper rolling updates or automatic restarts of unhealthy containers.`,
-        location: context.compose.path,
+        ...composePosition(context.compose, `services.${service.name}`),
         fixes: [
           {
             description: 'Add a healthcheck to the service',
@@ -1,5 +1,6 @@
 import { registerCheck } from '../registry.js';
 import type { CheckContext, CheckResult, ComposeService } from '../../types/index.js';
+import { composePosition } from '../utils.js';
 
 function getServiceNetworks(service: ComposeService): string[] | null {
   const networks = service.networks;
@@ -15,6 +16,14 @@ function getDependencyNames(service: ComposeService): string[] {
   return Object.keys(dep);
 }
 
+/** Dotted path of a `depends_on` entry, in list or mapping syntax. */
+function dependencyPath(service: ComposeService, depName: string): string {
+  const dep = service.depends_on;
+  return Array.isArray(dep)
+    ? `services.${service.name}.depends_on[${dep.indexOf(depName)}]`
+    : `services.${service.name}.depends_on.${depName}`;
+}
+
 registerCheck({
   id: 'compose.network-mismatch',
   name: 'Depends-on Network Mismatch',
@@ -60,7 +69,7 @@ registerCheck({
               `"${service.name}" is on [${serviceNets.join(', ')}] while "${depName}" is on ` +
               `[${depNets.join(', ')}]. They will not be able to communicate. ` +
               `Add both services to a shared network.`,
-            location: context.compose.path,
+            ...composePosition(context.compose, dependencyPath(service, depName)),
             fixes: [
               {
                 description: `Add "${depName}" to a shared network with "${service.name}"`,
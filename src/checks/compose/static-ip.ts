@@ -1,5 +1,6 @@
 import { registerCheck } from '../registry.js';
 import type { CheckContext, CheckResult } from '../../types/index.js';
+import { composePosition } from '../utils.js';
 
 registerCheck({
   id: 'compose.static-ip',
@@ -39,7 +40,7 @@ registerCheck({
               `with \`docker compose up --scale\` because multiple replicas cannot share ` +
               `the same IP. They also make the compose file less portable across environments. ` +
               `Let Docker assign IPs automatically via its built-in DNS resolution.`,
-            location: context.compose.path,
+            ...composePosition(context.compose, `services.${service.name}.networks.${netName}.${ipv4 ? 'ipv4_address' : 'ipv6_address'}`),
             fixes: [
               {
                 description: 'Remove static IP assignments and use Docker DNS',
@@ -1,5 +1,6 @@
 import { registerCheck } from '../registry.js';
 import type { CheckContext, CheckResult } from '../../types/index.js';
+import { composePosition } from '../utils.js';
 
 const SWARM_IGNORED_KEYS = ['restart', 'container_name', 'depends_on', 'links', 'build'] as const;
 
@@ -36,7 +37,7 @@ registerCheck({
           `Swarm uses its own restart policy via \`deploy.restart_policy\`, ignores ` +
           `container naming, and does not support build or depends_on. ` +
           `These keys will have no effect when deploying with \`docker stack deploy\`.`,
-        location: context.compose.path,
+        ...composePosition(context.compose, `services.${service.name}.${ignoredKeys[0]}`),
         fixes: [
           {
             description: 'Remove Swarm-incompatible directives or move config to deploy',
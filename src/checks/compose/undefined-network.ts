@@ -1,5 +1,6 @@
 import { registerCheck } from '../registry.js';
 import type { CheckContext, CheckResult } from '../../types/index.js';
+import { composePosition } from '../utils.js';
 
 registerCheck({
   id: 'compose.undefined-network',
@@ -24,8 +25,12 @@ registerCheck({
 
       const netNames = Array.isArray(networks) ? networks : Object.keys(networks);
 
-      for (const netName of netNames) {
+      for (const [index, netName] of netNames.entries()) {
         if (!definedSet.has(netName)) {
+          // List syntax points at the entry, mapping syntax at the key
+          const path = Array.isArray(networks)
+            ? `services.${service.name}.networks[${index}]`
+            : `services.${service.name}.networks.${netName}`;
           results.push({
             id: 'compose.undefined-network',
             title: `Service "${service.name}" references undefined network "${netName}"`,
@@ -36,7 +41,7 @@ registerCheck({
               `in the top-level "networks:" block. Docker Compose will fail to start with ` +
               `"network ${netName} is declared as external, but could not be found". ` +
               `Add "${netName}" to the top-level networks section.`,
-            location: context.compose.path,
+            ...composePosition(context.compose, path),
             fixes: [
               {
                 description: `Define the "${netName}" network in the top-level networks block`,
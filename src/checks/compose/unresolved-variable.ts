@@ -0,0 +1,62 @@
+import { registerCheck } from '../registry.js';
+import type { CheckContext, CheckResult, UnresolvedVariable } from '../../types/index.js';
+import { composePosition } from '../utils.js';
+
+registerCheck({
+  id: 'compose.unresolved-variable',
+  name: 'Unresolved Compose Variable',
+  category: 'compose',
+  requiresDocker: false,
+
+  async run(context: CheckContext): Promise<CheckResult[]> {
+    if (!context.compose) return [];
+
+    const results: CheckResult[] = [];
+
+    // Report each variable once, listing every place it is used
+    const byName = new Map<string, UnresolvedVariable[]>();
+    for (const ref of context.compose.unresolved) {
+      byName.set(ref.name, [...(byName.get(ref.name) ?? []), ref]);
+    }
+
+    for (const [name, refs] of byName) {
+      const required = refs.find((r) => r.required);
+      const paths = [...new Set(refs.map((r) => r.path))];
+      const usedIn = paths.map((p) => `\`${p}\``).join(', ');
+
+      results.push({
+        id: 'compose.unresolved-variable',
+        title: required
+          ? `Required variable \${${name}} is not set`
+          : `Variable \${${name}} is not set`,
+        severity: required ? 'error' : 'info',
+        category: 'compose',
+        message: required
+          ? `\`${name}\` is marked as required in ${usedIn} but is not set in the environment ` +
+            `or any env file. \`docker compose up\` will refuse to start` +
+            (required.message ? ` with: "${required.message}".` : '.')
+          : `\`${name}\` is referenced in ${usedIn} without a default but is not set in the ` +
+            `environment or any env file. Compose will substitute an empty string.`,
+        ...composePosition(context.compose, (required ?? refs[0]).path),
+        fixes: [
+          {
+            description: `Define ${name} in .env or provide a default`,
+            type: 'manual',
+            instructions:
+              `Add the variable to the project .env file (or pass --env-file):\n\n` +
+              `  ${name}=value\n\n` +
+              `Or give it a default in the compose file:\n\n` +
+              `  \${${name}:-default}`,
+          },
+        ],
+        meta: {
+          variable: name,
+          required: Boolean(required),
+          paths,
+        },
+      });
+    }
+
+    return results;
+  },
+});
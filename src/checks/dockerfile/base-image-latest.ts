@@ -1,5 +1,7 @@
 import { registerCheck } from '../registry.js';
-import type { CheckContext, CheckResult } from '../../types/index.js';
+import type { CheckContext, CheckResult, Fix } from '../../types/index.js';
+import { getDockerfiles, getStringOption } from '../utils.js';
+import { pinFix, resolveDigest } from '../../pin.js';
 
 registerCheck({
   id: 'dockerfile.base-image-latest',
@@ -8,59 +10,81 @@ registerCheck({
   requiresDocker: false,
 
   async run(context: CheckContext): Promise<CheckResult[]> {
-    if (!context.dockerfile) return [];
-
     const results: CheckResult[] = [];
+    // Digests come from the local image store or, when configured, a registry mirror
+    const registryMirror = getStringOption(context, 'dockerfile.base-image-latest', 'registryMirror');
+    const canResolve = context.dockerAvailable || registryMirror !== undefined;
+
+    for (const dockerfile of getDockerfiles(context)) {
+      const stageNames = new Set<string>();
+
+      for (const stage of dockerfile.stages) {
+        const baseImage = stage.baseImage;
+        const image = stage.effectiveBaseImage;
+        const isStageReference = image !== undefined && stageNames.has(image.toLowerCase());
+        if (stage.name) stageNames.add(stage.name.toLowerCase());
 
-    for (const stage of context.dockerfile.stages) {
-      const baseImage = stage.baseImage;
+        // Skip ARG-based images like FROM ${BASE_IMAGE} without a value — we cannot resolve them statically
+        if (image === undefined) continue;
 
-      // Skip scratch — it has no tag
-      if (baseImage === 'scratch') continue;
+        // Skip scratch — it has no tag
+        if (image === 'scratch') continue;
 
-      // Skip ARG-based images like FROM ${BASE_IMAGE} — we cannot resolve them statically
-      if (/\$\{?[A-Z_]+\}?/.test(baseImage)) continue;
+        // Skip references to an earlier stage (FROM deps AS build)
+        if (isStageReference) continue;
 
-      // Check for :latest or no tag at all
-      const hasTag = baseImage.includes(':');
-      const usesLatest = baseImage.endsWith(':latest');
+        // Check for :latest or no tag at all
+        const hasTag = image.includes(':');
+        const usesLatest = image.endsWith(':latest');
+        const resolved = image !== baseImage ? ` (resolves to \`${image}\`)` : '';
 
-      if (!hasTag || usesLatest) {
-        const issue = usesLatest ? 'uses the `:latest` tag' : 'has no tag (implicitly `:latest`)';
+        if (!hasTag || usesLatest) {
+          const fixes: Fix[] = [];
+          // Images spelled with variables can't be rewritten in place
+          if (canResolve && image === baseImage) {
+            const digest = await resolveDigest(image, { docker: context.dockerAvailable, registryMirror });
+            if (digest) {
+              fixes.push(pinFix({ path: dockerfile.path, line: stage.startLine, image, source: 'dockerfile' }, digest));
+            }
+          }
+          const issue = usesLatest ? 'uses the `:latest` tag' : 'has no tag (implicitly `:latest`)';
 
-        results.push({
-          id: 'dockerfile.base-image-latest',
-          title: `Base image ${issue}`,
-          severity: 'warning',
-          category: 'dockerfile',
-          message:
-            `\`FROM ${baseImage}\` at line ${stage.startLine} ${issue}. ` +
-            `The \`:latest\` tag is mutable and can change at any time, leading to ` +
-            `unreproducible builds. A build that works today may break tomorrow when ` +
-            `the upstream image is updated. Pin to a specific version tag or digest.`,
-          location: context.dockerfile.path,
-          line: stage.startLine,
-          fixes: [
-            {
-              description: 'Pin the base image to a specific version',
-              type: 'manual',
-              instructions:
-                `Replace \`FROM ${baseImage}\` with a pinned version. For example:\n\n` +
-                `  FROM node:20-slim\n` +
-                `  FROM python:3.12-slim\n` +
-                `  FROM nginx:1.25-alpine\n\n` +
-                `For maximum reproducibility, pin to a digest:\n` +
-                `  FROM node:20-slim@sha256:abc123...\n\n` +
-                `You can find available tags on Docker Hub or by running:\n` +
-                `  docker pull --quiet ${baseImage.split(':')[0]} && docker inspect ${baseImage.split(':')[0]}`,
+          results.push({
+            id: 'dockerfile.base-image-latest',
+            title: `Base image ${issue}`,
+            severity: 'warning',
+            category: 'dockerfile',
+            message:
+              `\`FROM ${baseImage}\`${resolved} at line ${stage.startLine} ${issue}. ` +
+              `The \`:latest\` tag is mutable and can change at any time, leading to ` +
+              `unreproducible builds. A build that works today may break tomorrow when ` +
+              `the upstream image is updated. Pin to a specific version tag or digest.`,
+            location: dockerfile.path,
+            line: stage.startLine,
+            fixes: [
+              ...fixes,
+              {
+                description: 'Pin the base image to a specific version',
+                type: 'manual',
+                instructions:
+                  `Replace \`FROM ${baseImage}\` with a pinned version. For example:\n\n` +
+                  `  FROM node:20-slim\n` +
+                  `  FROM python:3.12-slim\n` +
+                  `  FROM nginx:1.25-alpine\n\n` +
+                  `For maximum reproducibility, pin to a digest:\n` +
+                  `  FROM node:20-slim@sha256:abc123...\n\n` +
+                  `You can find available tags on Docker Hub or by running:\n` +
+                  `  docker pull --quiet ${image.split(':')[0]} && docker inspect ${image.split(':')[0]}`,
+              },
+            ],
+            meta: {
+              baseImage,
+              effectiveBaseImage: image,
+              stageName: stage.name,
+              startLine: stage.startLine,
             },
-          ],
-          meta: {
-            baseImage,
-            stageName: stage.name,
-            startLine: stage.startLine,
-          },
-        });
+          });
+        }
       }
     }
 
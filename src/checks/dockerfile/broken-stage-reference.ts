@@ -0,0 +1,109 @@
+import { registerCheck } from '../registry.js';
+import type { CheckContext, CheckResult, ParsedDockerfile } from '../../types/index.js';
+import { getDockerfiles, stageReferences, type StageReference } from '../utils.js';
+
+/** Levenshtein distance, for suggesting the stage a misspelled name meant. */
+function distance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function describeProblem(
+  dockerfile: ParsedDockerfile,
+  ref: StageReference,
+): { title: string; detail: string; severity: 'error' | 'warning'; suggestion?: string } | undefined {
+  const name = ref.ref.toLowerCase();
+  // `FROM node AS node` names its own stage after an image, which is fine
+  const first = ref.instr.name === 'FROM' ? ref.stage + 1 : ref.stage;
+  const later = dockerfile.stages.findIndex((s, i) => i >= first && s.name?.toLowerCase() === name);
+  if (later !== -1) {
+    const stage = dockerfile.stages[later];
+    return {
+      title: `\`${ref.ref}\` refers to a stage that is not built yet`,
+      detail:
+        later === ref.stage
+          ? `\`${stage.name}\` is the stage this instruction belongs to, and a stage can't read from itself.`
+          : `Stage \`${stage.name}\` is only declared at line ${stage.startLine}, and a stage can only use stages above it.`,
+      severity: 'error',
+    };
+  }
+
+  // FROM of anything that isn't a later stage is an ordinary base image
+  if (ref.instr.name === 'FROM') return undefined;
+
+  if (/^\d+$/.test(ref.ref)) {
+    return {
+      title: `Stage index ${ref.ref} does not exist`,
+      detail: ref.stage === 0 ? 'No stage comes before this one.' : `Only stages 0 to ${ref.stage - 1} come before this one.`,
+      severity: 'error',
+    };
+  }
+
+  // A reference with a registry, tag or digest is deliberately an image
+  if (/[/:@]/.test(ref.ref)) return undefined;
+  const earlier = dockerfile.stages.slice(0, ref.stage).flatMap((s) => (s.name ? [s.name] : []));
+  const suggestion = earlier.find((s) => distance(s.toLowerCase(), name) <= 2);
+  return {
+    title: `No stage named \`${ref.ref}\``,
+    detail:
+      `No stage above it is named \`${ref.ref}\`, so Docker pulls an image called \`${ref.ref}\` instead ` +
+      `and the build most likely fails.`,
+    severity: 'warning',
+    suggestion,
+  };
+}
+
+registerCheck({
+  id: 'dockerfile.broken-stage-reference',
+  name: 'COPY --from Refers to a Missing Stage',
+  category: 'dockerfile',
+  requiresDocker: false,
+
+  async run(context: CheckContext): Promise<CheckResult[]> {
+    const results: CheckResult[] = [];
+
+    for (const dockerfile of getDockerfiles(context)) {
+      for (const ref of stageReferences(dockerfile)) {
+        // Resolved references are fine; ones still holding a variable can't be judged
+        if (ref.resolved !== undefined || ref.ref.includes('$')) continue;
+        const problem = describeProblem(dockerfile, ref);
+        if (!problem) continue;
+
+        const names = dockerfile.stages.slice(0, ref.stage).flatMap((s) => (s.name ? [`\`${s.name}\``] : []));
+        results.push({
+          id: 'dockerfile.broken-stage-reference',
+          title: problem.title,
+          severity: problem.severity,
+          category: 'dockerfile',
+          message:
+            `\`${ref.instr.raw.trim()}\` at line ${ref.instr.lineno} uses \`${ref.ref}\`. ${problem.detail}` +
+            (problem.suggestion ? ` Did you mean \`${problem.suggestion}\`?` : ''),
+          location: dockerfile.path,
+          line: ref.instr.lineno,
+          fixes: [
+            {
+              description: problem.suggestion ? `Use stage \`${problem.suggestion}\`` : 'Point the reference at an earlier stage',
+              type: 'manual',
+              instructions:
+                (names.length > 0
+                  ? `Stages available at line ${ref.instr.lineno}: ${names.join(', ')}. `
+                  : `No named stage comes before line ${ref.instr.lineno}. `) +
+                'Reference one of them by name, or move the stage you meant above this one. ' +
+                'To copy from an image on purpose, give its full reference with a tag, e.g. `--from=nginx:1.27`.',
+            },
+          ],
+          meta: { reference: ref.ref, instruction: ref.instr.name, stageIndex: ref.stage },
+        });
+      }
+    }
+
+    return results;
+  },
+});
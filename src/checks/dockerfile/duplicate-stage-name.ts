@@ -0,0 +1,53 @@
+import { registerCheck } from '../registry.js';
+import type { CheckContext, CheckResult } from '../../types/index.js';
+import { getDockerfiles } from '../utils.js';
+
+registerCheck({
+  id: 'dockerfile.duplicate-stage-name',
+  name: 'Duplicate Build Stage Name',
+  category: 'dockerfile',
+  requiresDocker: false,
+
+  async run(context: CheckContext): Promise<CheckResult[]> {
+    const results: CheckResult[] = [];
+
+    for (const dockerfile of getDockerfiles(context)) {
+      // Stage names are case-insensitive
+      const firstLine = new Map<string, number>();
+      for (const stage of dockerfile.stages) {
+        if (!stage.name) continue;
+        const key = stage.name.toLowerCase();
+        const first = firstLine.get(key);
+        if (first === undefined) {
+          firstLine.set(key, stage.startLine);
+          continue;
+        }
+
+        results.push({
+          id: 'dockerfile.duplicate-stage-name',
+          title: `Stage name ${stage.name} is used twice`,
+          severity: 'error',
+          category: 'dockerfile',
+          message:
+            `The stage at line ${stage.startLine} is named \`${stage.name}\`, like the stage at line ${first}. ` +
+            `BuildKit fails with "duplicate stage name", and references such as ` +
+            `\`COPY --from=${stage.name}\` can't say which stage they mean.`,
+          location: dockerfile.path,
+          line: stage.startLine,
+          fixes: [
+            {
+              description: 'Rename one of the stages',
+              type: 'manual',
+              instructions:
+                `Give the stage at line ${stage.startLine} a unique name, e.g. \`FROM ${stage.baseImage} AS ${stage.name}-2\`, ` +
+                `and update the \`COPY --from\`, \`FROM\` and \`--target\` references that meant it.`,
+            },
+          ],
+          meta: { name: stage.name, firstLine: first },
+        });
+      }
+    }
+
+    return results;
+  },
+});
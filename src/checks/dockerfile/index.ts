@@ -8,3 +8,7 @@ import './alpine-native.js';
 import './running-as-root.js';
 import './missing-chown.js';
 import './shell-form.js';
+import './missing-copy-source.js';
+import './unused-stage.js';
+import './broken-stage-reference.js';
+import './duplicate-stage-name.js';
@@ -0,0 +1,210 @@
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import { join, relative, resolve } from 'node:path';
+import { registerCheck } from '../registry.js';
+import type {
+  CheckContext,
+  CheckResult,
+  DockerfileInstruction,
+  DockerignoreEntry,
+  ParsedDockerfile,
+  ParsedDockerignore,
+} from '../../types/index.js';
+import { copySources, getDockerfiles } from '../utils.js';
+import { editFix } from '../../fixes.js';
+import { cleanPattern, isDockerignored, parseDockerignore, patternToRegExp } from '../../parsers/dockerignore.js';
+
+/**
+ * The .dockerignore a build of `dockerfile` uses: `<Dockerfile>.dockerignore`
+ * next to it when present, as BuildKit does, otherwise the one in the root
+ * of the build context.
+ */
+function buildIgnore(context: CheckContext, dockerfile: ParsedDockerfile, contextDir: string): ParsedDockerignore | undefined {
+  const specific = `${dockerfile.path}.dockerignore`;
+  const path = existsSync(specific) ? specific : join(contextDir, '.dockerignore');
+  if (context.dockerignore && resolve(context.dockerignore.path) === resolve(path)) return context.dockerignore;
+  try {
+    return parseDockerignore(readFileSync(path, 'utf-8'), path);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Paths in the context a COPY source names, relative to the context root.
+ * Wildcards are expanded one path segment at a time, like Go's
+ * `filepath.Match`, so `*` never crosses a `/`.
+ */
+function expandSource(contextDir: string, source: string): string[] {
+  let paths = [''];
+  for (const segment of source.split('/')) {
+    if (!/[*?[]/.test(segment)) {
+      paths = paths.map((p) => (p ? `${p}/${segment}` : segment));
+      continue;
+    }
+    const regex = patternToRegExp(segment.replace(/\*+/g, '*'));
+    paths = paths.flatMap((p) => {
+      try {
+        return readdirSync(join(contextDir, p))
+          .filter((name) => regex.test(name))
+          .map((name) => (p ? `${p}/${name}` : name));
+      } catch {
+        return [];
+      }
+    });
+  }
+  return paths.filter((p) => existsSync(join(contextDir, p)));
+}
+
+/**
+ * Whether a build sends `path`: it isn't excluded, or it is an excluded
+ * directory a `!` entry re-includes something inside of.
+ */
+function isSent(contextDir: string, path: string, entries: DockerignoreEntry[]): boolean {
+  if (!isDockerignored(path, entries)) return true;
+  if (!entries.some((e) => e.negation)) return false;
+  let names: string[];
+  try {
+    names = readdirSync(join(contextDir, path));
+  } catch {
+    return false;
+  }
+  return names.some((name) => isSent(contextDir, `${path}/${name}`, entries));
+}
+
+interface SourceProblem {
+  source: string;
+  reason: 'missing' | 'ignored' | 'outside';
+  /** The source has wildcards; BuildKit copies nothing rather than failing when they match nothing */
+  wildcard: boolean;
+  /** The last .dockerignore entry excluding the source */
+  entry?: DockerignoreEntry;
+}
+
+function sourceProblems(
+  dockerfile: ParsedDockerfile,
+  instr: DockerfileInstruction,
+  contextDir: string,
+  ignore: ParsedDockerignore | undefined,
+): SourceProblem[] {
+  const problems: SourceProblem[] = [];
+  for (const raw of copySources(dockerfile, instr)) {
+    // Sources still holding a variable can't be resolved statically
+    if (raw.includes('$')) continue;
+    const source = cleanPattern(raw);
+    if (source === '.') continue;
+    const wildcard = /[*?[]/.test(source);
+    if (source === '..' || source.startsWith('../')) {
+      problems.push({ source: raw, reason: 'outside', wildcard });
+      continue;
+    }
+
+    const matches = expandSource(contextDir, source);
+    if (matches.length === 0) {
+      problems.push({ source: raw, reason: 'missing', wildcard });
+    } else if (ignore && !matches.some((path) => isSent(contextDir, path, ignore.entries))) {
+      const entry = [...ignore.entries].reverse().find((e) => !e.negation && isDockerignored(matches[0], [e]));
+      problems.push({ source: raw, reason: 'ignored', wildcard, entry });
+    }
+  }
+  return problems;
+}
+
+registerCheck({
+  id: 'dockerfile.missing-copy-source',
+  name: 'COPY Source Missing or Excluded by .dockerignore',
+  category: 'dockerfile',
+  requiresDocker: false,
+
+  async run(context: CheckContext): Promise<CheckResult[]> {
+    const results: CheckResult[] = [];
+
+    for (const dockerfile of getDockerfiles(context)) {
+      // Like `docker build .` from the project, unless compose names another context
+      const contextDir = resolve(context.cwd, dockerfile.buildContext ?? '.');
+      if (!existsSync(contextDir)) continue;
+      const ignore = buildIgnore(context, dockerfile, contextDir);
+      const contextName = relative(context.cwd, contextDir) || '.';
+
+      for (const instr of dockerfile.allInstructions) {
+        for (const problem of sourceProblems(dockerfile, instr, contextDir, ignore)) {
+          const { source, reason, wildcard, entry } = problem;
+          const pattern = cleanPattern(source);
+
+          if (reason === 'ignored') {
+            const ignorePath = ignore!.path;
+            results.push({
+              id: 'dockerfile.missing-copy-source',
+              title: `${instr.name} source \`${source}\` is excluded by .dockerignore`,
+              severity: wildcard ? 'warning' : 'error',
+              category: 'dockerfile',
+              message:
+                `\`${instr.raw.trim()}\` at line ${instr.lineno} copies \`${source}\`, but ` +
+                (entry ? `\`${entry.pattern}\` at line ${entry.line} of ` : '') +
+                `\`${relative(context.cwd, ignorePath) || ignorePath}\` excludes it from the build context. ` +
+                (wildcard
+                  ? 'Nothing it matches is sent to the daemon, so the instruction copies nothing.'
+                  : `The build fails with "not found" because the daemon never receives it.`),
+              location: dockerfile.path,
+              line: instr.lineno,
+              fixes: [
+                editFix(`Re-include \`${pattern}\` in .dockerignore`, async (read) => {
+                  const before = read(ignorePath) ?? '';
+                  const separator = before === '' || before.endsWith('\n') ? '' : '\n';
+                  return [{ path: ignorePath, before, after: `${before}${separator}!${pattern}\n` }];
+                }),
+                {
+                  description: 'Stop excluding the source',
+                  type: 'manual',
+                  instructions:
+                    (entry
+                      ? `Remove or narrow \`${entry.pattern}\` (line ${entry.line}) in the .dockerignore, `
+                      : 'Remove the entry that excludes it from the .dockerignore, ') +
+                    `or add a re-include line after it:\n\n  !${pattern}`,
+                },
+              ],
+              meta: { source, reason, buildContext: contextDir, entry: entry?.pattern },
+            });
+            continue;
+          }
+
+          results.push({
+            id: 'dockerfile.missing-copy-source',
+            title:
+              reason === 'outside'
+                ? `${instr.name} source \`${source}\` is outside the build context`
+                : `${instr.name} source \`${source}\` ${wildcard ? 'matches nothing' : 'does not exist'}`,
+            severity: wildcard && reason === 'missing' ? 'warning' : 'error',
+            category: 'dockerfile',
+            message:
+              reason === 'outside'
+                ? `\`${instr.raw.trim()}\` at line ${instr.lineno} copies \`${source}\`, which is outside ` +
+                  `the build context \`${contextName}\`. Docker can only copy files from inside the context.`
+                : `\`${instr.raw.trim()}\` at line ${instr.lineno} copies \`${source}\`, but ` +
+                  (wildcard ? 'it matches nothing' : 'it does not exist') +
+                  ` in the build context \`${contextName}\`. ` +
+                  (wildcard
+                    ? 'The instruction copies nothing (older builders fail instead).'
+                    : 'The build fails with "not found".'),
+            location: dockerfile.path,
+            line: instr.lineno,
+            fixes: [
+              {
+                description: reason === 'outside' ? 'Move the file into the build context' : 'Fix the source path',
+                type: 'manual',
+                instructions:
+                  reason === 'outside'
+                    ? `Either move \`${source}\` into \`${contextName}\`, or build from a parent directory ` +
+                      '(e.g. `docker build -f path/to/Dockerfile .`) and adjust the COPY paths.'
+                    : `Source paths are relative to the build context \`${contextName}\`, not to the Dockerfile. ` +
+                      `Create \`${source}\` there, correct the path, or remove the ${instr.name} if it is no longer needed.`,
+              },
+            ],
+            meta: { source, reason, buildContext: contextDir },
+          });
+        }
+      }
+    }
+
+    return results;
+  },
+});
@@ -1,5 +1,90 @@
 import { registerCheck } from '../registry.js';
-import type { CheckContext, CheckResult } from '../../types/index.js';
+import type { CheckContext, CheckResult, Fix, ParsedDockerfile } from '../../types/index.js';
+import { expandArgs, getDockerfiles, getFlag } from '../utils.js';
+import { editFix } from '../../fixes.js';
+import { parseImageReference } from '../../pin.js';
+
+type BaseFamily = 'node' | 'distroless' | 'alpine' | 'debian';
+
+/** Official images whose default variants are Debian or Ubuntu based */
+const DEBIAN_BASED = new Set([
+  'debian', 'ubuntu', 'python', 'golang', 'ruby', 'php', 'perl', 'rust', 'openjdk', 'eclipse-temurin', 'gcc',
+  'buildpack-deps',
+]);
+const DEBIAN_TAG = /(^|-)(slim|bookworm|bullseye|buster|trixie|jammy|focal|noble)($|-)/;
+
+/** The user each family runs as, and how to create it when the image has none */
+const FAMILY_USER: Record<BaseFamily, { user: string; create?: string }> = {
+  node: { user: 'node' },
+  distroless: { user: 'nonroot' },
+  alpine: { user: 'app', create: 'RUN addgroup -S app && adduser -S -G app app' },
+  debian: { user: 'app', create: 'RUN groupadd --system app && useradd --system --gid app --no-create-home app' },
+};
+
+function baseFamily(image: string): BaseFamily | undefined {
+  const { registry, repository, tag = 'latest' } = parseImageReference(image);
+  const official = registry === 'docker.io' && repository.startsWith('library/') ? repository.slice(8) : undefined;
+  if (repository.includes('distroless')) return 'distroless';
+  // Every variant of the official node image ships a `node` user
+  if (official === 'node') return 'node';
+  if (official === 'alpine' || tag.includes('alpine')) return 'alpine';
+  if ((official && DEBIAN_BASED.has(official)) || DEBIAN_TAG.test(tag)) return 'debian';
+  return undefined;
+}
+
+/** Image the final stage is ultimately built on, following `FROM <earlier stage>`. */
+function finalBaseImage(dockerfile: ParsedDockerfile): string | undefined {
+  let index = dockerfile.stages.length - 1;
+  for (;;) {
+    const image = dockerfile.stages[index].effectiveBaseImage;
+    if (image === undefined) return undefined;
+    let earlier = index - 1;
+    while (earlier >= 0 && dockerfile.stages[earlier].name?.toLowerCase() !== image.toLowerCase()) earlier--;
+    if (earlier < 0) return image;
+    index = earlier;
+  }
+}
+
+/**
+ * Switch the final stage to the base image's non-root user, creating it
+ * when needed. USER goes after the stage's last RUN, which may still need
+ * root, and later COPY/ADD instructions get `--chown` so the user owns
+ * what they copy.
+ */
+function nonRootUserFix(dockerfile: ParsedDockerfile): Fix | undefined {
+  const finalStage = dockerfile.stages[dockerfile.stages.length - 1];
+  const image = finalBaseImage(dockerfile);
+  const family = image === undefined ? undefined : baseFamily(image);
+  // An explicit `USER root` is deliberate; leave it to the user
+  if (!family || finalStage.instructions.some((instr) => instr.name === 'USER')) return undefined;
+
+  const { user, create } = FAMILY_USER[family];
+  const lastRun = [...finalStage.instructions].reverse().find((instr) => instr.name === 'RUN');
+  const anchor = lastRun ?? finalStage.instructions[0];
+  const copies = finalStage.instructions.filter(
+    (instr) =>
+      (instr.name === 'COPY' || instr.name === 'ADD') &&
+      instr.lineno > anchor.endLine &&
+      getFlag(instr, 'chown') === undefined,
+  );
+
+  return editFix(`Run as the non-root user \`${user}\``, async (read) => {
+    const before = read(dockerfile.path);
+    if (before === undefined) throw new Error(`${dockerfile.path} no longer exists`);
+    const lines = before.split('\n');
+    const eol = lines[anchor.endLine - 1]?.endsWith('\r') ? '\r' : '';
+
+    for (const instr of copies) {
+      lines[instr.lineno - 1] = lines[instr.lineno - 1].replace(
+        /^(\s*)(COPY|ADD)(\s+)/i,
+        (_, indent: string, keyword: string, space: string) => `${indent}${keyword} --chown=${user}:${user}${space}`,
+      );
+    }
+    const inserted = [...(create ? [create] : []), `USER ${user}`].map((line) => line + eol);
+    lines.splice(anchor.endLine, 0, ...inserted);
+    return [{ path: dockerfile.path, before, after: lines.join('\n') }];
+  });
+}
 
 registerCheck({
   id: 'dockerfile.running-as-root',
@@ -8,63 +93,68 @@ registerCheck({
   requiresDocker: false,
 
   async run(context: CheckContext): Promise<CheckResult[]> {
-    if (!context.dockerfile) return [];
-
     const results: CheckResult[] = [];
-    const { stages } = context.dockerfile;
 
-    if (stages.length === 0) return [];
+    for (const dockerfile of getDockerfiles(context)) {
+      const { stages } = dockerfile;
 
-    // Only check the final stage — that is the one that actually runs
-    const finalStage = stages[stages.length - 1];
+      if (stages.length === 0) continue;
 
-    const hasUserInstruction = finalStage.instructions.some(
-      (instr) => instr.name === 'USER' && instr.args.trim() !== '' && instr.args.trim() !== 'root'
-    );
+      // Only check the final stage — that is the one that actually runs
+      const finalStage = stages[stages.length - 1];
 
-    if (!hasUserInstruction) {
-      // Find the CMD or ENTRYPOINT line for better location reporting
-      const runtimeInstr = finalStage.instructions.find(
-        (instr) => instr.name === 'CMD' || instr.name === 'ENTRYPOINT'
-      );
+      const hasUserInstruction = finalStage.instructions.some((instr) => {
+        if (instr.name !== 'USER') return false;
+        const user = expandArgs(dockerfile, instr).trim();
+        return user !== '' && user !== 'root';
+      });
+
+      if (!hasUserInstruction) {
+        // Find the CMD or ENTRYPOINT line for better location reporting
+        const runtimeInstr = finalStage.instructions.find(
+          (instr) => instr.name === 'CMD' || instr.name === 'ENTRYPOINT'
+        );
 
-      const line = runtimeInstr?.lineno ?? finalStage.startLine;
-
-      results.push({
-        id: 'dockerfile.running-as-root',
-        title: 'No USER instruction — container runs as root',
-        severity: 'warning',
-        category: 'dockerfile',
-        message:
-          `The final stage of the Dockerfile (based on \`${finalStage.baseImage}\`) ` +
-          `does not contain a USER instruction that switches to a non-root user. ` +
-          `By default, Docker containers run as root, which is a security risk. ` +
-          `If an attacker exploits the application, they gain root access inside ` +
-          `the container and potentially to the host via volume mounts or kernel exploits.`,
-        location: context.dockerfile.path,
-        line,
-        fixes: [
-          {
-            description: 'Add a non-root USER instruction',
-            type: 'manual',
-            instructions:
-              'Add a USER instruction to the final stage of your Dockerfile. ' +
-              'Place it after all file operations (COPY, RUN) but before CMD/ENTRYPOINT:\n\n' +
-              '  # Create a non-root user\n' +
-              '  RUN addgroup --system appgroup && adduser --system --ingroup appgroup appuser\n' +
-              '  USER appuser\n\n' +
-              '  CMD ["node", "dist/index.js"]\n\n' +
-              'For Node.js images, you can also use the built-in `node` user:\n' +
-              '  USER node\n\n' +
-              'Make sure all files the application needs are readable by this user ' +
-              '(use --chown in COPY instructions).',
+        const line = runtimeInstr?.lineno ?? finalStage.startLine;
+        const autoFix = nonRootUserFix(dockerfile);
+
+        results.push({
+          id: 'dockerfile.running-as-root',
+          title: 'No USER instruction — container runs as root',
+          severity: 'warning',
+          category: 'dockerfile',
+          message:
+            `The final stage of the Dockerfile (based on \`${finalStage.baseImage}\`) ` +
+            `does not contain a USER instruction that switches to a non-root user. ` +
+            `By default, Docker containers run as root, which is a security risk. ` +
+            `If an attacker exploits the application, they gain root access inside ` +
+            `the container and potentially to the host via volume mounts or kernel exploits.`,
+          location: dockerfile.path,
+          line,
+          fixes: [
+            ...(autoFix ? [autoFix] : []),
+            {
+              description: 'Add a non-root USER instruction',
+              type: 'manual',
+              instructions:
+                'Add a USER instruction to the final stage of your Dockerfile. ' +
+                'Place it after all file operations (COPY, RUN) but before CMD/ENTRYPOINT:\n\n' +
+                '  # Create a non-root user\n' +
+                '  RUN addgroup --system appgroup && adduser --system --ingroup appgroup appuser\n' +
+                '  USER appuser\n\n' +
+                '  CMD ["node", "dist/index.js"]\n\n' +
+                'For Node.js images, you can also use the built-in `node` user:\n' +
+                '  USER node\n\n' +
+                'Make sure all files the application needs are readable by this user ' +
+                '(use --chown in COPY instructions).',
+            },
+          ],
+          meta: {
+            finalStageBaseImage: finalStage.baseImage,
+            finalStageName: finalStage.name,
           },
-        ],
-        meta: {
-          finalStageBaseImage: finalStage.baseImage,
-          finalStageName: finalStage.name,
-        },
-      });
+        });
+      }
     }
 
     return results;
@@ -1,5 +1,9 @@
+import { basename, join, resolve } from 'node:path';
 import { registerCheck } from '../registry.js';
-import type { CheckContext, CheckResult } from '../../types/index.js';
+import type { CheckContext, CheckResult, DockerfileInstruction, Fix, ParsedDockerfile } from '../../types/index.js';
+import { getDockerfiles } from '../utils.js';
+import { editFix } from '../../fixes.js';
+import { execInsertionPoint, isShellBuiltin, tokenizeShellCommand } from '../../parsers/shell.js';
 
 registerCheck({
   id: 'dockerfile.shell-form',
@@ -8,62 +12,147 @@ registerCheck({
   requiresDocker: false,
 
   async run(context: CheckContext): Promise<CheckResult[]> {
-    if (!context.dockerfile) return [];
-
     const results: CheckResult[] = [];
 
-    for (const instr of context.dockerfile.allInstructions) {
-      if (instr.name !== 'CMD' && instr.name !== 'ENTRYPOINT') continue;
-
-      const args = instr.args.trim();
-
-      // Exec form starts with "[", shell form does not
-      if (args.startsWith('[')) continue;
-
-      // Skip empty instructions
-      if (args.length === 0) continue;
-
-      results.push({
-        id: 'dockerfile.shell-form',
-        title: `${instr.name} uses shell form`,
-        severity: 'warning',
-        category: 'dockerfile',
-        message:
-          `\`${instr.raw.trim()}\` at line ${instr.lineno} uses shell form. ` +
-          `Shell form wraps the command in \`/bin/sh -c "..."\`, which means the ` +
-          `application process is not PID 1 and will NOT receive signals like ` +
-          `SIGTERM from \`docker stop\`. This causes a 10-second timeout on shutdown ` +
-          `instead of a graceful stop. Exec form runs the process directly as PID 1, ` +
-          `ensuring proper signal handling.`,
-        location: context.dockerfile.path,
-        line: instr.lineno,
-        fixes: [
-          {
-            description: `Convert ${instr.name} to exec form`,
-            type: 'manual',
-            instructions:
-              `Rewrite the ${instr.name} instruction in exec (JSON array) form:\n\n` +
-              `  Shell form (current): ${instr.raw.trim()}\n` +
-              `  Exec form (recommended): ${instr.name} ${suggestExecForm(args)}\n\n` +
-              `Exec form rules:\n` +
-              `  - Use a JSON array: ${instr.name} ["executable", "arg1", "arg2"]\n` +
-              `  - Each argument is a separate string in the array\n` +
-              `  - No shell expansion ($VAR, *, etc.) — if you need it, use:\n` +
-              `    ${instr.name} ["sh", "-c", "your command with $VAR"]`,
+    for (const dockerfile of getDockerfiles(context)) {
+      for (const instr of dockerfile.allInstructions) {
+        if (instr.name !== 'CMD' && instr.name !== 'ENTRYPOINT') continue;
+
+        const args = instr.args.trim();
+
+        // Exec form starts with "[", shell form does not
+        if (args.startsWith('[')) continue;
+
+        // Skip empty instructions
+        if (args.length === 0) continue;
+
+        // A SHELL instruction changes what shell form runs, so leave those to the user
+        const customShell = dockerfile.allInstructions.some((i) => i.name === 'SHELL' && i.lineno < instr.lineno);
+        const autoFix = customShell || instr.heredocs.length > 0 ? undefined : shellFormFix(context, dockerfile, instr);
+
+        results.push({
+          id: 'dockerfile.shell-form',
+          title: `${instr.name} uses shell form`,
+          severity: 'warning',
+          category: 'dockerfile',
+          message:
+            `\`${instr.raw.trim()}\` at line ${instr.lineno} uses shell form. ` +
+            `Shell form wraps the command in \`/bin/sh -c "..."\`, which means the ` +
+            `application process is not PID 1 and will NOT receive signals like ` +
+            `SIGTERM from \`docker stop\`. This causes a 10-second timeout on shutdown ` +
+            `instead of a graceful stop. Exec form runs the process directly as PID 1, ` +
+            `ensuring proper signal handling.`,
+          location: dockerfile.path,
+          line: instr.lineno,
+          fixes: [
+            ...(autoFix ? [autoFix] : []),
+            {
+              description: `Convert ${instr.name} to exec form`,
+              type: 'manual',
+              instructions:
+                `Rewrite the ${instr.name} instruction in exec (JSON array) form:\n\n` +
+                `  Shell form (current): ${instr.raw.trim()}\n` +
+                `  Exec form (recommended): ${instr.name} ${suggestExecForm(args)}\n\n` +
+                `Exec form rules:\n` +
+                `  - Use a JSON array: ${instr.name} ["executable", "arg1", "arg2"]\n` +
+                `  - Each argument is a separate string in the array\n` +
+                `  - No shell expansion ($VAR, *, etc.) — if you need it, use:\n` +
+                `    ${instr.name} ["sh", "-c", "your command with $VAR"]`,
+            },
+          ],
+          meta: {
+            instruction: instr.name,
+            currentForm: 'shell',
+            rawInstruction: instr.raw,
           },
-        ],
-        meta: {
-          instruction: instr.name,
-          currentForm: 'shell',
-          rawInstruction: instr.raw,
-        },
-      });
+        });
+      }
     }
 
     return results;
   },
 });
 
+/**
+ * Add a `# syntax=docker/dockerfile:1` directive unless the file already
+ * names a frontend, so BuildKit-only flags like `COPY --chmod` are understood.
+ */
+function ensureSyntaxDirective(content: string): string {
+  const bom = content.startsWith('\uFEFF') ? '\uFEFF' : '';
+  // Directives only count in the block at the very top of the file
+  for (const line of content.slice(bom.length).split('\n')) {
+    const directive = /^#\s*([a-z]+)\s*=/i.exec(line);
+    if (!directive) break;
+    if (directive[1].toLowerCase() === 'syntax') return content;
+  }
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  return `${bom}# syntax=docker/dockerfile:1${eol}${content.slice(bom.length)}`;
+}
+
+/** Replace an instruction's lines, keeping the file's line endings. */
+function replaceInstruction(content: string, instr: DockerfileInstruction, replacement: string[]): string {
+  const lines = content.split('\n');
+  const eol = lines[instr.endLine - 1]?.endsWith('\r') ? '\r' : '';
+  lines.splice(instr.lineno - 1, instr.endLine - instr.lineno + 1, ...replacement.map((line) => line + eol));
+  return lines.join('\n');
+}
+
+/**
+ * Rewrite to exec form when the command needs no shell; otherwise move it
+ * into an entrypoint script that `exec`s the final command, so that
+ * process still becomes PID 1. An ENTRYPOINT in a stage with a CMD always
+ * gets the script, which ignores the CMD arguments as shell form does.
+ * Commands where neither is safe, such as builtins, get no fix.
+ */
+function shellFormFix(
+  context: CheckContext,
+  dockerfile: ParsedDockerfile,
+  instr: DockerfileInstruction,
+): Fix | undefined {
+  const command = instr.args.trim();
+  const words = tokenizeShellCommand(command);
+  // `CMD exec node server.js` already replaces the shell; exec form doesn't need it
+  if (words?.[0] === 'exec') words.shift();
+  // Shell-form ENTRYPOINT ignores CMD, but exec form would append it as arguments
+  const stage = dockerfile.stages.find((s) => s.instructions.includes(instr));
+  const hasCmd = instr.name === 'ENTRYPOINT' && stage?.instructions.some((i) => i.name === 'CMD');
+
+  if (words && !hasCmd) {
+    const execForm = `${instr.name} [${words.map((word) => JSON.stringify(word)).join(', ')}]`;
+    return editFix(`Rewrite as \`${execForm}\``, async (read) => {
+      const before = read(dockerfile.path);
+      if (before === undefined) throw new Error(`${dockerfile.path} no longer exists`);
+      return [{ path: dockerfile.path, before, after: replaceInstruction(before, instr, [execForm]) }];
+    });
+  }
+
+  const insertAt = execInsertionPoint(command);
+  if (insertAt === undefined) return undefined;
+  const [first, second] = command.slice(insertAt).split(/\s+/);
+  const alreadyExec = first === 'exec' && second !== undefined;
+  if (isShellBuiltin(alreadyExec ? second : first)) return undefined;
+  const script = alreadyExec ? command : command.slice(0, insertAt) + 'exec ' + command.slice(insertAt);
+  const scriptName = instr.name === 'ENTRYPOINT' ? 'docker-entrypoint' : 'docker-cmd';
+
+  return editFix(`Move the command into ${scriptName}.sh, which execs it as PID 1`, async (read) => {
+    const before = read(dockerfile.path);
+    if (before === undefined) throw new Error(`${dockerfile.path} no longer exists`);
+    // COPY reads from the build context: the project, like `docker build .`, unless compose names another
+    const dir = resolve(context.cwd, dockerfile.buildContext ?? '.');
+    let scriptPath = join(dir, `${scriptName}.sh`);
+    for (let n = 2; read(scriptPath) !== undefined; n++) scriptPath = join(dir, `${scriptName}-${n}.sh`);
+    const file = basename(scriptPath);
+    const after = replaceInstruction(before, instr, [
+      `COPY --chmod=755 ${file} /usr/local/bin/${file}`,
+      `${instr.name} ["/usr/local/bin/${file}"]`,
+    ]);
+    return [
+      { path: scriptPath, after: `#!/bin/sh\n${script}\n` },
+      { path: dockerfile.path, before, after: ensureSyntaxDirective(after) },
+    ];
+  });
+}
+
 /**
  * Attempt to suggest an exec form conversion for a shell-form command.
  */
@@ -0,0 +1,82 @@
+import { registerCheck } from '../registry.js';
+import type { CheckContext, CheckResult, DockerfileStage } from '../../types/index.js';
+import { getDockerfiles, stageReferences } from '../utils.js';
+
+function stageLabel(stage: DockerfileStage, index: number): string {
+  return stage.name ? `\`${stage.name}\`` : `${index} (\`FROM ${stage.baseImage}\`)`;
+}
+
+registerCheck({
+  id: 'dockerfile.unused-stage',
+  name: 'Build Stage Never Used',
+  category: 'dockerfile',
+  requiresDocker: false,
+
+  async run(context: CheckContext): Promise<CheckResult[]> {
+    const results: CheckResult[] = [];
+
+    for (const dockerfile of getDockerfiles(context)) {
+      const { stages } = dockerfile;
+      if (stages.length < 2) continue;
+
+      // A build without a target stops at the last stage; unknown targets can't be judged
+      const targets = [
+        ...new Set(
+          (dockerfile.targets ?? [undefined]).map((name) =>
+            name === undefined ? stages.length - 1 : stages.findIndex((s) => s.name?.toLowerCase() === name.toLowerCase()),
+          ),
+        ),
+      ].filter((index) => index !== -1);
+      if (targets.length === 0) continue;
+
+      const dependencies = new Map<number, number[]>();
+      for (const ref of stageReferences(dockerfile)) {
+        if (ref.resolved === undefined) continue;
+        dependencies.set(ref.stage, [...(dependencies.get(ref.stage) ?? []), ref.resolved]);
+      }
+
+      const used = new Set<number>();
+      const pending = [...targets];
+      while (pending.length > 0) {
+        const index = pending.pop()!;
+        if (used.has(index)) continue;
+        used.add(index);
+        pending.push(...(dependencies.get(index) ?? []));
+      }
+
+      const built = targets
+        .map((index) => (index === stages.length - 1 ? 'the final stage' : `the \`${stages[index].name}\` target`))
+        .join(' or ');
+      stages.forEach((stage, index) => {
+        if (used.has(index)) return;
+        results.push({
+          id: 'dockerfile.unused-stage',
+          title: `Stage ${stage.name ?? index} is never used`,
+          severity: 'info',
+          category: 'dockerfile',
+          message:
+            `Stage ${stageLabel(stage, index)} at line ${stage.startLine} contributes nothing to ${built}: ` +
+            `no stage it leads to builds \`FROM\` it, copies from it with \`COPY --from\` or mounts it. ` +
+            `BuildKit skips it, so nothing tests it still builds, and the legacy builder builds it for nothing.`,
+          location: dockerfile.path,
+          line: stage.startLine,
+          fixes: [
+            {
+              description: 'Remove the stage or build it explicitly',
+              type: 'manual',
+              instructions:
+                `If stage ${stageLabel(stage, index)} is left over from an earlier layout, delete it. ` +
+                `If it is meant to be built on its own (a test or dev image), build it with ` +
+                `\`docker build --target ${stage.name ?? '<name>'}\`` +
+                (stage.name ? '' : ' after naming it with `FROM ... AS <name>`') +
+                ', and pass the same `--target` to dockerdoctor to check that build.',
+            },
+          ],
+          meta: { stage: stage.name ?? index, targets: targets.map((t) => stages[t].name ?? t) },
+        });
+      });
+    }
+
+    return results;
+  },
+});
@@ -1,7 +1,8 @@
-import * as fs from 'node:fs';
 import { registerCheck } from '../registry.js';
 import type { CheckContext, CheckResult } from '../../types/index.js';
 import { hasEntry } from '../../parsers/dockerignore.js';
+import { editFix } from '../../fixes.js';
+import { dockerfileSources, generateDockerignore, isNeededBySources, tailoredSections } from '../../dockerignore.js';
 
 const RECOMMENDED_ENTRIES = [
   'node_modules',
@@ -21,8 +22,10 @@ registerCheck({
   async run(context: CheckContext): Promise<CheckResult[]> {
     if (!context.dockerignore) return [];
 
+    // Never recommend excluding something the Dockerfile copies
+    const sources = dockerfileSources(context);
     const missing = RECOMMENDED_ENTRIES.filter(
-      (entry) => !hasEntry(context.dockerignore!, entry),
+      (entry) => !hasEntry(context.dockerignore!, entry) && !isNeededBySources(entry, sources),
     );
 
     if (missing.length === 0) return [];
@@ -42,26 +45,11 @@ registerCheck({
           `and potentially leak sensitive files (like .env) into the image.`,
         location: dockerignorePath,
         fixes: [
-          {
-            description: 'Append missing entries to .dockerignore',
-            type: 'auto',
-            async apply(): Promise<boolean> {
-              try {
-                const existing = fs.readFileSync(dockerignorePath, 'utf-8');
-                const needsNewline = existing.length > 0 && !existing.endsWith('\n');
-                const addition =
-                  (needsNewline ? '\n' : '') +
-                  '\n# Added by dockerdoctor\n' +
-                  missing.join('\n') +
-                  '\n';
-
-                fs.appendFileSync(dockerignorePath, addition, 'utf-8');
-                return true;
-              } catch {
-                return false;
-              }
-            },
-          },
+          editFix('Add the missing entries and those for the project\'s stack', async (read) => {
+            const before = read(dockerignorePath);
+            const sections = [{ label: 'Common', entries: missing }, ...tailoredSections(context)];
+            return [{ path: dockerignorePath, before, after: generateDockerignore(sections, before ?? '') }];
+          }),
           {
             description: 'Add missing entries manually',
             type: 'manual',
@@ -1,47 +1,8 @@
-import * as fs from 'node:fs';
 import * as path from 'node:path';
 import { registerCheck } from '../registry.js';
 import type { CheckContext, CheckResult } from '../../types/index.js';
-
-const DEFAULT_DOCKERIGNORE = `# Version control
-.git
-.gitignore
-
-# Dependencies
-node_modules
-
-# Environment files
-.env
-.env.*
-
-# IDE / Editor
-.vscode
-.idea
-*.swp
-*.swo
-
-# OS files
-.DS_Store
-Thumbs.db
-
-# Build artifacts
-dist
-coverage
-.nyc_output
-
-# Docker
-Dockerfile
-docker-compose*.yml
-
-# Documentation
-README.md
-LICENSE
-CHANGELOG.md
-
-# npm
-.npm
-.npmrc
-`;
+import { editFix } from '../../fixes.js';
+import { generateDockerignore, tailoredSections } from '../../dockerignore.js';
 
 registerCheck({
   id: 'dockerignore.missing',
@@ -68,18 +29,11 @@ registerCheck({
           `A .dockerignore works like .gitignore and excludes files from the build context.`,
         location: context.cwd,
         fixes: [
-          {
-            description: 'Create a .dockerignore file with common entries',
-            type: 'auto',
-            async apply(): Promise<boolean> {
-              try {
-                fs.writeFileSync(dockerignorePath, DEFAULT_DOCKERIGNORE, 'utf-8');
-                return true;
-              } catch {
-                return false;
-              }
-            },
-          },
+          // Entries for the stacks in the build context, minus anything the Dockerfile copies
+          editFix('Create a .dockerignore tailored to the project', async (read) => {
+            const before = read(dockerignorePath);
+            return [{ path: dockerignorePath, before, after: generateDockerignore(tailoredSections(context), before) }];
+          }),
           {
             description: 'Create .dockerignore manually',
             type: 'manual',
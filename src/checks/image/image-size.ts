@@ -1,17 +1,25 @@
 import { registerCheck } from '../registry.js';
 import type { CheckContext, CheckResult } from '../../types/index.js';
 import { listImages } from '../../docker/client.js';
+import { getNumberOption } from '../utils.js';
 
 const WARN_THRESHOLD_BYTES = 1024 * 1024 * 1024; // 1 GB
 const ERROR_THRESHOLD_BYTES = 2 * 1024 * 1024 * 1024; // 2 GB
 
+function formatGB(bytes: number): string {
+  return `${Number((bytes / (1024 * 1024 * 1024)).toFixed(1))} GB`;
+}
+
 registerCheck({
   id: 'image.image-size',
   name: 'Image Size',
   category: 'image',
   requiresDocker: true,
 
-  async run(_context: CheckContext): Promise<CheckResult[]> {
+  async run(context: CheckContext): Promise<CheckResult[]> {
+    const warnBytes = getNumberOption(context, 'image.image-size', 'warnBytes', WARN_THRESHOLD_BYTES);
+    const errorBytes = getNumberOption(context, 'image.image-size', 'errorBytes', ERROR_THRESHOLD_BYTES);
+
     let images;
     try {
       images = await listImages();
@@ -26,14 +34,14 @@ registerCheck({
       const imageName =
         img.repoTags.length > 0 ? img.repoTags[0] : img.id.slice(0, 12);
 
-      if (img.size > ERROR_THRESHOLD_BYTES) {
+      if (img.size > errorBytes) {
         results.push({
           id: 'image.image-size',
-          title: 'Image exceeds 2 GB',
+          title: `Image exceeds ${formatGB(errorBytes)}`,
           severity: 'error',
           category: 'image',
           message:
-            `Image \`${imageName}\` is ${sizeMB} MB. Images larger than 2 GB ` +
+            `Image \`${imageName}\` is ${sizeMB} MB. Images larger than ${formatGB(errorBytes)} ` +
             `significantly increase pull times, disk usage, and deployment latency. ` +
             `Consider using multi-stage builds and slimmer base images.`,
           fixes: [
@@ -48,10 +56,10 @@ registerCheck({
           ],
           meta: { imageName, sizeBytes: img.size, sizeMB },
         });
-      } else if (img.size > WARN_THRESHOLD_BYTES) {
+      } else if (img.size > warnBytes) {
         results.push({
           id: 'image.image-size',
-          title: 'Image exceeds 1 GB',
+          title: `Image exceeds ${formatGB(warnBytes)}`,
           severity: 'warning',
           category: 'image',
           message:
@@ -2,6 +2,7 @@ import { registerCheck } from '../registry.js';
 import type { CheckContext, CheckResult } from '../../types/index.js';
 import { listImages } from '../../docker/client.js';
 import { dockerImageHistory } from '../../docker/exec.js';
+import { getNumberOption } from '../utils.js';
 
 const LARGE_LAYER_BYTES = 200 * 1024 * 1024; // 200 MB
 
@@ -11,7 +12,15 @@ registerCheck({
   category: 'image',
   requiresDocker: true,
 
-  async run(_context: CheckContext): Promise<CheckResult[]> {
+  async run(context: CheckContext): Promise<CheckResult[]> {
+    const largeLayerBytes = getNumberOption(
+      context,
+      'image.layer-analysis',
+      'largeLayerBytes',
+      LARGE_LAYER_BYTES,
+    );
+    const largeLayerMB = Math.round(largeLayerBytes / (1024 * 1024));
+
     let images;
     try {
       images = await listImages();
@@ -72,7 +81,7 @@ registerCheck({
           continue;
         }
 
-        if (sizeBytes > LARGE_LAYER_BYTES) {
+        if (sizeBytes > largeLayerBytes) {
           const sizeMB = Math.round(sizeBytes / (1024 * 1024));
           const createdBy = entry.CreatedBy ?? 'unknown command';
 
@@ -83,7 +92,7 @@ registerCheck({
             category: 'image',
             message:
               `Image \`${imageRef}\` has a layer of ${sizeMB} MB created by: ` +
-              `\`${createdBy.slice(0, 120)}\`. Layers larger than 200 MB increase ` +
+              `\`${createdBy.slice(0, 120)}\`. Layers larger than ${largeLayerMB} MB increase ` +
               `image size and slow down pulls. Combine RUN commands and clean up ` +
               `in the same layer to reduce size.`,
             fixes: [
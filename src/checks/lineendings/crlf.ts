@@ -1,6 +1,7 @@
 import * as fs from 'node:fs';
 import { registerCheck } from '../registry.js';
 import type { CheckContext, CheckResult } from '../../types/index.js';
+import { editFix } from '../../fixes.js';
 
 registerCheck({
   id: 'lineendings.crlf',
@@ -32,6 +33,14 @@ registerCheck({
 
       if (!hasCrlf) continue;
 
+      // Fixes read and write UTF-8, which would mangle bytes in other encodings
+      let utf8 = true;
+      try {
+        new TextDecoder('utf-8', { fatal: true }).decode(buf);
+      } catch {
+        utf8 = false;
+      }
+
       results.push({
         id: 'lineendings.crlf',
         title: `Shell script has CRLF line endings`,
@@ -44,24 +53,15 @@ registerCheck({
           `\`$'\\r': command not found\`. Shell scripts must use Unix-style LF (\\n) endings.`,
         location: scriptPath,
         fixes: [
-          {
-            description: 'Convert CRLF to LF line endings',
-            type: 'auto',
-            async apply(): Promise<boolean> {
-              try {
-                const content = fs.readFileSync(scriptPath);
-                // Replace all CRLF with LF
-                const fixed = Buffer.from(
-                  content.toString('binary').replace(/\r\n/g, '\n'),
-                  'binary',
-                );
-                fs.writeFileSync(scriptPath, fixed);
-                return true;
-              } catch {
-                return false;
-              }
-            },
-          },
+          ...(utf8
+            ? [
+                editFix('Convert CRLF to LF line endings', async (read) => {
+                  const content = read(scriptPath);
+                  if (content === undefined) throw new Error(`Cannot read ${scriptPath}`);
+                  return [{ path: scriptPath, before: content, after: content.replace(/\r\n/g, '\n') }];
+                }),
+              ]
+            : []),
           {
             description: 'Convert line endings manually',
             type: 'manual',
@@ -79,6 +79,7 @@ registerCheck({
         ],
         meta: {
           scriptPath,
+          utf8,
         },
       });
     }
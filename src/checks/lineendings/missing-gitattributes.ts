@@ -1,7 +1,7 @@
-import * as fs from 'node:fs';
 import * as path from 'node:path';
 import { registerCheck } from '../registry.js';
 import type { CheckContext, CheckResult } from '../../types/index.js';
+import { editFix } from '../../fixes.js';
 
 registerCheck({
   id: 'lineendings.missing-gitattributes',
@@ -27,25 +27,16 @@ registerCheck({
           `consistent line endings across all platforms and contributors.`,
         location: context.cwd,
         fixes: [
-          {
-            description: 'Create .gitattributes with LF enforcement for scripts',
-            type: 'auto',
-            async apply(): Promise<boolean> {
-              try {
-                const content =
-                  '# Auto-detect text files and normalize line endings to LF\n' +
-                  '* text=auto eol=lf\n' +
-                  '\n' +
-                  '# Ensure shell scripts always use LF\n' +
-                  '*.sh text eol=lf\n';
+          editFix('Create .gitattributes with LF enforcement for scripts', async (read) => {
+            const content =
+              '# Auto-detect text files and normalize line endings to LF\n' +
+              '* text=auto eol=lf\n' +
+              '\n' +
+              '# Ensure shell scripts always use LF\n' +
+              '*.sh text eol=lf\n';
 
-                fs.writeFileSync(gitattributesPath, content, 'utf-8');
-                return true;
-              } catch {
-                return false;
-              }
-            },
-          },
+            return [{ path: gitattributesPath, before: read(gitattributesPath), after: content }];
+          }),
           {
             description: 'Create .gitattributes manually',
             type: 'manual',
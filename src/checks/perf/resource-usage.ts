@@ -1,6 +1,7 @@
 import { registerCheck } from '../registry.js';
 import type { CheckContext, CheckResult } from '../../types/index.js';
 import { dockerStats } from '../../docker/exec.js';
+import { getNumberOption } from '../utils.js';
 
 const HIGH_USAGE_THRESHOLD = 80;
 
@@ -10,7 +11,13 @@ registerCheck({
   category: 'performance',
   requiresDocker: true,
 
-  async run(_context: CheckContext): Promise<CheckResult[]> {
+  async run(context: CheckContext): Promise<CheckResult[]> {
+    const threshold = getNumberOption(
+      context,
+      'performance.resource-usage',
+      'threshold',
+      HIGH_USAGE_THRESHOLD,
+    );
     const statsResult = await dockerStats();
     if (statsResult.exitCode !== 0 || !statsResult.stdout.trim()) return [];
 
@@ -34,11 +41,11 @@ registerCheck({
       const containerName = stat.Name ?? stat.Container ?? 'unknown';
 
       const issues: string[] = [];
-      if (!isNaN(cpuPerc) && cpuPerc > HIGH_USAGE_THRESHOLD) {
-        issues.push(`CPU usage is ${stat.CPUPerc} (>${HIGH_USAGE_THRESHOLD}%)`);
+      if (!isNaN(cpuPerc) && cpuPerc > threshold) {
+        issues.push(`CPU usage is ${stat.CPUPerc} (>${threshold}%)`);
       }
-      if (!isNaN(memPerc) && memPerc > HIGH_USAGE_THRESHOLD) {
-        issues.push(`Memory usage is ${stat.MemPerc} (>${HIGH_USAGE_THRESHOLD}%) — ${stat.MemUsage}`);
+      if (!isNaN(memPerc) && memPerc > threshold) {
+        issues.push(`Memory usage is ${stat.MemPerc} (>${threshold}%) — ${stat.MemUsage}`);
       }
 
       if (issues.length === 0) continue;
@@ -1,5 +1,6 @@
 import { registerCheck } from '../registry.js';
 import type { CheckContext, CheckResult } from '../../types/index.js';
+import { composePosition } from '../utils.js';
 
 const SECRET_PATTERNS = [
   /password/i,
@@ -23,36 +24,40 @@ registerCheck({
 
     const results: CheckResult[] = [];
 
-    for (const service of context.compose.services) {
+    // Inspect values as written: a secret interpolated from .env is not a
+    // plaintext secret in the compose file
+    for (const service of context.compose.rawServices) {
       if (!service.environment) continue;
 
-      const pairs: Array<{ key: string; value: string }> = [];
+      const pairs: Array<{ key: string; value: string; path: string }> = [];
+      const envPath = `services.${service.name}.environment`;
 
       if (Array.isArray(service.environment)) {
         // string[] format: ["KEY=value", "OTHER=val"]
-        for (const entry of service.environment) {
+        service.environment.forEach((entry, index) => {
           const eqIndex = entry.indexOf('=');
-          if (eqIndex === -1) continue;
+          if (eqIndex === -1) return;
           pairs.push({
             key: entry.slice(0, eqIndex),
             value: entry.slice(eqIndex + 1),
+            path: `${envPath}[${index}]`,
           });
-        }
+        });
       } else {
         // Record<string, string> format: { KEY: "value" }
         for (const [key, value] of Object.entries(service.environment)) {
           if (value !== null && value !== undefined) {
-            pairs.push({ key, value: String(value) });
+            pairs.push({ key, value: String(value), path: `${envPath}.${key}` });
           }
         }
       }
 
-      for (const { key, value } of pairs) {
+      for (const { key, value, path } of pairs) {
         const isSecretKey = SECRET_PATTERNS.some((p) => p.test(key));
         if (!isSecretKey) continue;
 
-        // Skip if value is a variable reference like ${VAR} or $VAR
-        if (!value || /^\$\{?\w+\}?$/.test(value)) continue;
+        // Skip if value is a variable reference like ${VAR}, $VAR or ${VAR:?err}
+        if (!value || /^\$(\w+|\{\w+(:?\?[^}]*)?\})$/.test(value)) continue;
 
         // Skip empty or placeholder values
         if (/^(changeme|xxx|placeholder|your[_-])/i.test(value)) continue;
@@ -67,7 +72,7 @@ registerCheck({
             `environment block. Compose files are often committed to version control, ` +
             `exposing secrets in the repository history. Use an \`env_file\` reference ` +
             `or Docker secrets instead of inline values.`,
-          location: context.compose.path,
+          ...composePosition(context.compose, path),
           fixes: [
             {
               description: 'Use env_file or variable substitution',
@@ -1,5 +1,6 @@
 import { registerCheck } from '../registry.js';
 import type { CheckContext, CheckResult } from '../../types/index.js';
+import { expandArgs, getDockerfiles } from '../utils.js';
 
 const SENSITIVE_FILE_PATTERNS = [
   { pattern: /\.env\b/, label: '.env' },
@@ -25,58 +26,58 @@ registerCheck({
   requiresDocker: false,
 
   async run(context: CheckContext): Promise<CheckResult[]> {
-    if (!context.dockerfile) return [];
-
     const results: CheckResult[] = [];
 
-    for (const instr of context.dockerfile.allInstructions) {
-      if (instr.name !== 'COPY' && instr.name !== 'ADD') continue;
+    for (const dockerfile of getDockerfiles(context)) {
+      for (const instr of dockerfile.allInstructions) {
+        if (instr.name !== 'COPY' && instr.name !== 'ADD') continue;
 
-      const args = instr.args.trim();
+        const args = expandArgs(dockerfile, instr).trim();
 
-      for (const { pattern, label } of SENSITIVE_FILE_PATTERNS) {
-        if (pattern.test(args)) {
-          results.push({
-            id: 'secrets.sensitive-copy',
-            title: `Sensitive file "${label}" copied into image`,
-            severity: 'error',
-            category: 'secrets',
-            message:
-              `${instr.name} instruction at line ${instr.lineno} copies a sensitive file ` +
-              `(\`${label}\`) into the Docker image: \`${instr.raw.trim()}\`. ` +
-              `Even if the file is deleted in a later layer, it remains accessible in ` +
-              `the image layer history. Anyone who pulls the image can extract it. ` +
-              `Use \`.dockerignore\` to exclude sensitive files, or mount them at runtime.`,
-            location: context.dockerfile.path,
-            line: instr.lineno,
-            fixes: [
-              {
-                description: 'Exclude sensitive files and use runtime mounts',
-                type: 'manual',
-                instructions:
-                  `Remove the sensitive file from the COPY instruction and add it to .dockerignore:\n\n` +
-                  `  # Add to .dockerignore:\n` +
-                  `  ${label}\n\n` +
-                  `  # If the file is needed at build time, use BuildKit secrets:\n` +
-                  `  RUN --mount=type=secret,id=myfile,target=/run/secrets/myfile \\\n` +
-                  `      cat /run/secrets/myfile\n\n` +
-                  `  # If the file is needed at runtime, mount it:\n` +
-                  `  docker run -v ./my-secret:/app/my-secret:ro myimage\n\n` +
-                  `  # Or use Docker Compose:\n` +
-                  `  volumes:\n` +
-                  `    - ./my-secret:/app/my-secret:ro`,
+        for (const { pattern, label } of SENSITIVE_FILE_PATTERNS) {
+          if (pattern.test(args)) {
+            results.push({
+              id: 'secrets.sensitive-copy',
+              title: `Sensitive file "${label}" copied into image`,
+              severity: 'error',
+              category: 'secrets',
+              message:
+                `${instr.name} instruction at line ${instr.lineno} copies a sensitive file ` +
+                `(\`${label}\`) into the Docker image: \`${instr.raw.trim()}\`. ` +
+                `Even if the file is deleted in a later layer, it remains accessible in ` +
+                `the image layer history. Anyone who pulls the image can extract it. ` +
+                `Use \`.dockerignore\` to exclude sensitive files, or mount them at runtime.`,
+              location: dockerfile.path,
+              line: instr.lineno,
+              fixes: [
+                {
+                  description: 'Exclude sensitive files and use runtime mounts',
+                  type: 'manual',
+                  instructions:
+                    `Remove the sensitive file from the COPY instruction and add it to .dockerignore:\n\n` +
+                    `  # Add to .dockerignore:\n` +
+                    `  ${label}\n\n` +
+                    `  # If the file is needed at build time, use BuildKit secrets:\n` +
+                    `  RUN --mount=type=secret,id=myfile,target=/run/secrets/myfile \\\n` +
+                    `      cat /run/secrets/myfile\n\n` +
+                    `  # If the file is needed at runtime, mount it:\n` +
+                    `  docker run -v ./my-secret:/app/my-secret:ro myimage\n\n` +
+                    `  # Or use Docker Compose:\n` +
+                    `  volumes:\n` +
+                    `    - ./my-secret:/app/my-secret:ro`,
+                },
+              ],
+              meta: {
+                sensitiveFile: label,
+                instruction: instr.name,
+                lineNumber: instr.lineno,
+                rawInstruction: instr.raw,
               },
-            ],
-            meta: {
-              sensitiveFile: label,
-              instruction: instr.name,
-              lineNumber: instr.lineno,
-              rawInstruction: instr.raw,
-            },
-          });
+            });
 
-          // Only report one match per instruction to avoid duplicates
-          break;
+            // Only report one match per instruction to avoid duplicates
+            break;
+          }
         }
       }
     }
@@ -1,6 +1,7 @@
 import { registerCheck } from '../registry.js';
 import type { CheckContext, CheckResult } from '../../types/index.js';
 import { listContainers, inspectContainer } from '../../docker/client.js';
+import { composePosition } from '../utils.js';
 
 registerCheck({
   id: 'startup.env-var-verification',
@@ -25,6 +26,10 @@ registerCheck({
       const hasEnvConfig =
         service.environment !== undefined || service.env_file !== undefined;
       if (!hasEnvConfig) continue;
+      const position = composePosition(
+        context.compose,
+        `services.${service.name}.${service.environment !== undefined ? 'environment' : 'env_file'}`,
+      );
 
       // Try to find a running container matching this service name
       const matchingContainer = runningContainers.find((c) => {
@@ -52,7 +57,7 @@ registerCheck({
             `Service \`${service.name}\` is defined in the compose file with environment ` +
             'configuration, but no matching running container was found. ' +
             'This may indicate a startup failure caused by missing or invalid environment variables.',
-          location: context.compose.path,
+          ...position,
           fixes: [
             {
               description: 'Verify .env files exist and contain required variables',
@@ -117,7 +122,7 @@ registerCheck({
             `Container \`${name}\` for service \`${service.name}\` has ${emptyVars.length} ` +
             `empty environment variable(s): ${emptyVars.map((v) => '`' + v + '`').join(', ')}. ` +
             'These may be misconfigured or missing from .env files.',
-          location: context.compose.path,
+          ...position,
           fixes: [
             {
               description: 'Verify .env files contain values for all required variables',
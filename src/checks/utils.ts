@@ -1,6 +1,10 @@
+import type { CheckContext, DockerfileInstruction, ParsedCompose, ParsedDockerfile } from '../types/index.js';
+import { resolveCheckConfig } from '../config.js';
+import { expandVariables } from '../parsers/dockerfile.js';
+
 /**
- * Normalize JSON-stringified args from docker-file-parser back to
- * the plain string format that check regexes expect.
+ * Normalize JSON-form args back to the plain string format that check
+ * regexes expect.
  *
  * COPY [".", "."] → ". ."
  * ENV {"KEY":"val"} → "KEY=val"
@@ -31,3 +35,160 @@ export function normalizeArgs(args: string): string {
 
   return trimmed;
 }
+
+/**
+ * Every Dockerfile to check. Contexts built by hand may only set
+ * `dockerfile`.
+ */
+export function getDockerfiles(context: CheckContext): ParsedDockerfile[] {
+  return context.dockerfiles ?? (context.dockerfile ? [context.dockerfile] : []);
+}
+
+/**
+ * Value of a leading `--name=value` flag on an instruction: `''` for a
+ * boolean flag, undefined when the flag is absent.
+ */
+export function getFlag(instr: DockerfileInstruction, name: string): string | undefined {
+  const flag = instr.flags.find((f) => f.name === name);
+  return flag ? (flag.value ?? '') : undefined;
+}
+
+/**
+ * Arguments of an instruction (or other text from it, such as a flag value)
+ * with the ARG / ENV variables in scope expanded, e.g. the path
+ * `COPY ${APP_DIR}/ .` really copies.
+ */
+export function expandArgs(
+  dockerfile: ParsedDockerfile,
+  instr: DockerfileInstruction,
+  text = instr.args,
+): string {
+  return expandVariables(text, instr.vars, dockerfile.escape).value;
+}
+
+/**
+ * Shell text of an instruction: its arguments followed by the bodies of
+ * any heredocs, so `RUN <<EOF` scripts are checked like inline commands.
+ * ARG / ENV variables are expanded as the shell would see them, except in
+ * quoted heredocs.
+ */
+export function instructionScript(instr: DockerfileInstruction): string {
+  const expand = (text: string) => expandVariables(text, instr.vars).value;
+  const bodies = instr.heredocs.map((heredoc) => (heredoc.quoted ? heredoc.body : expand(heredoc.body)));
+  return [expand(instr.args), ...bodies].join('\n');
+}
+
+/**
+ * Read a numeric per-check option from the project config, falling back
+ * to the check's built-in default when unset or not a finite number.
+ */
+export function getNumberOption(
+  context: CheckContext,
+  checkId: string,
+  key: string,
+  fallback: number,
+): number {
+  const value = resolveCheckConfig(context.config, checkId).options?.[key];
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+}
+
+/**
+ * Build-context paths a COPY or ADD reads, with ARG / ENV expanded: every
+ * argument but the destination. Empty for `--from` copies, heredocs and
+ * ADD of URLs or git repositories, which don't read the build context.
+ */
+export function copySources(dockerfile: ParsedDockerfile, instr: DockerfileInstruction): string[] {
+  if (instr.name !== 'COPY' && instr.name !== 'ADD') return [];
+  if (getFlag(instr, 'from') !== undefined || instr.heredocs.length > 0) return [];
+  const args = instr.json
+    ? instr.json.map((arg) => expandArgs(dockerfile, instr, arg))
+    : expandArgs(dockerfile, instr).split(/\s+/).filter(Boolean);
+  return args.slice(0, -1).filter((src) => instr.name !== 'ADD' || !/^(https?:\/\/|git@)/.test(src));
+}
+
+export interface StageReference {
+  instr: DockerfileInstruction;
+  /** Index of the stage the instruction belongs to */
+  stage: number;
+  /** The stage or image as written, ARGs expanded */
+  ref: string;
+  /** Index of the earlier stage `ref` names; undefined when it names an image */
+  resolved?: number;
+}
+
+/**
+ * Where each stage reads from another stage or an image: its FROM image,
+ * `COPY --from` and `RUN --mount=...,from=`. As in Docker, a name only
+ * resolves to a stage declared earlier (ignoring case) and a number to an
+ * earlier stage's index; anything else names an image.
+ */
+export function stageReferences(dockerfile: ParsedDockerfile): StageReference[] {
+  const references: StageReference[] = [];
+  dockerfile.stages.forEach((stage, index) => {
+    const resolve = (ref: string, numeric: boolean): number | undefined => {
+      if (numeric && /^\d+$/.test(ref)) return Number(ref) < index ? Number(ref) : undefined;
+      const earlier = dockerfile.stages.slice(0, index).map((s) => s.name?.toLowerCase());
+      const found = earlier.lastIndexOf(ref.toLowerCase());
+      return found === -1 ? undefined : found;
+    };
+
+    for (const instr of stage.instructions) {
+      const refs: Array<[string, boolean]> = [];
+      if (instr.name === 'FROM') refs.push([stage.effectiveBaseImage ?? stage.baseImage, false]);
+      const from = (instr.name === 'COPY' || instr.name === 'ADD') && getFlag(instr, 'from');
+      if (from) refs.push([expandArgs(dockerfile, instr, from), true]);
+      if (instr.name === 'RUN') {
+        for (const flag of instr.flags.filter((f) => f.name === 'mount' && f.value)) {
+          const mountFrom = /(?:^|,)from=([^,]+)/.exec(flag.value!)?.[1];
+          if (mountFrom) refs.push([expandArgs(dockerfile, instr, mountFrom), true]);
+        }
+      }
+      for (const [ref, numeric] of refs) {
+        const resolved = resolve(ref, numeric);
+        references.push({ instr, stage: index, ref, ...(resolved === undefined ? {} : { resolved }) });
+      }
+    }
+  });
+  return references;
+}
+
+/** Read a string per-check option from the project config, if set. */
+export function getStringOption(context: CheckContext, checkId: string, key: string): string | undefined {
+  const value = resolveCheckConfig(context.config, checkId).options?.[key];
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+/**
+ * File a compose finding belongs to when several compose files are merged.
+ * `path` is a dotted path such as `services.web.ports`; the closest recorded
+ * ancestor wins, falling back to the primary compose file.
+ */
+export function composeLocation(compose: ParsedCompose, path: string): string {
+  const parts = path.replace(/\[\d+\]/g, '').split('.');
+  for (let i = parts.length; i > 0; i--) {
+    const source = compose.sources?.[parts.slice(0, i).join('.')];
+    if (source) return source;
+  }
+  return compose.path;
+}
+
+/**
+ * Location and line of a compose finding. `path` may point into sequences
+ * (`services.web.ports[1]`); when it isn't written in the file — inherited
+ * through `extends`, say — the line of the closest written ancestor is used.
+ * `location` defaults to the file the path came from.
+ */
+export function composePosition(
+  compose: ParsedCompose,
+  path: string,
+  location = composeLocation(compose, path),
+): { location: string; line?: number } {
+  const lines = compose.files?.find((f) => f.path === location)?.lines ?? {};
+  let candidate = path;
+  for (;;) {
+    if (lines[candidate] !== undefined) return { location, line: lines[candidate] };
+    const parent = candidate.replace(/(\.[^.[\]]*|\[\d+\])$/, '');
+    if (parent === candidate) return { location };
+    candidate = parent;
+  }
+}
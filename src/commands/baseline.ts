@@ -0,0 +1,61 @@
+import { writeFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import type { CliOptions } from '../types/index.js';
+import { buildContext } from '../context.js';
+import { ConfigError } from '../config.js';
+import { runChecks } from '../runner.js';
+import { createBaseline } from '../baseline.js';
+import { findProjects } from '../discovery.js';
+import { checkProjects } from './recursive.js';
+
+/**
+ * Snapshot the current findings into a baseline file. The baseline itself
+ * is never applied here — every current finding is recorded. With
+ * `--recursive`, every project below the current directory is recorded,
+ * for use with `check --recursive`.
+ */
+export async function baselineCreateCommand(opts: CliOptions, output: string): Promise<number> {
+  const cwd = process.cwd();
+
+  let report;
+  try {
+    if (opts.recursive) {
+      report = await checkProjects(cwd, findProjects(cwd), opts);
+    } else {
+      const context = await buildContext(cwd, {
+        dockerfilePath: opts.file,
+        composePath: opts.composefile,
+        envFiles: opts.envFile,
+        profiles: opts.profile,
+        buildArgs: opts.buildArgs,
+        target: opts.target,
+        configPath: opts.config,
+      });
+      report = await runChecks(context, {
+        minSeverity: opts.severity,
+        concurrency: opts.concurrency,
+        timeoutMs: opts.checkTimeout ? opts.checkTimeout * 1000 : undefined,
+      });
+    }
+  } catch (err) {
+    if (err instanceof ConfigError) {
+      console.error(`Error: ${err.message}`);
+      return 2;
+    }
+    throw err;
+  }
+
+  const baseline = createBaseline(report, cwd);
+  const outputPath = resolve(cwd, output);
+
+  try {
+    writeFileSync(outputPath, JSON.stringify(baseline, null, 2) + '\n', 'utf-8');
+  } catch (err) {
+    console.error(`Error: Could not write baseline: ${err instanceof Error ? err.message : String(err)}`);
+    return 2;
+  }
+
+  const count = report.results.length;
+  console.log(`Recorded ${count} finding${count !== 1 ? 's' : ''} in ${outputPath}`);
+  return 0;
+}
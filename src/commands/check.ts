@@ -1,24 +1,137 @@
+import { writeFileSync } from 'node:fs';
+import { extname, resolve } from 'node:path';
 import chalk from 'chalk';
 import { spinner } from '@clack/prompts';
-import type { CheckCategory, CheckContext, CliOptions } from '../types/index.js';
+import type {
+  Baseline,
+  ChangeSet,
+  CheckCategory,
+  CheckContext,
+  CliOptions,
+  OutputFormat,
+  Report,
+} from '../types/index.js';
 import { buildContext } from '../context.js';
+import { ConfigError } from '../config.js';
+import { BaselineError, loadBaseline } from '../baseline.js';
+import { GitError, loadChanges } from '../changes.js';
 import { runChecks } from '../runner.js';
 import { getVersion } from '../version.js';
 import { showBanner, showContext, showOutro } from '../ui/banner.js';
 import { printResults, printSummary } from '../ui/reporter.js';
-import { promptFixes, autoApplyFixes } from '../ui/prompts.js';
+import { promptFixes, autoApplyFixes, previewAllFixes } from '../ui/prompts.js';
+import { renderReport } from '../formatters/index.js';
+
+/** Report formats implied by the extension of `--output` */
+const OUTPUT_EXTENSIONS: Record<string, OutputFormat> = {
+  '.json': 'json',
+  '.sarif': 'sarif',
+  '.xml': 'junit',
+  '.html': 'html',
+  '.htm': 'html',
+};
+
+/**
+ * Resolve the output format. An explicit `--format` wins; otherwise
+ * `--output` picks the format from its extension (`report.html`,
+ * `results.sarif`), and `--json`, `--ci` and other `--output` paths imply JSON.
+ */
+export function resolveFormat(opts: CliOptions): OutputFormat {
+  if (opts.format) return opts.format;
+  if (opts.output) return OUTPUT_EXTENSIONS[extname(opts.output).toLowerCase()] ?? 'json';
+  return opts.json || opts.ci ? 'json' : 'text';
+}
+
+/**
+ * Print a rendered report, or write it to `--output`. Returns false when
+ * the file could not be written.
+ */
+export function emitReport(rendered: string, output?: string): boolean {
+  if (!output) {
+    console.log(rendered);
+    return true;
+  }
+  const outputPath = resolve(process.cwd(), output);
+  try {
+    writeFileSync(outputPath, rendered + '\n', 'utf-8');
+  } catch (err) {
+    console.error(`Error: Could not write report: ${err instanceof Error ? err.message : String(err)}`);
+    return false;
+  }
+  console.error(`Report written to ${outputPath}`);
+  return true;
+}
+
+/**
+ * Apply fixes after a text report: all of them with `--fix`, only their
+ * diff with `--fix --dry-run`, otherwise the ones the user confirms.
+ * Returns false when a `--patch` file could not be written.
+ */
+export async function handleFixes(report: Report, opts: CliOptions): Promise<boolean> {
+  if (opts.fix && opts.dryRun) {
+    let files: number;
+    try {
+      files = await previewAllFixes(report.results, opts.patch);
+    } catch (err) {
+      console.error(`Error: Could not write patch: ${err instanceof Error ? err.message : String(err)}`);
+      return false;
+    }
+    await showOutro(files > 0 ? `Dry run: ${files} file${files > 1 ? 's' : ''} would change` : 'Dry run: nothing to change');
+    return true;
+  }
+
+  let applied = 0;
+  if (opts.fix) applied = await autoApplyFixes(report.results);
+  else if (report.summary.fixable > 0) applied = await promptFixes(report.results);
+  await showOutro(applied > 0 ? `Applied ${applied} fix${applied > 1 ? 'es' : ''}` : 'Done');
+  return true;
+}
+
+/**
+ * In machine-readable modes, `--fix --dry-run --patch` still writes the
+ * patch (e.g. as a CI artifact). Returns false when it could not be written.
+ */
+export async function writeFixPatch(report: Report, opts: CliOptions): Promise<boolean> {
+  if (!opts.fix || !opts.dryRun || !opts.patch) return true;
+  try {
+    await previewAllFixes(report.results, opts.patch);
+    return true;
+  } catch (err) {
+    console.error(`Error: Could not write patch: ${err instanceof Error ? err.message : String(err)}`);
+    return false;
+  }
+}
 
 export async function checkCommand(
   opts: CliOptions,
   categories?: CheckCategory[],
   prebuiltContext?: CheckContext,
 ): Promise<number> {
-  const isInteractive = !opts.json && !opts.ci;
+  const format = resolveFormat(opts);
+  const isInteractive = format === 'text' && !opts.ci;
 
-  const context = prebuiltContext ?? await buildContext(process.cwd(), {
-    dockerfilePath: opts.file,
-    composePath: opts.composefile,
-  });
+  let context: CheckContext;
+  let baseline: Baseline | undefined;
+  let changes: ChangeSet | undefined;
+  try {
+    context = prebuiltContext ?? await buildContext(process.cwd(), {
+      dockerfilePath: opts.file,
+      composePath: opts.composefile,
+      envFiles: opts.envFile,
+      profiles: opts.profile,
+      buildArgs: opts.buildArgs,
+      target: opts.target,
+      configPath: opts.config,
+    });
+    baseline = opts.baseline ? loadBaseline(opts.baseline) : undefined;
+    changes = opts.changedSince ? await loadChanges(context.cwd, opts.changedSince) : undefined;
+  } catch (err) {
+    if (err instanceof ConfigError || err instanceof BaselineError || err instanceof GitError) {
+      console.error(`Error: ${err.message}`);
+      return 2;
+    }
+    throw err;
+  }
 
   // When called directly (not from interactive menu), show banner + context
   if (!prebuiltContext) {
@@ -26,7 +139,9 @@ export async function checkCommand(
       showBanner(getVersion());
       showContext({
         dockerfilePath: context.files.dockerfilePath,
+        dockerfilePaths: context.files.dockerfilePaths,
         composePath: context.files.composePath,
+        composePaths: context.files.composePaths,
         dockerignorePath: context.files.dockerignorePath,
         dockerAvailable: context.dockerAvailable,
       });
@@ -55,15 +170,22 @@ export async function checkCommand(
   const report = await runChecks(context, {
     categories,
     minSeverity: opts.severity,
+    baseline,
+    changes,
+    diffLines: opts.diffLines,
+    concurrency: opts.concurrency,
+    timeoutMs: opts.checkTimeout ? opts.checkTimeout * 1000 : undefined,
   });
 
   if (isInteractive && s) {
     s.stop(`Completed ${report.summary.total} check${report.summary.total !== 1 ? 's' : ''}`);
   }
 
-  // JSON/CI output
-  if (opts.json || opts.ci) {
-    console.log(JSON.stringify(report, null, 2));
+  // Machine-readable output (JSON, SARIF, JUnit, HTML)
+  if (!isInteractive) {
+    const rendered = renderReport(format === 'text' ? 'json' : format, report, context.cwd, categories);
+    if (!emitReport(rendered, opts.output)) return 2;
+    if (!(await writeFixPatch(report, opts))) return 2;
     return report.summary.errors > 0 ? 1 : 0;
   }
 
@@ -75,14 +197,7 @@ export async function checkCommand(
       await browseResultsTUI(report, context.cwd, categories);
       // After TUI exits, handle fixes via clack prompts
       if (report.summary.fixable > 0) {
-        const applied = opts.fix
-          ? await autoApplyFixes(report.results)
-          : await promptFixes(report.results);
-        if (applied > 0) {
-          await showOutro(`Applied ${applied} fix${applied > 1 ? 'es' : ''}`);
-        } else {
-          await showOutro('Done');
-        }
+        if (!(await handleFixes(report, opts))) return 2;
       } else {
         await showOutro('Done');
       }
@@ -100,23 +215,7 @@ export async function checkCommand(
   printResults(report.results);
   printSummary(report);
 
-  if (opts.fix) {
-    const applied = await autoApplyFixes(report.results);
-    if (applied > 0) {
-      await showOutro(`Applied ${applied} fix${applied > 1 ? 'es' : ''}`);
-    } else {
-      await showOutro('Done');
-    }
-  } else if (report.summary.fixable > 0) {
-    const applied = await promptFixes(report.results);
-    if (applied > 0) {
-      await showOutro(`Applied ${applied} fix${applied > 1 ? 'es' : ''}`);
-    } else {
-      await showOutro('Done');
-    }
-  } else {
-    await showOutro('Done');
-  }
+  if (!(await handleFixes(report, opts))) return 2;
 
   return report.summary.errors > 0 ? 1 : 0;
 }
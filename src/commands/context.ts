@@ -0,0 +1,51 @@
+import chalk from 'chalk';
+import { resolve } from 'node:path';
+import type { CliOptions } from '../types/index.js';
+import { listBuildContext } from '../build-context.js';
+
+const LARGEST_DIRECTORIES = 10;
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} B`;
+}
+
+/**
+ * `context`: list the files a build of `dir` would send to the daemon after
+ * its .dockerignore, their total size and the largest directories.
+ */
+export async function contextCommand(opts: CliOptions, dir?: string): Promise<number> {
+  const contextDir = resolve(dir ?? process.cwd());
+  let listing;
+  try {
+    listing = await listBuildContext(contextDir);
+  } catch (err) {
+    console.error(`Error: Cannot read build context ${contextDir}: ${err instanceof Error ? err.message : String(err)}`);
+    return 2;
+  }
+
+  const largest = listing.directories.slice(0, LARGEST_DIRECTORIES);
+  if (opts.json) {
+    console.log(JSON.stringify({ context: contextDir, ...listing, directories: largest }, null, 2));
+    return 0;
+  }
+
+  for (const file of listing.files) {
+    console.log(`  ${formatBytes(file.size).padStart(9)}  ${file.path}`);
+  }
+  if (largest.length > 0) {
+    console.log();
+    console.log(chalk.bold('  Largest directories'));
+    for (const directory of largest) {
+      console.log(`  ${formatBytes(directory.size).padStart(9)}  ${directory.path}/`);
+    }
+  }
+  console.log();
+  const count = listing.files.length;
+  console.log(
+    chalk.bold(`  ${count} file${count !== 1 ? 's' : ''}, ${formatBytes(listing.totalBytes)} sent from ${contextDir}`),
+  );
+  return 0;
+}
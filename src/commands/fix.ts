@@ -0,0 +1,26 @@
+import type { CliOptions } from '../types/index.js';
+import { undoFixes, FixBackupError } from '../fixes.js';
+import { checkCommand } from './check.js';
+
+/** `fix`: run all checks and apply every safe fix, like `check --fix`. */
+export async function fixCommand(opts: CliOptions): Promise<number> {
+  return checkCommand({ ...opts, fix: true });
+}
+
+/** `fix --undo`: restore the files the last fix run changed. */
+export function fixUndoCommand(): number {
+  let restored: string[];
+  try {
+    restored = undoFixes(process.cwd());
+  } catch (err) {
+    if (err instanceof FixBackupError) {
+      console.error(`Error: ${err.message}`);
+      return 2;
+    }
+    throw err;
+  }
+
+  for (const path of restored) console.log(`Restored ${path}`);
+  console.log(`Undid the last fix run (${restored.length} file${restored.length !== 1 ? 's' : ''})`);
+  return 0;
+}
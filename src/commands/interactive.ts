@@ -1,23 +1,17 @@
-import { existsSync, readdirSync, statSync } from 'node:fs';
-import { basename, join, relative, resolve } from 'node:path';
+import { existsSync, readdirSync } from 'node:fs';
+import { basename, relative, resolve } from 'node:path';
 import * as p from '@clack/prompts';
 import chalk from 'chalk';
-import type { CheckCategory, CliOptions } from '../types/index.js';
+import type { CheckCategory, CheckContext, CliOptions } from '../types/index.js';
 import { buildContext } from '../context.js';
-import { findAllComposeFiles } from '../discovery.js';
+import { ConfigError } from '../config.js';
+import { findAllComposeFiles, findProjects, isDockerProjectFile } from '../discovery.js';
 import { getVersion } from '../version.js';
 import { showContext } from '../ui/banner.js';
 import { checkCommand } from './check.js';
 
 type ScanMode = 'cwd' | 'subdirs' | 'path' | 'docker-only';
 
-const DOCKER_FILE_NAMES = [
-  'Dockerfile', 'dockerfile', 'Dockerfile.dev', 'Dockerfile.prod',
-  '.dockerignore',
-];
-
-const SKIP_DIRS = new Set(['node_modules', '.git', 'dist', 'build', '.next', '__pycache__', 'vendor']);
-
 interface MenuOption {
   value: CheckCategory | 'all';
   label: string;
@@ -39,45 +33,6 @@ const checkOptions: MenuOption[] = [
   { value: 'cleanup', label: 'Cleanup', hint: 'Find reclaimable disk space (needs Docker)' },
 ];
 
-/**
- * Recursively find directories containing Docker-related files.
- * Skips common non-project directories.
- */
-function findDockerDirs(root: string, maxDepth = 4): string[] {
-  const results: string[] = [];
-
-  function walk(dir: string, depth: number): void {
-    if (depth > maxDepth) return;
-
-    let entries: string[];
-    try {
-      entries = readdirSync(dir);
-    } catch {
-      return;
-    }
-
-    const hasDockerFile = entries.some((e) => DOCKER_FILE_NAMES.includes(e));
-    if (hasDockerFile || findAllComposeFiles(dir).length > 0) {
-      results.push(dir);
-    }
-
-    for (const entry of entries) {
-      if (SKIP_DIRS.has(entry) || entry.startsWith('.')) continue;
-      const fullPath = join(dir, entry);
-      try {
-        if (statSync(fullPath).isDirectory()) {
-          walk(fullPath, depth + 1);
-        }
-      } catch {
-        // skip inaccessible
-      }
-    }
-  }
-
-  walk(root, 0);
-  return results;
-}
-
 export async function interactiveCommand(opts: CliOptions): Promise<number> {
   p.intro(chalk.bgCyan.black(` dockerdoctor v${getVersion()} `));
 
@@ -119,7 +74,7 @@ export async function interactiveCommand(opts: CliOptions): Promise<number> {
   if (scanMode === 'subdirs') {
     const s = p.spinner();
     s.start('Scanning sub directories for Docker files...');
-    const dirs = findDockerDirs(process.cwd());
+    const dirs = findProjects(process.cwd(), 4);
     s.stop(`Found ${dirs.length} director${dirs.length === 1 ? 'y' : 'ies'} with Docker files`);
 
     if (dirs.length === 0) {
@@ -133,7 +88,7 @@ export async function interactiveCommand(opts: CliOptions): Promise<number> {
       message: 'Which project would you like to check?',
       options: dirs.map((dir) => {
         const rel = relative(cwd, dir);
-        const exactFiles = readdirSync(dir).filter((f) => DOCKER_FILE_NAMES.includes(f));
+        const exactFiles = readdirSync(dir).filter(isDockerProjectFile);
         const composeFiles = findAllComposeFiles(dir).map((p) => basename(p));
         const dockerFiles = [...new Set([...exactFiles, ...composeFiles])];
         return {
@@ -177,16 +132,33 @@ export async function interactiveCommand(opts: CliOptions): Promise<number> {
     ? 'Checking Docker daemon...'
     : `Scanning ${scanDir} for Docker files...`);
 
-  const context = await buildContext(scanDir, {
-    dockerfilePath: opts.file,
-    composePath: opts.composefile,
-  });
+  let context: CheckContext;
+  try {
+    context = await buildContext(scanDir, {
+      dockerfilePath: opts.file,
+      composePath: opts.composefile,
+      envFiles: opts.envFile,
+      profiles: opts.profile,
+      buildArgs: opts.buildArgs,
+      target: opts.target,
+      configPath: opts.config,
+    });
+  } catch (err) {
+    if (err instanceof ConfigError) {
+      s2.stop('Scan failed');
+      p.cancel(err.message);
+      return 2;
+    }
+    throw err;
+  }
 
   s2.stop('Scan complete');
 
   showContext({
     dockerfilePath: context.files.dockerfilePath,
+    dockerfilePaths: context.files.dockerfilePaths,
     composePath: context.files.composePath,
+    composePaths: context.files.composePaths,
     dockerignorePath: context.files.dockerignorePath,
     dockerAvailable: context.dockerAvailable,
   });
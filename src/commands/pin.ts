@@ -0,0 +1,69 @@
+import chalk from 'chalk';
+import type { CliOptions, Fix } from '../types/index.js';
+import { buildContext } from '../context.js';
+import { ConfigError } from '../config.js';
+import { getStringOption } from '../checks/utils.js';
+import { findImageUses, parseImageReference, pinFix, resolveDigest } from '../pin.js';
+import { applyAutoFixes } from '../ui/prompts.js';
+
+/**
+ * Pin every Dockerfile `FROM` image and compose `image:` to its current
+ * digest. Already pinned references are left alone unless `update` is set,
+ * which re-resolves their tags and refreshes the digests.
+ */
+export async function pinCommand(
+  opts: CliOptions,
+  pinOpts: { update?: boolean; registry?: string } = {},
+): Promise<number> {
+  let context;
+  try {
+    context = await buildContext(process.cwd(), {
+      dockerfilePath: opts.file,
+      composePath: opts.composefile,
+      envFiles: opts.envFile,
+      profiles: opts.profile,
+      buildArgs: opts.buildArgs,
+      target: opts.target,
+      configPath: opts.config,
+    });
+  } catch (err) {
+    if (err instanceof ConfigError) {
+      console.error(`Error: ${err.message}`);
+      return 2;
+    }
+    throw err;
+  }
+
+  const registryMirror =
+    pinOpts.registry ?? getStringOption(context, 'dockerfile.base-image-latest', 'registryMirror');
+  if (!context.dockerAvailable && !registryMirror) {
+    console.error('Error: Pinning needs a running Docker daemon or a registry mirror (--registry)');
+    return 2;
+  }
+
+  const fixes: Fix[] = [];
+  const unresolved: string[] = [];
+  let current = 0;
+  for (const use of findImageUses(context)) {
+    const pinned = parseImageReference(use.image).digest;
+    if (pinned && !pinOpts.update) continue;
+
+    const digest = await resolveDigest(use.image, {
+      docker: context.dockerAvailable,
+      registryMirror,
+      preferRegistry: pinOpts.update,
+    });
+    if (!digest) unresolved.push(use.image);
+    else if (digest === pinned) current++;
+    else fixes.push(pinFix(use, digest));
+  }
+
+  const applied = await applyAutoFixes(fixes);
+  console.log();
+  console.log(`Pinned ${applied} image reference${applied !== 1 ? 's' : ''}`);
+  if (current > 0) console.log(chalk.dim(`${current} already up to date`));
+  for (const image of unresolved) {
+    console.log(`  ${chalk.yellow('Could not resolve')} ${image}`);
+  }
+  return unresolved.length > 0 || applied < fixes.length ? 1 : 0;
+}
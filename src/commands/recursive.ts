@@ -0,0 +1,131 @@
+import { existsSync, statSync } from 'node:fs';
+import { relative, resolve } from 'node:path';
+import chalk from 'chalk';
+import type { Baseline, ChangeSet, CliOptions, Report } from '../types/index.js';
+import { buildContext } from '../context.js';
+import { ConfigError } from '../config.js';
+import { BaselineError, loadBaseline } from '../baseline.js';
+import { GitError, loadChanges } from '../changes.js';
+import { findProjects } from '../discovery.js';
+import { combineReports, runChecks } from '../runner.js';
+import { getVersion } from '../version.js';
+import { showBanner } from '../ui/banner.js';
+import { printResults, printSummary } from '../ui/reporter.js';
+import { renderReport } from '../formatters/index.js';
+import { emitReport, handleFixes, resolveFormat, writeFixPatch } from './check.js';
+
+/**
+ * Check each project directory with its own context and config, and combine
+ * the reports. Baseline fingerprints are relative to `rootDir`.
+ */
+export async function checkProjects(
+  rootDir: string,
+  projectDirs: string[],
+  opts: CliOptions,
+  baseline?: Baseline,
+  changes?: ChangeSet,
+): Promise<Report> {
+  const projects: Array<{ path: string; dir: string; report: Report }> = [];
+  let dockerAvailable: boolean | undefined;
+  // A relative --config names a file from where the command runs, not in each project
+  const configPath = opts.config ? resolve(process.cwd(), opts.config) : undefined;
+  for (const dir of projectDirs) {
+    const path = relative(rootDir, dir) || '.';
+    // Invalid config is a user error — let ConfigError propagate
+    const context = await buildContext(dir, {
+      envFiles: opts.envFile,
+      profiles: opts.profile,
+      buildArgs: opts.buildArgs,
+      target: opts.target,
+      configPath,
+      // Probe the daemon once, not once per project
+      dockerAvailable,
+    });
+    dockerAvailable = context.dockerAvailable;
+    const report = await runChecks(context, {
+      minSeverity: opts.severity,
+      baseline,
+      baselineRoot: rootDir,
+      changes,
+      diffLines: opts.diffLines,
+      concurrency: opts.concurrency,
+      timeoutMs: opts.checkTimeout ? opts.checkTimeout * 1000 : undefined,
+    });
+    projects.push({ path, dir, report });
+  }
+  return combineReports(projects);
+}
+
+/**
+ * `check --recursive [root]`: check every Docker project below `root`
+ * (directories with a Dockerfile, compose file or .dockerignore, skipping
+ * anything .gitignore excludes) and report them together.
+ */
+export async function recursiveCheckCommand(opts: CliOptions, root = '.'): Promise<number> {
+  const format = resolveFormat(opts);
+  const isInteractive = format === 'text' && !opts.ci;
+  const rootDir = resolve(process.cwd(), root);
+
+  if (!existsSync(rootDir) || !statSync(rootDir).isDirectory()) {
+    console.error(`Error: Directory not found: ${root}`);
+    return 2;
+  }
+  if (opts.file || opts.composefile) {
+    console.error('Error: --file and --composefile cannot be combined with --recursive');
+    return 2;
+  }
+
+  let baseline: Baseline | undefined;
+  let changes: ChangeSet | undefined;
+  try {
+    baseline = opts.baseline ? loadBaseline(opts.baseline) : undefined;
+    changes = opts.changedSince ? await loadChanges(rootDir, opts.changedSince) : undefined;
+  } catch (err) {
+    if (err instanceof BaselineError || err instanceof GitError) {
+      console.error(`Error: ${err.message}`);
+      return 2;
+    }
+    throw err;
+  }
+
+  const projectDirs = findProjects(rootDir);
+  if (projectDirs.length === 0) {
+    console.error(`Warning: No Docker projects found under ${rootDir}.`);
+  }
+
+  if (isInteractive) showBanner(getVersion());
+
+  let report: Report;
+  try {
+    report = await checkProjects(rootDir, projectDirs, opts, baseline, changes);
+  } catch (err) {
+    if (err instanceof ConfigError) {
+      console.error(`Error: ${err.message}`);
+      return 2;
+    }
+    throw err;
+  }
+
+  // Machine-readable output (JSON, SARIF, JUnit, HTML)
+  if (!isInteractive) {
+    const rendered = renderReport(format === 'text' ? 'json' : format, report, rootDir);
+    if (!emitReport(rendered, opts.output)) return 2;
+    if (!(await writeFixPatch(report, opts))) return 2;
+    return report.summary.errors > 0 ? 1 : 0;
+  }
+
+  for (const project of report.projects ?? []) {
+    console.log(chalk.bold(`  ${project.path}`));
+    printResults(project.results);
+    printSummary(project);
+    console.log();
+  }
+
+  const count = projectDirs.length;
+  console.log(chalk.bold(`  ${count} project${count !== 1 ? 's' : ''} checked`));
+  printSummary(report);
+
+  if (!(await handleFixes(report, opts))) return 2;
+
+  return report.summary.errors > 0 ? 1 : 0;
+}
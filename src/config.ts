@@ -0,0 +1,178 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import type { CheckConfig, DockerDoctorConfig, Severity } from './types/index.js';
+
+/** Config filenames checked in each directory, in priority order. */
+export const CONFIG_FILE_NAMES = [
+  '.dockerdoctorrc',
+  '.dockerdoctorrc.json',
+  '.dockerdoctorrc.yml',
+  '.dockerdoctorrc.yaml',
+  'dockerdoctor.config.json',
+  'dockerdoctor.config.yml',
+  'dockerdoctor.config.yaml',
+];
+
+const SEVERITIES: Severity[] = ['error', 'warning', 'info'];
+const TOP_LEVEL_KEYS = new Set(['checks']);
+const CHECK_CONFIG_KEYS = new Set(['enabled', 'severity', 'options']);
+
+export class ConfigError extends Error {
+  constructor(
+    message: string,
+    public readonly path?: string,
+  ) {
+    super(path ? `Invalid config ${path}: ${message}` : `Invalid config: ${message}`);
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * Find the nearest config file, starting in `cwd` and walking up to the
+ * filesystem root. Returns undefined when no config file exists.
+ */
+export function findConfigFile(cwd: string): string | undefined {
+  let dir = resolve(cwd);
+  while (true) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const fullPath = join(dir, name);
+      if (existsSync(fullPath)) return fullPath;
+    }
+    const parent = dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Normalize a single `checks` entry. Accepts the shorthand forms
+ * `off`/`false`, `on`/`true`, a severity name, or a full object.
+ */
+function normalizeCheckEntry(key: string, value: unknown, errors: string[]): CheckConfig | undefined {
+  if (value === 'off' || value === false) return { enabled: false };
+  if (value === 'on' || value === true) return { enabled: true };
+  if (typeof value === 'string') {
+    if (SEVERITIES.includes(value as Severity)) {
+      return { enabled: true, severity: value as Severity };
+    }
+    errors.push(`checks.${key}: expected "off", "on" or a severity (error, warning, info), got "${value}"`);
+    return undefined;
+  }
+  if (!isPlainObject(value)) {
+    errors.push(`checks.${key}: expected a boolean, string or object`);
+    return undefined;
+  }
+
+  const entry: CheckConfig = {};
+  for (const [field, fieldValue] of Object.entries(value)) {
+    if (!CHECK_CONFIG_KEYS.has(field)) {
+      errors.push(`checks.${key}.${field}: unknown key (expected enabled, severity or options)`);
+      continue;
+    }
+    if (field === 'enabled') {
+      if (typeof fieldValue !== 'boolean') {
+        errors.push(`checks.${key}.enabled: expected a boolean`);
+      } else {
+        entry.enabled = fieldValue;
+      }
+    } else if (field === 'severity') {
+      if (!SEVERITIES.includes(fieldValue as Severity)) {
+        errors.push(`checks.${key}.severity: expected one of error, warning, info`);
+      } else {
+        entry.severity = fieldValue as Severity;
+      }
+    } else if (field === 'options') {
+      if (!isPlainObject(fieldValue)) {
+        errors.push(`checks.${key}.options: expected an object`);
+      } else {
+        entry.options = fieldValue;
+      }
+    }
+  }
+  return entry;
+}
+
+/**
+ * Validate raw (already parsed) config data and normalize it.
+ * Throws a ConfigError listing every problem found.
+ */
+export function validateConfig(data: unknown, path?: string): DockerDoctorConfig {
+  if (data === null || data === undefined) return { path, checks: {} };
+  if (!isPlainObject(data)) {
+    throw new ConfigError('expected an object at the top level', path);
+  }
+
+  const errors: string[] = [];
+  for (const key of Object.keys(data)) {
+    if (!TOP_LEVEL_KEYS.has(key)) errors.push(`${key}: unknown key`);
+  }
+
+  const checks: Record<string, CheckConfig> = {};
+  if (data.checks !== undefined) {
+    if (!isPlainObject(data.checks)) {
+      errors.push('checks: expected an object mapping check IDs to settings');
+    } else {
+      for (const [key, value] of Object.entries(data.checks)) {
+        const entry = normalizeCheckEntry(key, value, errors);
+        if (entry) checks[key] = entry;
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ConfigError(errors.join('; '), path);
+  }
+
+  return { path, checks };
+}
+
+/**
+ * Load the project config. Uses `explicitPath` when given, otherwise
+ * discovers the nearest config file from `cwd`. Returns an empty config
+ * when none is found.
+ */
+export function loadConfig(cwd: string, explicitPath?: string): DockerDoctorConfig {
+  const path = explicitPath ? resolve(cwd, explicitPath) : findConfigFile(cwd);
+  if (!path) return { checks: {} };
+
+  let raw: string;
+  try {
+    raw = readFileSync(path, 'utf-8');
+  } catch (err) {
+    throw new ConfigError(err instanceof Error ? err.message : String(err), path);
+  }
+
+  let data: unknown;
+  try {
+    data = parseYaml(raw);
+  } catch (err) {
+    throw new ConfigError(err instanceof Error ? err.message : String(err), path);
+  }
+
+  return validateConfig(data, path);
+}
+
+/**
+ * Resolve the effective settings for a check ID. A `<category>.*` entry
+ * applies to every check in that category; an exact ID entry wins over it.
+ */
+export function resolveCheckConfig(config: DockerDoctorConfig | undefined, checkId: string): CheckConfig {
+  if (!config) return {};
+  const category = checkId.split('.')[0];
+  const wildcard = config.checks[`${category}.*`] ?? {};
+  const exact = config.checks[checkId] ?? {};
+  return {
+    enabled: exact.enabled ?? wildcard.enabled,
+    severity: exact.severity ?? wildcard.severity,
+    options: { ...wildcard.options, ...exact.options },
+  };
+}
+
+export function isCheckEnabled(config: DockerDoctorConfig | undefined, checkId: string): boolean {
+  return resolveCheckConfig(config, checkId).enabled !== false;
+}
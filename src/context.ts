@@ -1,12 +1,13 @@
 import { existsSync, readFileSync, readdirSync } from 'node:fs';
-import { join } from 'node:path';
-import type { CheckContext } from './types/index.js';
+import { dirname, join, resolve } from 'node:path';
+import type { CheckContext, ComposeService, ParsedCompose, ParsedDockerfile } from './types/index.js';
 import { parseDockerfile } from './parsers/dockerfile.js';
-import { parseCompose } from './parsers/compose.js';
+import { parseComposeFiles } from './parsers/compose.js';
+import { loadComposeVariables } from './parsers/env.js';
 import { parseDockerignore } from './parsers/dockerignore.js';
-import { findComposeFile } from './discovery.js';
-
-const DOCKERFILE_NAMES = ['Dockerfile', 'dockerfile', 'Dockerfile.dev', 'Dockerfile.prod'];
+import { findComposeFile, findComposeOverride, findDockerfiles } from './discovery.js';
+import { loadConfig } from './config.js';
+import { composeLocation } from './checks/utils.js';
 
 function findFile(cwd: string, names: string[]): string | undefined {
   for (const name of names) {
@@ -26,6 +27,94 @@ function findShellScripts(cwd: string): string[] {
   }
 }
 
+/**
+ * Explicit compose files are used as given. Otherwise the discovered file
+ * is used together with its `*.override.yml`, which Compose loads by default.
+ */
+function resolveComposePaths(cwd: string, explicit?: string | string[]): string[] {
+  if (explicit !== undefined) {
+    return Array.isArray(explicit) ? explicit : [explicit];
+  }
+  const discovered = findComposeFile(cwd);
+  if (!discovered) return [];
+  const override = findComposeOverride(discovered);
+  return override ? [discovered, override] : [discovered];
+}
+
+interface DockerfileTarget {
+  path: string;
+  /** `build.args` of the compose service that builds it */
+  buildArgs?: Record<string, string>;
+  /** `build.context` of that service, resolved */
+  buildContext?: string;
+  /** `build.target` of each service that builds it; undefined for the last stage */
+  targets?: Array<string | undefined>;
+}
+
+/** Compose `build.args` as a mapping; entries without a value come from the environment. */
+function composeBuildArgs(args: unknown): Record<string, string> {
+  const entries: Array<[string, unknown]> = Array.isArray(args)
+    ? args.map((entry) => {
+        const text = String(entry);
+        const eq = text.indexOf('=');
+        return eq === -1 ? [text, undefined] : [text.slice(0, eq), text.slice(eq + 1)];
+      })
+    : Object.entries(args && typeof args === 'object' ? args : {});
+
+  const result: Record<string, string> = {};
+  for (const [key, value] of entries) {
+    const resolved = value ?? process.env[key];
+    if (resolved !== undefined && resolved !== null) result[key] = String(resolved);
+  }
+  return result;
+}
+
+/**
+ * Dockerfile a compose service builds from: `build.dockerfile` (default
+ * `Dockerfile`) inside `build.context`, relative to the compose file that
+ * declared the build. Remote contexts and `dockerfile_inline` are skipped.
+ */
+function composeDockerfile(compose: ParsedCompose, service: ComposeService): DockerfileTarget | undefined {
+  if (!service.build) return undefined;
+  const build = typeof service.build === 'string' ? { context: service.build } : service.build;
+  const context = build.context ?? '.';
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(context) || context.startsWith('git@')) return undefined;
+  if (build.dockerfile === undefined && 'dockerfile_inline' in build) return undefined;
+
+  const baseDir = dirname(composeLocation(compose, `services.${service.name}.build`));
+  return {
+    path: resolve(baseDir, context, build.dockerfile ?? 'Dockerfile'),
+    buildArgs: composeBuildArgs(build.args),
+    buildContext: resolve(baseDir, context),
+    targets: [build.target],
+  };
+}
+
+/**
+ * An explicit Dockerfile is used alone. Otherwise every Dockerfile in the
+ * directory is checked, followed by those compose services build from.
+ */
+function resolveDockerfiles(cwd: string, explicit?: string, compose?: ParsedCompose): DockerfileTarget[] {
+  if (explicit !== undefined) return [{ path: explicit }];
+
+  const targets = new Map<string, DockerfileTarget>();
+  for (const path of findDockerfiles(cwd)) {
+    targets.set(resolve(path), { path });
+  }
+  for (const service of compose?.services ?? []) {
+    const target = compose && composeDockerfile(compose, service);
+    if (!target || !existsSync(target.path)) continue;
+    const existing = targets.get(target.path);
+    if (!existing) targets.set(target.path, target);
+    else {
+      existing.buildArgs ??= target.buildArgs;
+      existing.buildContext ??= target.buildContext;
+      existing.targets = [...(existing.targets ?? []), ...(target.targets ?? [])];
+    }
+  }
+  return [...targets.values()];
+}
+
 async function probeDocker(): Promise<boolean> {
   try {
     const { execa } = await import('execa');
@@ -38,31 +127,60 @@ async function probeDocker(): Promise<boolean> {
 
 export async function buildContext(
   cwd: string,
-  opts?: { dockerfilePath?: string; composePath?: string },
+  opts?: {
+    dockerfilePath?: string;
+    /** One or more compose files, merged in order like `docker compose -f a -f b` */
+    composePath?: string | string[];
+    configPath?: string;
+    envFiles?: string[];
+    /** Active compose profiles; defaults to COMPOSE_PROFILES */
+    profiles?: string[];
+    /** `--build-arg` values for Dockerfile ARGs */
+    buildArgs?: Record<string, string>;
+    /** `--target` stage, overriding compose `build.target` */
+    target?: string;
+    /** Skip probing the Docker daemon when the caller already knows */
+    dockerAvailable?: boolean;
+  },
 ): Promise<CheckContext> {
-  const dockerfilePath = opts?.dockerfilePath ?? findFile(cwd, DOCKERFILE_NAMES);
-  const composePath = opts?.composePath ?? findComposeFile(cwd);
+  // Invalid config is a user error — let ConfigError propagate
+  const config = loadConfig(cwd, opts?.configPath);
+
+  const composePaths = resolveComposePaths(cwd, opts?.composePath);
+  const composePath = composePaths[0];
   const dockerignorePath = findFile(cwd, ['.dockerignore']);
   const gitattributesPath = findFile(cwd, ['.gitattributes']);
   const shellScripts = findShellScripts(cwd);
 
-  const dockerAvailable = await probeDocker();
+  const dockerAvailable = opts?.dockerAvailable ?? (await probeDocker());
 
-  let dockerfile;
-  if (dockerfilePath) {
+  let compose;
+  if (composePath) {
     try {
-      const raw = readFileSync(dockerfilePath, 'utf-8');
-      dockerfile = parseDockerfile(raw, dockerfilePath);
+      const inputs = composePaths.map((path) => ({ path, raw: readFileSync(path, 'utf-8') }));
+      // .env is looked up next to the first compose file, as Compose does
+      const variables = loadComposeVariables(dirname(composePath), opts?.envFiles);
+      compose = parseComposeFiles(inputs, variables, { profiles: opts?.profiles });
     } catch {
       // Treat unreadable file as not found
     }
   }
 
-  let compose;
-  if (composePath) {
+  const dockerfileTargets = resolveDockerfiles(cwd, opts?.dockerfilePath, compose);
+  const dockerfilePaths = dockerfileTargets.map((target) => target.path);
+  const dockerfilePath = dockerfilePaths[0];
+
+  const dockerfiles: ParsedDockerfile[] = [];
+  for (const target of dockerfileTargets) {
     try {
-      const raw = readFileSync(composePath, 'utf-8');
-      compose = parseCompose(raw, composePath);
+      const raw = readFileSync(target.path, 'utf-8');
+      // --build-arg wins over compose build.args, as with `docker compose build --build-arg`
+      const buildArgs = { ...target.buildArgs, ...opts?.buildArgs };
+      const dockerfile = parseDockerfile(raw, target.path, { buildArgs });
+      if (target.buildContext) dockerfile.buildContext = target.buildContext;
+      const targets = opts?.target ? [opts.target] : target.targets;
+      if (targets) dockerfile.targets = [...new Set(targets)];
+      dockerfiles.push(dockerfile);
     } catch {
       // Treat unreadable file as not found
     }
@@ -80,13 +198,17 @@ export async function buildContext(
 
   return {
     cwd,
-    dockerfile,
+    config,
+    dockerfile: dockerfiles[0],
+    dockerfiles,
     compose,
     dockerignore,
     dockerAvailable,
     files: {
       dockerfilePath,
+      dockerfilePaths,
       composePath,
+      composePaths,
       dockerignorePath,
       gitattributesPath,
       shellScripts,
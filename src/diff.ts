@@ -0,0 +1,157 @@
+import { isAbsolute, relative, sep } from 'node:path';
+import type { FileEdit } from './types/index.js';
+
+type DiffOp = { type: ' ' | '-' | '+'; line: string };
+
+/** Split text into lines that keep their `\n`, so a missing final newline is a difference too. */
+function splitLines(text: string): string[] {
+  return text === '' ? [] : text.split(/(?<=\n)/);
+}
+
+/**
+ * Shortest edit script between two line arrays (Myers' O(ND) algorithm).
+ * The common prefix and suffix are trimmed first, which keeps the
+ * per-step trace small for the typical fix that touches a few lines.
+ */
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const head: DiffOp[] = a.slice(0, prefix).map((line) => ({ type: ' ', line }));
+  const tail: DiffOp[] = a.slice(a.length - suffix).map((line) => ({ type: ' ', line }));
+  const x0 = a.slice(prefix, a.length - suffix);
+  const y0 = b.slice(prefix, b.length - suffix);
+  const n = x0.length;
+  const m = y0.length;
+
+  // trace[d][k + d] is the furthest x reached on diagonal k after d edits
+  const trace: Int32Array[] = [];
+  let previous = new Int32Array(1);
+  let found = n === 0 && m === 0;
+  for (let d = 0; d <= n + m && !found; d++) {
+    const v = new Int32Array(2 * d + 1);
+    for (let k = -d; k <= d; k += 2) {
+      const down = k === -d || (k !== d && previous[k - 1 + d - 1] < previous[k + 1 + d - 1]);
+      let x = d === 0 ? 0 : down ? previous[k + 1 + d - 1] : previous[k - 1 + d - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && x0[x] === y0[y]) {
+        x++;
+        y++;
+      }
+      v[k + d] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+    trace.push(v);
+    previous = v;
+  }
+
+  const body: DiffOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d > 0; d--) {
+    const prev = trace[d - 1];
+    const k = x - y;
+    const down = k === -d || (k !== d && prev[k - 1 + d - 1] < prev[k + 1 + d - 1]);
+    const prevK = down ? k + 1 : k - 1;
+    const prevX = prev[prevK + d - 1];
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      body.push({ type: ' ', line: x0[--x] });
+      y--;
+    }
+    if (down) body.push({ type: '+', line: y0[--y] });
+    else body.push({ type: '-', line: x0[--x] });
+  }
+  while (x > 0 && y > 0) {
+    body.push({ type: ' ', line: x0[--x] });
+    y--;
+  }
+
+  return [...head, ...body.reverse(), ...tail];
+}
+
+function hunkRange(start: number, count: number): string {
+  // An empty range names the line before it, e.g. `-0,0` for a new file
+  if (count === 0) return `${start - 1},0`;
+  return count === 1 ? `${start}` : `${start},${count}`;
+}
+
+function displayPath(path: string, cwd: string): string {
+  const rel = isAbsolute(path) ? relative(cwd, path) : path;
+  return rel.split(sep).join('/');
+}
+
+/**
+ * Render one file edit as a unified diff with `a/` and `b/` prefixes, the
+ * format `git apply` and `patch -p1` accept. Returns an empty string when
+ * the edit changes nothing.
+ */
+export function unifiedDiff(edit: FileEdit, cwd: string, contextLines = 3): string {
+  const ops = diffLines(splitLines(edit.before ?? ''), splitLines(edit.after));
+  if (ops.every((op) => op.type === ' ')) return '';
+
+  const path = displayPath(edit.path, cwd);
+  const out = [edit.before === undefined ? '--- /dev/null' : `--- a/${path}`, `+++ b/${path}`];
+
+  // Line numbers in the old and new file before each op
+  const oldLine: number[] = [];
+  const newLine: number[] = [];
+  let o = 1;
+  let n = 1;
+  for (const op of ops) {
+    oldLine.push(o);
+    newLine.push(n);
+    if (op.type !== '+') o++;
+    if (op.type !== '-') n++;
+  }
+
+  let i = 0;
+  while (i < ops.length) {
+    if (ops[i].type === ' ') {
+      i++;
+      continue;
+    }
+    // Grow the hunk while the next change is within two contexts' reach
+    const start = Math.max(0, i - contextLines);
+    let end = i;
+    while (end < ops.length) {
+      let next = end;
+      while (next < ops.length && ops[next].type !== ' ') next++;
+      let gap = next;
+      while (gap < ops.length && ops[gap].type === ' ') gap++;
+      if (gap === ops.length || gap - next > 2 * contextLines) {
+        end = Math.min(ops.length, next + contextLines);
+        break;
+      }
+      end = gap;
+    }
+
+    const hunk = ops.slice(start, end);
+    const oldCount = hunk.filter((op) => op.type !== '+').length;
+    const newCount = hunk.filter((op) => op.type !== '-').length;
+    out.push(`@@ -${hunkRange(oldLine[start], oldCount)} +${hunkRange(newLine[start], newCount)} @@`);
+    for (const op of hunk) {
+      out.push(op.type + op.line.replace(/\n$/, ''));
+      if (!op.line.endsWith('\n')) out.push('\\ No newline at end of file');
+    }
+    i = end;
+  }
+
+  return out.join('\n') + '\n';
+}
+
+/** Concatenate the diffs of several edits into a single patch. */
+export function createPatch(edits: FileEdit[], cwd: string): string {
+  return edits.map((edit) => unifiedDiff(edit, cwd)).join('');
+}
@@ -1,5 +1,6 @@
-import { existsSync, openSync, readSync, closeSync, readdirSync } from 'node:fs';
-import { join, basename } from 'node:path';
+import { existsSync, openSync, readSync, closeSync, readdirSync, readFileSync, statSync } from 'node:fs';
+import { join, basename, dirname } from 'node:path';
+import { parseGitignore, isGitignored, type GitignoreRule } from './parsers/gitignore.js';
 
 /** Standard compose filenames checked by existence (fast path, no content reading). */
 export const STANDARD_COMPOSE_NAMES = [
@@ -9,6 +10,12 @@ export const STANDARD_COMPOSE_NAMES = [
   'compose.yaml',
 ];
 
+/** Exact Dockerfile names, in order of preference for the primary Dockerfile. */
+export const STANDARD_DOCKERFILE_NAMES = ['Dockerfile', 'dockerfile', 'Containerfile', 'containerfile'];
+
+/** Files that sit next to Dockerfiles and share their names, but aren't Dockerfiles. */
+const DOCKERFILE_EXCLUDE_SUFFIXES = ['.dockerignore', '.md', '.txt', '.bak', '.orig', '.swp', '~'];
+
 /** Known non-compose YAML files to skip during content sniffing. */
 const SNIFF_EXCLUDE = new Set([
   // CI configs
@@ -93,6 +100,22 @@ export function findComposeFile(dir: string): string | undefined {
   return undefined;
 }
 
+/**
+ * Find the override file Compose loads automatically next to a standard
+ * compose file, e.g. `compose.override.yml` for `compose.yml`.
+ */
+export function findComposeOverride(composePath: string): string | undefined {
+  const name = basename(composePath);
+  if (!STANDARD_COMPOSE_NAMES.includes(name)) return undefined;
+
+  const stem = name.replace(/\.ya?ml$/, '');
+  for (const ext of ['yaml', 'yml']) {
+    const overridePath = join(dirname(composePath), `${stem}.override.${ext}`);
+    if (existsSync(overridePath)) return overridePath;
+  }
+  return undefined;
+}
+
 /**
  * Find all compose files in a directory.
  * Returns standard-named files first, then sniffed files.
@@ -130,3 +153,100 @@ export function findAllComposeFiles(dir: string): string[] {
 
   return results;
 }
+
+/**
+ * Whether a filename names a Dockerfile: `Dockerfile`, `Containerfile`,
+ * variants such as `Dockerfile.worker`, and `api.Dockerfile`.
+ */
+export function isDockerfileName(name: string): boolean {
+  const lower = name.toLowerCase();
+  if (DOCKERFILE_EXCLUDE_SUFFIXES.some((suffix) => lower.endsWith(suffix))) return false;
+  return (
+    lower === 'dockerfile' ||
+    lower === 'containerfile' ||
+    lower.startsWith('dockerfile.') ||
+    lower.startsWith('containerfile.') ||
+    lower.endsWith('.dockerfile') ||
+    lower.endsWith('.containerfile')
+  );
+}
+
+/**
+ * Find all Dockerfiles in a directory.
+ * Returns standard names first (`Dockerfile`, then `Containerfile`), then
+ * variants alphabetically.
+ */
+export function findDockerfiles(dir: string): string[] {
+  let entries: string[];
+  try {
+    entries = readdirSync(dir).filter(
+      (f) => isDockerfileName(f) && statSync(join(dir, f), { throwIfNoEntry: false })?.isFile(),
+    );
+  } catch {
+    return [];
+  }
+
+  const rank = (name: string) => {
+    const index = STANDARD_DOCKERFILE_NAMES.indexOf(name);
+    return index === -1 ? STANDARD_DOCKERFILE_NAMES.length : index;
+  };
+  return entries
+    .sort((a, b) => rank(a) - rank(b) || a.localeCompare(b))
+    .map((f) => join(dir, f));
+}
+
+/** Directories never searched for projects. */
+const PROJECT_SKIP_DIRS = new Set(['node_modules', '.git', 'dist', 'build', '.next', '__pycache__', 'vendor']);
+
+/** Whether a directory entry marks a Docker project: a Dockerfile or `.dockerignore`. */
+export function isDockerProjectFile(name: string): boolean {
+  return isDockerfileName(name) || name === '.dockerignore';
+}
+
+/**
+ * Recursively find directories containing Docker-related files (Dockerfiles,
+ * compose files, `.dockerignore`), starting with `root` itself. Hidden and
+ * common non-project directories are skipped, as is anything ignored by a
+ * `.gitignore` at or below `root`.
+ */
+export function findProjects(root: string, maxDepth = Infinity): string[] {
+  const results: string[] = [];
+
+  function walk(dir: string, depth: number, inherited: GitignoreRule[]): void {
+    let entries: string[];
+    try {
+      entries = readdirSync(dir);
+    } catch {
+      return;
+    }
+
+    let rules = inherited;
+    if (entries.includes('.gitignore')) {
+      try {
+        rules = [...inherited, ...parseGitignore(readFileSync(join(dir, '.gitignore'), 'utf-8'), dir)];
+      } catch {
+        // unreadable .gitignore: keep the parent rules
+      }
+    }
+
+    if (entries.some(isDockerProjectFile) || findAllComposeFiles(dir).length > 0) {
+      results.push(dir);
+    }
+    if (depth >= maxDepth) return;
+
+    for (const entry of entries.sort()) {
+      if (PROJECT_SKIP_DIRS.has(entry) || entry.startsWith('.')) continue;
+      const fullPath = join(dir, entry);
+      try {
+        if (statSync(fullPath).isDirectory() && !isGitignored(fullPath, true, rules)) {
+          walk(fullPath, depth + 1, rules);
+        }
+      } catch {
+        // skip inaccessible
+      }
+    }
+  }
+
+  walk(root, 0, []);
+  return results;
+}
@@ -86,6 +86,19 @@ export async function listImages(opts?: { dangling?: boolean }): Promise<ImageSu
   return images.map(toImageSummary);
 }
 
+/**
+ * `repository@sha256:...` references the local image was pulled by, or an
+ * empty list when the image isn't in the local store.
+ */
+export async function getImageRepoDigests(reference: string): Promise<string[]> {
+  try {
+    const info = await getClient().getImage(reference).inspect();
+    return info.RepoDigests ?? [];
+  } catch {
+    return [];
+  }
+}
+
 export interface VolumeSummary {
   name: string;
   driver: string;
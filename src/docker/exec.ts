@@ -1,4 +1,5 @@
 import { execa, type ResultPromise } from 'execa';
+import { listBuildContext } from '../build-context.js';
 
 export interface ExecResult {
   stdout: string;
@@ -50,11 +51,10 @@ export async function dockerLogs(
   return dockerExec(args);
 }
 
+/** Bytes the build context at `contextPath` sends after its .dockerignore, or -1 when it can't be read. */
 export async function dockerBuildContextSize(contextPath: string): Promise<number> {
   try {
-    const result = await execa('du', ['-sb', contextPath], { timeout: 10000 });
-    const sizeStr = result.stdout.split('\t')[0];
-    return parseInt(sizeStr, 10) || 0;
+    return (await listBuildContext(contextPath)).totalBytes;
   } catch {
     return -1;
   }
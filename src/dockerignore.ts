@@ -0,0 +1,130 @@
+import { readdirSync } from 'node:fs';
+import type { CheckContext } from './types/index.js';
+import { cleanPattern, hasEntry, isDockerignored, parseDockerignore, patternToRegExp } from './parsers/dockerignore.js';
+import { copySources, getDockerfiles } from './checks/utils.js';
+
+export type Stack = 'node' | 'python' | 'go' | 'maven' | 'gradle' | 'dotnet' | 'rust' | 'ruby';
+
+export interface DockerignoreSection {
+  /** Comment heading the section, e.g. `Python` */
+  label: string;
+  entries: string[];
+}
+
+/** Files in the build context root that identify each stack */
+const STACK_MARKERS: Record<Stack, RegExp> = {
+  node: /^package\.json$/,
+  python: /^(requirements.*\.txt|pyproject\.toml|setup\.py|setup\.cfg|Pipfile|poetry\.lock)$/,
+  go: /^go\.mod$/,
+  maven: /^(pom\.xml|mvnw)$/,
+  gradle: /^(build\.gradle(\.kts)?|settings\.gradle(\.kts)?|gradlew)$/,
+  dotnet: /\.(csproj|fsproj|vbproj|sln)$/,
+  rust: /^Cargo\.toml$/,
+  ruby: /^(Gemfile|\.ruby-version)$/,
+};
+
+const GENERAL: DockerignoreSection = {
+  label: 'General',
+  entries: ['.git', '.dockerdoctor', '.env', '.env.*', '*.log', '.DS_Store', '.vscode', '.idea', 'docker-compose*.yml', 'compose*.yml'],
+};
+
+const STACK_SECTIONS: Record<Stack, DockerignoreSection> = {
+  node: {
+    label: 'Node.js',
+    entries: ['node_modules', '.npm', '.yarn/cache', '.pnpm-store', 'coverage', '.nyc_output', 'dist', '.next', '.turbo'],
+  },
+  python: {
+    label: 'Python',
+    entries: ['__pycache__', '*.py[cod]', '.venv', 'venv', '*.egg-info', '.pytest_cache', '.mypy_cache', '.tox', '.coverage', 'htmlcov'],
+  },
+  go: { label: 'Go', entries: ['bin', '*.test', '*.out'] },
+  maven: { label: 'Maven', entries: ['target'] },
+  gradle: { label: 'Gradle', entries: ['.gradle', 'build'] },
+  dotnet: { label: '.NET', entries: ['bin', 'obj', '.vs', '*.user', 'TestResults'] },
+  rust: { label: 'Rust', entries: ['target'] },
+  ruby: { label: 'Ruby', entries: ['.bundle', 'vendor/bundle', 'log', 'tmp', 'coverage'] },
+};
+
+/** Stacks whose marker files are in `dir`, in a fixed order. */
+export function detectStacks(dir: string): Stack[] {
+  let names: string[];
+  try {
+    names = readdirSync(dir);
+  } catch {
+    return [];
+  }
+  return (Object.keys(STACK_MARKERS) as Stack[]).filter((stack) => names.some((name) => STACK_MARKERS[stack].test(name)));
+}
+
+/**
+ * Whether excluding `entry` would hide something a COPY reads: the source
+ * itself or one of its parent directories, or — for glob sources like
+ * `dist*` — a path the glob matches.
+ */
+export function isNeededBySources(entry: string, sources: string[]): boolean {
+  const { entries } = parseDockerignore(entry, '.dockerignore');
+  const cleaned = cleanPattern(entry);
+  return sources.some((raw) => {
+    const source = cleanPattern(raw);
+    if (source === '.') return false;
+    return isDockerignored(source, entries) || (/[*?[]/.test(source) && patternToRegExp(source).test(cleaned));
+  });
+}
+
+/** Every build-context path the project's Dockerfiles COPY or ADD. */
+export function dockerfileSources(context: CheckContext): string[] {
+  return getDockerfiles(context).flatMap((dockerfile) =>
+    dockerfile.allInstructions.flatMap((instr) => copySources(dockerfile, instr)),
+  );
+}
+
+/**
+ * Sections of a .dockerignore for the stacks found in the build context,
+ * leaving out entries the Dockerfiles need. Entries shared by several
+ * stacks appear once.
+ */
+export function tailoredSections(context: CheckContext): DockerignoreSection[] {
+  const sources = dockerfileSources(context);
+  const seen = new Set<string>();
+  const sections: DockerignoreSection[] = [];
+  for (const section of [GENERAL, ...detectStacks(context.cwd).map((stack) => STACK_SECTIONS[stack])]) {
+    const entries = section.entries.filter((entry) => !seen.has(entry) && !isNeededBySources(entry, sources));
+    for (const entry of entries) seen.add(entry);
+    if (entries.length > 0) sections.push({ label: section.label, entries });
+  }
+  return sections;
+}
+
+/**
+ * A new .dockerignore with one commented block per section, or `existing`
+ * with the entries it lacks appended. Entries the existing file already
+ * lists — or deliberately re-includes with `!` — are not added again.
+ */
+export function generateDockerignore(sections: DockerignoreSection[], existing?: string): string {
+  if (existing === undefined) {
+    return sections.map((s) => `# ${s.label}\n${s.entries.join('\n')}\n`).join('\n');
+  }
+
+  const parsed = parseDockerignore(existing, '.dockerignore');
+  const added = new Set<string>();
+  const missing = sections
+    .map((s) => ({
+      label: s.label,
+      entries: s.entries.filter((entry) => {
+        const negated = parsed.entries.some((e) => e.negation && e.pattern === entry);
+        if (negated || hasEntry(parsed, entry) || added.has(entry)) return false;
+        added.add(entry);
+        return true;
+      }),
+    }))
+    .filter((s) => s.entries.length > 0);
+  if (missing.length === 0) return existing;
+
+  const separator = existing === '' ? '' : existing.endsWith('\n') ? '\n' : '\n\n';
+  return (
+    existing +
+    separator +
+    '# Added by dockerdoctor\n' +
+    missing.map((s) => `# ${s.label}\n${s.entries.join('\n')}\n`).join('\n')
+  );
+}
@@ -0,0 +1,260 @@
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, rmSync, unlinkSync, writeFileSync } from 'node:fs';
+import { basename, extname, join } from 'node:path';
+import type { FileEdit, Fix } from './types/index.js';
+import { parseDockerfile } from './parsers/dockerfile.js';
+import { parseCompose } from './parsers/compose.js';
+import { isDockerfileName } from './discovery.js';
+
+/** Where the files changed by the last fix run are backed up, relative to the project */
+export const BACKUP_DIR = join('.dockerdoctor', 'backup');
+
+const DOCKERFILE_INSTRUCTIONS = new Set([
+  'FROM', 'RUN', 'CMD', 'LABEL', 'MAINTAINER', 'EXPOSE', 'ENV', 'ADD', 'COPY', 'ENTRYPOINT',
+  'VOLUME', 'USER', 'WORKDIR', 'ARG', 'ONBUILD', 'STOPSIGNAL', 'HEALTHCHECK', 'SHELL',
+]);
+
+export class FixBackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FixBackupError';
+  }
+}
+
+interface BackupManifest {
+  version: 1;
+  createdAt: string;
+  files: Array<{
+    path: string;
+    /** Backup file name inside the backup directory; absent when the fix created the file */
+    backup?: string;
+    /** sha256 of the content the fix wrote, to detect later edits */
+    written: string;
+  }>;
+}
+
+function sha256(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/** A file's content on disk, or undefined when it does not exist. */
+export function readCurrent(path: string): string | undefined {
+  try {
+    return readFileSync(path, 'utf-8');
+  } catch {
+    return undefined;
+  }
+}
+
+export function writeEdits(edits: FileEdit[]): void {
+  for (const edit of edits) {
+    writeFileSync(edit.path, edit.after, 'utf-8');
+  }
+}
+
+/**
+ * Build an auto fix from a function that computes its edits. `apply`
+ * writes exactly the edits a preview shows.
+ */
+export function editFix(description: string, edits: NonNullable<Fix['edits']>): Fix {
+  return {
+    description,
+    type: 'auto',
+    edits,
+    async apply(): Promise<boolean> {
+      try {
+        writeEdits(await edits(readCurrent));
+        return true;
+      } catch {
+        return false;
+      }
+    },
+  };
+}
+
+/**
+ * Compute the combined edits of several fixes without writing anything.
+ * Each fix sees the files as the fixes before it left them, and the result
+ * has one edit per file, from its content on disk to its final content.
+ * Fixes without `edits` can't be previewed; fixes whose `edits` throw are
+ * reported as failed.
+ */
+export async function previewFixes(
+  fixes: Fix[],
+): Promise<{ edits: FileEdit[]; unsupported: Fix[]; failed: Fix[] }> {
+  const original = new Map<string, string | undefined>();
+  const current = new Map<string, string>();
+  const read = (path: string) => (current.has(path) ? current.get(path) : readCurrent(path));
+  const unsupported: Fix[] = [];
+  const failed: Fix[] = [];
+
+  for (const fix of fixes) {
+    if (!fix.edits) {
+      unsupported.push(fix);
+      continue;
+    }
+    try {
+      for (const edit of await fix.edits(read)) {
+        if (!original.has(edit.path)) original.set(edit.path, readCurrent(edit.path));
+        current.set(edit.path, edit.after);
+      }
+    } catch {
+      failed.push(fix);
+    }
+  }
+
+  const edits = [...current]
+    .map(([path, after]) => ({ path, before: original.get(path), after }))
+    .filter((edit) => edit.before !== edit.after);
+  return { edits, unsupported, failed };
+}
+
+/**
+ * Check that a fixed file still parses: Dockerfiles must start with FROM
+ * and have only known instructions and no parse errors, YAML files must stay valid YAML.
+ * Returns the problem, or undefined when the content is fine.
+ */
+export function validateEdit(path: string, content: string): string | undefined {
+  try {
+    if (isDockerfileName(basename(path))) {
+      const parsed = parseDockerfile(content, path);
+      const broken = parsed.allInstructions.find((i) => i.error || !DOCKERFILE_INSTRUCTIONS.has(i.name));
+      if (broken) return `line ${broken.lineno}: ${broken.error ?? `unknown instruction ${broken.name}`}`;
+      // Only ARG may come before the first FROM
+      const first = parsed.allInstructions.find((i) => i.name !== 'ARG');
+      if (first && first.name !== 'FROM') return `line ${first.lineno}: ${first.name} before the first FROM`;
+    } else if (['.yml', '.yaml'].includes(extname(path))) {
+      parseCompose(content, path);
+    }
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+  return undefined;
+}
+
+/**
+ * Apply fixes as one transaction. Every fix's edits are computed in order
+ * (each seeing the previous ones) and the affected Dockerfiles and compose
+ * files are re-parsed; if any fix fails or leaves a file invalid, nothing is
+ * written. Otherwise the original files are backed up under `BACKUP_DIR`
+ * in `cwd` (replacing the previous run's backup) before being written, and
+ * restored if a write fails. Fixes that only have `apply` can't take part
+ * and run afterwards, outside the transaction.
+ */
+export async function applyFixes(
+  fixes: Fix[],
+  cwd: string,
+): Promise<{ applied: Fix[]; failed: Array<{ fix: Fix; error: string }>; rolledBack: boolean }> {
+  const original = new Map<string, string | undefined>();
+  const current = new Map<string, string>();
+  const lastFix = new Map<string, Fix>();
+  const read = (path: string) => (current.has(path) ? current.get(path) : readCurrent(path));
+  const transactional = fixes.filter((f) => f.edits);
+  const applied: Fix[] = [];
+
+  for (const fix of transactional) {
+    try {
+      for (const edit of await fix.edits!(read)) {
+        if (!original.has(edit.path)) original.set(edit.path, readCurrent(edit.path));
+        current.set(edit.path, edit.after);
+        lastFix.set(edit.path, fix);
+      }
+    } catch (err) {
+      return { applied, failed: [{ fix, error: err instanceof Error ? err.message : String(err) }], rolledBack: true };
+    }
+  }
+
+  const edits = [...current]
+    .map(([path, after]) => ({ path, before: original.get(path), after }))
+    .filter((edit) => edit.before !== edit.after);
+
+  for (const edit of edits) {
+    const problem = validateEdit(edit.path, edit.after);
+    if (problem) {
+      return {
+        applied,
+        failed: [{ fix: lastFix.get(edit.path)!, error: `${edit.path} would no longer parse: ${problem}` }],
+        rolledBack: true,
+      };
+    }
+  }
+
+  if (edits.length > 0) {
+    const backupDir = join(cwd, BACKUP_DIR);
+    const manifest: BackupManifest = { version: 1, createdAt: new Date().toISOString(), files: [] };
+    rmSync(backupDir, { recursive: true, force: true });
+    mkdirSync(backupDir, { recursive: true });
+    edits.forEach((edit, index) => {
+      const backup = edit.before === undefined ? undefined : `${index}.bak`;
+      if (backup) writeFileSync(join(backupDir, backup), edit.before!, 'utf-8');
+      manifest.files.push({ path: edit.path, ...(backup ? { backup } : {}), written: sha256(edit.after) });
+    });
+    // The manifest goes first, so an interrupted run can still be undone
+    writeFileSync(join(backupDir, 'manifest.json'), JSON.stringify(manifest, null, 2) + '\n', 'utf-8');
+
+    const written: FileEdit[] = [];
+    try {
+      for (const edit of edits) {
+        writeFileSync(edit.path, edit.after, 'utf-8');
+        written.push(edit);
+      }
+    } catch (err) {
+      for (const edit of written) restore(edit.path, edit.before);
+      rmSync(backupDir, { recursive: true, force: true });
+      const fix = lastFix.get(edits[written.length].path)!;
+      return { applied, failed: [{ fix, error: err instanceof Error ? err.message : String(err) }], rolledBack: true };
+    }
+  }
+  applied.push(...transactional);
+
+  const failed: Array<{ fix: Fix; error: string }> = [];
+  for (const fix of fixes.filter((f) => !f.edits && f.apply)) {
+    try {
+      if (await fix.apply!()) applied.push(fix);
+      else failed.push({ fix, error: 'fix reported failure' });
+    } catch (err) {
+      failed.push({ fix, error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+  return { applied, failed, rolledBack: false };
+}
+
+function restore(path: string, content: string | undefined): void {
+  if (content === undefined) {
+    if (existsSync(path)) unlinkSync(path);
+  } else {
+    writeFileSync(path, content, 'utf-8');
+  }
+}
+
+/**
+ * Restore the files changed by the last fix run in `cwd` and remove the
+ * backup. Refuses, without changing anything, when a file was edited after
+ * the fix wrote it. Returns the restored paths.
+ */
+export function undoFixes(cwd: string): string[] {
+  const backupDir = join(cwd, BACKUP_DIR);
+  let manifest: BackupManifest;
+  try {
+    manifest = JSON.parse(readFileSync(join(backupDir, 'manifest.json'), 'utf-8')) as BackupManifest;
+  } catch {
+    throw new FixBackupError(`No fix backup found in ${backupDir}`);
+  }
+
+  const changed = manifest.files.filter((file) => {
+    const content = readCurrent(file.path);
+    return content === undefined || sha256(content) !== file.written;
+  });
+  if (changed.length > 0) {
+    throw new FixBackupError(
+      `Changed since the fixes were applied: ${changed.map((f) => f.path).join(', ')}. ` +
+        `Restore them by hand from ${backupDir}`,
+    );
+  }
+
+  for (const file of manifest.files) {
+    restore(file.path, file.backup ? readFileSync(join(backupDir, file.backup), 'utf-8') : undefined);
+  }
+  rmSync(backupDir, { recursive: true, force: true });
+  return manifest.files.map((file) => file.path);
+}
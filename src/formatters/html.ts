@@ -0,0 +1,254 @@
+import { readFileSync } from 'node:fs';
+import { isAbsolute, relative, sep } from 'node:path';
+import type { CheckCategory, CheckResult, Report, Severity } from '../types/index.js';
+import { highlightInstructions, type HighlightStyle } from '../ui/highlight.js';
+
+const SEVERITY_ORDER: Record<Severity, number> = { error: 0, warning: 1, info: 2 };
+
+const CATEGORY_LABELS: Record<CheckCategory, string> = {
+  dockerfile: 'Dockerfile',
+  compose: 'Compose',
+  build: 'Build',
+  startup: 'Startup',
+  network: 'Network',
+  performance: 'Performance',
+  image: 'Image',
+  secrets: 'Secrets',
+  lineendings: 'Line endings',
+  cleanup: 'Cleanup',
+  dockerignore: '.dockerignore',
+};
+
+/** Source files larger than this are listed without their content. */
+const MAX_SOURCE_BYTES = 512 * 1024;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const span = (cls: string) => (s: string) => `<span class="${cls}">${escapeHtml(s)}</span>`;
+
+const HTML_STYLE: HighlightStyle = {
+  key: span('hl-key'),
+  punctuation: span('hl-punct'),
+  string: span('hl-string'),
+  literal: span('hl-literal'),
+  comment: span('hl-comment'),
+  plain: escapeHtml,
+};
+
+function displayPath(location: string, cwd: string): string {
+  const rel = isAbsolute(location) ? relative(cwd, location) : location;
+  return (rel || '.').split(sep).join('/');
+}
+
+function anchor(location: string, line: number, cwd: string): string {
+  return `src-${displayPath(location, cwd).replace(/[^\w-]/g, '_')}-L${line}`;
+}
+
+function renderSummary(report: Report): string {
+  const { summary } = report;
+  const cards: Array<[string, number, string]> = [
+    ['Issues', summary.total, 'total'],
+    ['Errors', summary.errors, 'error'],
+    ['Warnings', summary.warnings, 'warning'],
+    ['Info', summary.info, 'info'],
+    ['Fixable', summary.fixable, 'fixable'],
+  ];
+  if (summary.suppressed > 0) cards.push(['Suppressed', summary.suppressed, 'muted']);
+  if (summary.baselined > 0) cards.push(['Baselined', summary.baselined, 'muted']);
+
+  return `<section class="cards">
+${cards.map(([label, value, cls]) => `  <div class="card ${cls}"><div class="value">${value}</div><div class="label">${label}</div></div>`).join('\n')}
+</section>`;
+}
+
+function renderFixes(result: CheckResult): string {
+  if (result.fixes.length === 0) return '';
+  const items = result.fixes.map((fix) => {
+    const badge = fix.type === 'auto' ? '<span class="badge auto">auto-fix</span> ' : '';
+    const instructions = fix.instructions
+      ? `<pre class="instructions">${highlightInstructions(fix.instructions, HTML_STYLE).join('\n')}</pre>`
+      : '';
+    return `<li>${badge}${escapeHtml(fix.description)}${instructions}</li>`;
+  });
+  return `<div class="fixes"><div class="fixes-title">How to fix</div><ul>${items.join('')}</ul></div>`;
+}
+
+function renderResult(result: CheckResult, cwd: string): string {
+  let location = '';
+  if (result.location) {
+    const path = escapeHtml(displayPath(result.location, cwd));
+    location = result.line
+      ? `<a class="location" href="#${anchor(result.location, result.line, cwd)}">${path}:${result.line}</a>`
+      : `<span class="location">${path}</span>`;
+  }
+  return `<article class="result ${result.severity}">
+  <header><span class="badge ${result.severity}">${result.severity}</span> <strong>${escapeHtml(result.title)}</strong> <code class="id">${escapeHtml(result.id)}</code></header>
+  ${location}
+  <p>${escapeHtml(result.message)}</p>
+  ${renderFixes(result)}
+</article>`;
+}
+
+function renderCategories(report: Report, cwd: string): string {
+  if (report.results.length === 0) {
+    return '<p class="all-clear">All clear — no issues found!</p>';
+  }
+
+  const byCategory = new Map<CheckCategory, CheckResult[]>();
+  for (const result of report.results) {
+    const group = byCategory.get(result.category) ?? [];
+    group.push(result);
+    byCategory.set(result.category, group);
+  }
+
+  return [...byCategory]
+    .map(([category, results]) => {
+      const sorted = [...results].sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+      return `<details class="category" open>
+<summary>${escapeHtml(CATEGORY_LABELS[category] ?? category)} <span class="count">${results.length}</span></summary>
+${sorted.map((r) => renderResult(r, cwd)).join('\n')}
+</details>`;
+    })
+    .join('\n');
+}
+
+function readSource(path: string): string | undefined {
+  try {
+    const raw = readFileSync(path, 'utf-8');
+    return raw.length <= MAX_SOURCE_BYTES ? raw : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Source listing for every file that has findings, with each finding shown
+ * beneath the line it points at.
+ */
+function renderSources(report: Report, cwd: string): string {
+  const byFile = new Map<string, CheckResult[]>();
+  for (const result of report.results) {
+    if (!result.location) continue;
+    const group = byFile.get(result.location) ?? [];
+    group.push(result);
+    byFile.set(result.location, group);
+  }
+
+  const sections: string[] = [];
+  for (const [location, results] of byFile) {
+    const raw = readSource(location);
+    if (raw === undefined) continue;
+
+    const byLine = new Map<number, CheckResult[]>();
+    for (const result of results) {
+      if (!result.line) continue;
+      byLine.set(result.line, [...(byLine.get(result.line) ?? []), result]);
+    }
+
+    const lines = raw.replace(/\n$/, '').split('\n');
+    const rows = lines.map((text, i) => {
+      const lineno = i + 1;
+      const findings = byLine.get(lineno);
+      const worst = findings?.reduce((a, b) => (SEVERITY_ORDER[b.severity] < SEVERITY_ORDER[a.severity] ? b : a));
+      const cls = worst ? ` class="flagged ${worst.severity}"` : '';
+      let row = `<tr id="${anchor(location, lineno, cwd)}"${cls}><td class="lineno">${lineno}</td><td class="code">${escapeHtml(text.replace(/\r$/, ''))}</td></tr>`;
+      for (const finding of findings ?? []) {
+        row += `\n<tr class="annotation ${finding.severity}"><td></td><td><span class="badge ${finding.severity}">${finding.severity}</span> ${escapeHtml(finding.title)} <code class="id">${escapeHtml(finding.id)}</code></td></tr>`;
+      }
+      return row;
+    });
+
+    sections.push(`<details class="source" open>
+<summary>${escapeHtml(displayPath(location, cwd))}</summary>
+<table class="listing">
+${rows.join('\n')}
+</table>
+</details>`);
+  }
+
+  return sections.length > 0 ? `<h2>Source</h2>\n${sections.join('\n')}` : '';
+}
+
+const STYLES = `
+  :root { --error: #d73a49; --warning: #b08800; --info: #0366d6; --ok: #28a745; --muted: #6a737d; --border: #e1e4e8; }
+  body { font: 14px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; color: #24292e; max-width: 1100px; margin: 0 auto; padding: 24px; }
+  h1 { margin-bottom: 0; }
+  .meta { color: var(--muted); margin-top: 4px; }
+  .cards { display: flex; flex-wrap: wrap; gap: 12px; margin: 24px 0; }
+  .card { border: 1px solid var(--border); border-radius: 6px; padding: 12px 20px; min-width: 90px; text-align: center; }
+  .card .value { font-size: 28px; font-weight: 600; }
+  .card .label { color: var(--muted); }
+  .card.error .value { color: var(--error); }
+  .card.warning .value { color: var(--warning); }
+  .card.info .value { color: var(--info); }
+  .card.fixable .value { color: var(--ok); }
+  .card.muted .value { color: var(--muted); }
+  details { border: 1px solid var(--border); border-radius: 6px; margin: 12px 0; }
+  summary { cursor: pointer; padding: 8px 12px; font-weight: 600; background: #f6f8fa; }
+  .count { color: var(--muted); font-weight: normal; }
+  .result { border-left: 4px solid var(--border); margin: 12px; padding: 4px 12px; }
+  .result.error { border-color: var(--error); }
+  .result.warning { border-color: var(--warning); }
+  .result.info { border-color: var(--info); }
+  .result p { margin: 6px 0; }
+  .badge { display: inline-block; border-radius: 3px; padding: 0 6px; font-size: 12px; color: #fff; text-transform: uppercase; }
+  .badge.error { background: var(--error); }
+  .badge.warning { background: var(--warning); }
+  .badge.info { background: var(--info); }
+  .badge.auto { background: var(--ok); }
+  .id { color: var(--muted); font-size: 12px; }
+  .location { color: var(--muted); font-family: monospace; }
+  .fixes-title { font-weight: 600; }
+  .fixes ul { margin: 4px 0; padding-left: 20px; }
+  pre, .listing { font: 12px/1.45 SFMono-Regular, Consolas, "Liberation Mono", Menlo, monospace; }
+  pre.instructions { background: #f6f8fa; border-radius: 6px; padding: 8px 12px; overflow-x: auto; }
+  .hl-key { color: #005cc5; }
+  .hl-punct, .hl-comment { color: var(--muted); }
+  .hl-string { color: #22863a; }
+  .hl-literal { color: #b08800; }
+  .listing { border-collapse: collapse; width: 100%; }
+  .listing td { padding: 0 8px; white-space: pre; vertical-align: top; }
+  .listing .lineno { color: var(--muted); text-align: right; user-select: none; width: 1%; }
+  .flagged.error { background: #ffeef0; }
+  .flagged.warning { background: #fff8c5; }
+  .flagged.info { background: #f1f8ff; }
+  .annotation td { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; white-space: normal; padding: 2px 8px 6px; }
+  .all-clear { color: var(--ok); font-weight: 600; }
+`;
+
+/**
+ * Render a report as a single self-contained HTML page: summary cards,
+ * collapsible categories with fix instructions, and annotated source.
+ */
+export function formatHtml(report: Report, cwd: string): string {
+  const meta = [
+    `dockerdoctor ${escapeHtml(report.version)}`,
+    escapeHtml(new Date(report.timestamp).toUTCString()),
+    report.dockerAvailable ? 'Docker available' : 'Docker not available — runtime checks skipped',
+  ].join(' · ');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>dockerdoctor report</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<h1>dockerdoctor report</h1>
+<div class="meta">${meta}</div>
+${renderSummary(report)}
+<h2>Findings</h2>
+${renderCategories(report, cwd)}
+${renderSources(report, cwd)}
+</body>
+</html>
+`;
+}
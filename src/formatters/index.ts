@@ -0,0 +1,33 @@
+import type { CheckCategory, OutputFormat, Report } from '../types/index.js';
+import { getAllChecks, getChecksByCategory } from '../checks/registry.js';
+import { formatSarif } from './sarif.js';
+import { formatJunit } from './junit.js';
+import { formatHtml } from './html.js';
+
+/**
+ * Render a report in one of the machine-readable output formats.
+ * `categories` limits the checks listed by formats that enumerate every
+ * check (JUnit), matching what `runChecks` was asked to run.
+ */
+export function renderReport(
+  format: Exclude<OutputFormat, 'text'>,
+  report: Report,
+  cwd: string,
+  categories?: CheckCategory[],
+): string {
+  switch (format) {
+    case 'sarif':
+      return JSON.stringify(formatSarif(report, getAllChecks(), cwd), null, 2);
+    case 'junit': {
+      const checks = categories?.length
+        ? categories.flatMap((cat) => getChecksByCategory(cat))
+        : getAllChecks();
+      return formatJunit(report, checks, cwd);
+    }
+    case 'html':
+      return formatHtml(report, cwd);
+    case 'json':
+    default:
+      return JSON.stringify(report, null, 2);
+  }
+}
@@ -0,0 +1,113 @@
+import { isAbsolute, relative, sep } from 'node:path';
+import type { Check, CheckCategory, CheckResult, Report, SkippedCheck } from '../types/index.js';
+
+const SKIP_MESSAGES: Record<SkippedCheck['reason'], string> = {
+  'docker-unavailable': 'Docker daemon not available',
+  disabled: 'Disabled in project config',
+  'changed-files-only': 'Runtime check skipped by --changed-since',
+};
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    // Control characters other than tab/newline/CR are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+function attrs(values: Record<string, string | number>): string {
+  return Object.entries(values)
+    .map(([key, value]) => `${key}="${escapeXml(String(value))}"`)
+    .join(' ');
+}
+
+function displayLocation(result: CheckResult, cwd: string): string | undefined {
+  if (!result.location) return undefined;
+  const rel = isAbsolute(result.location) ? relative(cwd, result.location) : result.location;
+  const path = (rel || '.').split(sep).join('/');
+  return result.line ? `${path}:${result.line}` : path;
+}
+
+function describeResult(result: CheckResult, cwd: string): string {
+  const location = displayLocation(result, cwd);
+  const lines = [`[${result.severity}] ${result.title}${location ? ` (${location})` : ''}`, result.message];
+  for (const fix of result.fixes) {
+    lines.push(`Fix: ${fix.description}`);
+    if (fix.instructions) lines.push(fix.instructions);
+  }
+  return lines.join('\n');
+}
+
+interface TestCase {
+  check: Check;
+  failures: CheckResult[];
+  notes: CheckResult[];
+  skipped?: SkippedCheck;
+}
+
+function renderTestCase({ check, failures, notes, skipped }: TestCase, cwd: string): string {
+  const open = `    <testcase ${attrs({ classname: `dockerdoctor.${check.category}`, name: check.id })}`;
+  const body: string[] = [];
+
+  if (skipped) {
+    body.push(`      <skipped ${attrs({ message: SKIP_MESSAGES[skipped.reason] })}/>`);
+  } else if (failures.length > 0) {
+    const message = failures.length === 1 ? failures[0].title : `${failures.length} findings`;
+    const type = failures.some((r) => r.severity === 'error') ? 'error' : 'warning';
+    const text = failures.map((r) => describeResult(r, cwd)).join('\n\n');
+    body.push(`      <failure ${attrs({ message, type })}>${escapeXml(text)}</failure>`);
+  }
+  if (notes.length > 0) {
+    const text = notes.map((r) => describeResult(r, cwd)).join('\n\n');
+    body.push(`      <system-out>${escapeXml(text)}</system-out>`);
+  }
+
+  return body.length > 0 ? `${open}>\n${body.join('\n')}\n    </testcase>` : `${open}/>`;
+}
+
+/**
+ * Convert a report to JUnit XML: one `<testsuite>` per category and one
+ * `<testcase>` per check. Error and warning results become failures, info
+ * results go to `<system-out>`, and checks that did not run are skipped.
+ */
+export function formatJunit(report: Report, checks: Check[], cwd: string): string {
+  const skippedById = new Map((report.skipped ?? []).map((s) => [s.id, s]));
+  const suites = new Map<CheckCategory, TestCase[]>();
+
+  for (const check of checks) {
+    const results = report.results.filter((r) => r.id === check.id);
+    const testCase: TestCase = {
+      check,
+      failures: results.filter((r) => r.severity !== 'info'),
+      notes: results.filter((r) => r.severity === 'info'),
+      skipped: skippedById.get(check.id),
+    };
+    const suite = suites.get(check.category) ?? [];
+    suite.push(testCase);
+    suites.set(check.category, suite);
+  }
+
+  const count = (cases: TestCase[]) => ({
+    tests: cases.length,
+    failures: cases.filter((c) => !c.skipped && c.failures.length > 0).length,
+    errors: 0,
+    skipped: cases.filter((c) => c.skipped).length,
+  });
+
+  const allCases = [...suites.values()].flat();
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites ${attrs({ name: 'dockerdoctor', ...count(allCases) })}>`,
+  ];
+  for (const [category, cases] of suites) {
+    lines.push(`  <testsuite ${attrs({ name: category, timestamp: report.timestamp, ...count(cases) })}>`);
+    for (const testCase of cases) lines.push(renderTestCase(testCase, cwd));
+    lines.push('  </testsuite>');
+  }
+  lines.push('</testsuites>');
+
+  return lines.join('\n');
+}
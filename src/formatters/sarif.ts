@@ -0,0 +1,135 @@
+import { isAbsolute, relative, sep } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { Check, CheckResult, Report, Severity } from '../types/index.js';
+import { fingerprintResults } from '../baseline.js';
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const INFORMATION_URI = 'https://github.com/TheDecipherist/dockerdoctor';
+
+const SARIF_LEVELS: Record<Severity, 'error' | 'warning' | 'note'> = {
+  error: 'error',
+  warning: 'warning',
+  info: 'note',
+};
+
+interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  help?: { text: string };
+  properties: { category: string; requiresDocker: boolean };
+}
+
+interface SarifResult {
+  ruleId: string;
+  ruleIndex?: number;
+  level: 'error' | 'warning' | 'note';
+  message: { text: string };
+  locations?: Array<{
+    physicalLocation: {
+      artifactLocation: { uri: string; uriBaseId: string };
+      region?: { startLine: number };
+    };
+  }>;
+  partialFingerprints: Record<string, string>;
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: Array<{
+    tool: {
+      driver: {
+        name: string;
+        version: string;
+        informationUri: string;
+        rules: SarifRule[];
+      };
+    };
+    originalUriBaseIds: Record<string, { uri: string }>;
+    results: SarifResult[];
+  }>;
+}
+
+function toUri(location: string, cwd: string): string {
+  const rel = isAbsolute(location) ? relative(cwd, location) : location;
+  return (rel || '.').split(sep).join('/');
+}
+
+/** PascalCase rule name from a check ID, e.g. dockerfile.shell-form → DockerfileShellForm. */
+function ruleName(id: string): string {
+  return id
+    .split(/[.-]/)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+}
+
+/**
+ * Help text for a rule, taken from the manual fix instructions of the first
+ * result the check produced. Checks that found nothing get no help text.
+ */
+function ruleHelp(check: Check, results: CheckResult[]): string | undefined {
+  const result = results.find((r) => r.id === check.id);
+  const manual = result?.fixes.find((f) => f.type === 'manual' && f.instructions);
+  return manual?.instructions;
+}
+
+/**
+ * Convert a report to a SARIF 2.1.0 log. Every registered check becomes a
+ * rule; every result becomes a SARIF result pointing at its file and line.
+ */
+export function formatSarif(report: Report, checks: Check[], cwd: string): SarifLog {
+  const rules: SarifRule[] = checks.map((check) => {
+    const help = ruleHelp(check, report.results);
+    return {
+      id: check.id,
+      name: ruleName(check.id),
+      shortDescription: { text: check.name },
+      ...(help ? { help: { text: help } } : {}),
+      properties: { category: check.category, requiresDocker: check.requiresDocker },
+    };
+  });
+  const ruleIndex = new Map(rules.map((rule, i) => [rule.id, i]));
+  const fingerprints = fingerprintResults(report.results, cwd);
+
+  const results: SarifResult[] = report.results.map((result, i) => ({
+    ruleId: result.id,
+    ...(ruleIndex.has(result.id) ? { ruleIndex: ruleIndex.get(result.id) } : {}),
+    level: SARIF_LEVELS[result.severity],
+    message: { text: `${result.title}\n\n${result.message}` },
+    ...(result.location
+      ? {
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: { uri: toUri(result.location, cwd), uriBaseId: '%SRCROOT%' },
+                ...(result.line ? { region: { startLine: result.line } } : {}),
+              },
+            },
+          ],
+        }
+      : {}),
+    partialFingerprints: { 'dockerdoctor/v1': fingerprints[i] },
+  }));
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'dockerdoctor',
+            version: report.version,
+            informationUri: INFORMATION_URI,
+            rules,
+          },
+        },
+        originalUriBaseIds: {
+          '%SRCROOT%': { uri: pathToFileURL(cwd + sep).href },
+        },
+        results,
+      },
+    ],
+  };
+}
@@ -2,21 +2,68 @@ export type {
   Severity,
   CheckCategory,
   Fix,
+  FileEdit,
   CheckResult,
   Check,
   CheckContext,
   Report,
   ReportSummary,
+  ProjectReport,
+  ChangeSet,
   CliOptions,
+  OutputFormat,
+  SkippedCheck,
+  CheckTiming,
+  CheckConfig,
+  DockerDoctorConfig,
   ParsedDockerfile,
+  DockerfileInstruction,
+  DockerfileFlag,
+  DockerfileHeredoc,
   ParsedCompose,
   ParsedDockerignore,
+  SourceComment,
+  ComposeVariable,
+  UnresolvedVariable,
+  ComposeLoadIssue,
+  ComposeFile,
+  Baseline,
+  BaselineEntry,
 } from './types/index.js';
 
 export { registerCheck, getAllChecks, getChecksByCategory } from './checks/registry.js';
 export { buildContext } from './context.js';
-export { findComposeFile, findAllComposeFiles, looksLikeComposeFile } from './discovery.js';
-export { runChecks } from './runner.js';
-export { parseDockerfile } from './parsers/dockerfile.js';
-export { parseCompose } from './parsers/compose.js';
-export { parseDockerignore } from './parsers/dockerignore.js';
+export { loadConfig, findConfigFile, ConfigError } from './config.js';
+export {
+  findComposeFile,
+  findComposeOverride,
+  findAllComposeFiles,
+  looksLikeComposeFile,
+  findDockerfiles,
+  isDockerfileName,
+  isDockerProjectFile,
+  findProjects,
+} from './discovery.js';
+export { runChecks, combineReports } from './runner.js';
+export { createBaseline, loadBaseline, fingerprintResults, BaselineError } from './baseline.js';
+export { loadChanges, parseUnifiedDiff, GitError } from './changes.js';
+export { editFix, previewFixes, applyFixes, undoFixes, validateEdit, FixBackupError } from './fixes.js';
+export { unifiedDiff, createPatch } from './diff.js';
+export { parseImageReference, pinnedReference, resolveDigest, fetchRegistryDigest, findImageUses, pinFix } from './pin.js';
+export type { ImageReference, ImageUse } from './pin.js';
+export { detectStacks, tailoredSections, generateDockerignore } from './dockerignore.js';
+export type { Stack, DockerignoreSection } from './dockerignore.js';
+export { listBuildContext } from './build-context.js';
+export type { BuildContextListing } from './build-context.js';
+export { formatSarif } from './formatters/sarif.js';
+export { formatJunit } from './formatters/junit.js';
+export { formatHtml } from './formatters/html.js';
+export type { SarifLog } from './formatters/sarif.js';
+export { parseDockerfile, expandVariables } from './parsers/dockerfile.js';
+export type { DockerfileParseOptions } from './parsers/dockerfile.js';
+export { parseCompose, parseComposeFiles } from './parsers/compose.js';
+export { mergeComposeDocuments } from './parsers/compose-merge.js';
+export { parseEnvFile, loadComposeVariables } from './parsers/env.js';
+export { parseDockerignore, isDockerignored, hasEntry, cleanPattern } from './parsers/dockerignore.js';
+export { parseGitignore, isGitignored } from './parsers/gitignore.js';
+export type { GitignoreRule } from './parsers/gitignore.js';
@@ -0,0 +1,256 @@
+import type { Tags } from 'yaml';
+
+/**
+ * Compose-spec merging of several compose files (`-f a.yml -f b.yml`,
+ * `compose.override.yml`). Later files override earlier ones:
+ *
+ * - mappings are merged recursively
+ * - most sequences are appended
+ * - `ports`, `volumes`, `expose`, `dns`, ... are merged by a unique key, so
+ *   an override replaces the entry it redefines
+ * - `environment`, `labels`, `depends_on`, `networks`, `build.args`, ... may
+ *   be written as lists or mappings and are merged as mappings
+ * - `command`, `entrypoint` and `healthcheck.test` are replaced
+ * - `!reset` removes the inherited value, `!override` replaces it wholesale
+ */
+
+const TAG_KEY = '__composeTag';
+
+interface TaggedValue {
+  [TAG_KEY]: '!reset' | '!override';
+  value: unknown;
+}
+
+function taggedTags(tag: TaggedValue[typeof TAG_KEY]): Tags {
+  const wrap = (value: unknown): TaggedValue => ({ [TAG_KEY]: tag, value });
+  return [
+    { tag, identify: () => false, resolve: (value: string) => wrap(value) },
+    { tag, collection: 'map', identify: () => false, resolve: (map) => wrap(map.toJSON()) },
+    { tag, collection: 'seq', identify: () => false, resolve: (seq) => wrap(seq.toJSON()) },
+  ];
+}
+
+/** Custom tags for `yaml.parse` so `!reset` / `!override` survive parsing. */
+export const COMPOSE_TAGS: Tags = [...taggedTags('!reset'), ...taggedTags('!override')];
+
+function isTagged(value: unknown): value is TaggedValue {
+  return Boolean(value && typeof value === 'object' && TAG_KEY in value);
+}
+
+function isMap(value: unknown): value is Record<string, unknown> {
+  return Boolean(value && typeof value === 'object' && !Array.isArray(value) && !isTagged(value));
+}
+
+/** Remove tag wrappers from a value that has nothing to merge with. */
+function untag(value: unknown): unknown {
+  if (isTagged(value)) return value[TAG_KEY] === '!reset' ? undefined : untag(value.value);
+  if (Array.isArray(value)) return value.map(untag);
+  if (isMap(value)) {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      const stripped = untag(item);
+      if (stripped !== undefined) result[key] = stripped;
+    }
+    return result;
+  }
+  return value;
+}
+
+// ── Per-attribute rules (paths relative to a service) ──────────────────────
+
+const REPLACED = new Set(['command', 'entrypoint', 'healthcheck.test']);
+
+const MAPPING_LISTS = new Set([
+  'environment',
+  'labels',
+  'annotations',
+  'sysctls',
+  'extra_hosts',
+  'depends_on',
+  'networks',
+  'build.args',
+  'build.labels',
+  'deploy.labels',
+]);
+
+function volumeTarget(entry: unknown): string {
+  if (typeof entry === 'string') {
+    const parts = entry.split(':');
+    return parts.length > 1 ? parts[1] : parts[0];
+  }
+  return String((entry as { target?: string }).target ?? JSON.stringify(entry));
+}
+
+function referenceTarget(entry: unknown): string {
+  if (typeof entry === 'string') return entry;
+  const ref = entry as { target?: string; source?: string };
+  return String(ref.target ?? ref.source ?? JSON.stringify(entry));
+}
+
+const identity = (entry: unknown) => (typeof entry === 'string' ? entry : JSON.stringify(entry));
+
+const UNIQUE_KEYS: Record<string, (entry: unknown) => string> = {
+  ports: identity,
+  expose: identity,
+  volumes: volumeTarget,
+  secrets: referenceTarget,
+  configs: referenceTarget,
+  devices: identity,
+  dns: identity,
+  dns_search: identity,
+  dns_opt: identity,
+  tmpfs: identity,
+  cap_add: identity,
+  cap_drop: identity,
+  security_opt: identity,
+  env_file: identity,
+  links: identity,
+  external_links: identity,
+};
+
+/** Convert list syntax (`KEY=value`, `host:ip`, service names) to a mapping. */
+function listToMap(attr: string, list: unknown[]): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const entry of list) {
+    const text = String(entry);
+    if (attr === 'depends_on') {
+      result[text] = { condition: 'service_started' };
+    } else if (attr === 'networks') {
+      result[text] = null;
+    } else {
+      const sep = attr === 'extra_hosts' ? text.search(/[=:]/) : text.indexOf('=');
+      if (sep === -1) result[text] = null;
+      else result[text.slice(0, sep)] = text.slice(sep + 1);
+    }
+  }
+  return result;
+}
+
+function mergeUnique(base: unknown[], override: unknown[], key: (entry: unknown) => string): unknown[] {
+  const result = [...base];
+  for (const entry of override) {
+    const index = result.findIndex((existing) => key(existing) === key(entry));
+    if (index === -1) result.push(entry);
+    else result[index] = entry;
+  }
+  return result;
+}
+
+// ── Merging ────────────────────────────────────────────────────────────────
+
+export interface MergeResult {
+  doc: Record<string, unknown>;
+  /**
+   * File that introduced each service/network/volume (`services.web`) and
+   * that last set each attribute below it (`services.web.ports`).
+   */
+  sources: Record<string, string>;
+}
+
+/** Attribute path relative to the service, for paths under `services.<name>`. */
+function serviceAttr(path: string[]): string | undefined {
+  return path[0] === 'services' && path.length > 2 ? path.slice(2).join('.') : undefined;
+}
+
+function mergeValue(
+  base: unknown,
+  override: unknown,
+  path: string[],
+  file: string,
+  sources: Record<string, string>,
+): unknown {
+  const key = path.join('.');
+
+  if (isTagged(override)) {
+    if (override[TAG_KEY] === '!reset') {
+      for (const source of Object.keys(sources)) {
+        if (source === key || source.startsWith(`${key}.`)) delete sources[source];
+      }
+      return undefined;
+    }
+    record(override.value, path, file, sources);
+    return untag(override.value);
+  }
+
+  record(override, path, file, sources);
+  if (base === undefined) return untag(override);
+
+  const attr = serviceAttr(path);
+  if (attr && REPLACED.has(attr)) return untag(override);
+
+  if (attr && MAPPING_LISTS.has(attr) && (Array.isArray(base) || Array.isArray(override))) {
+    const baseMap = Array.isArray(base) ? listToMap(attr, base) : base;
+    const overrideMap = Array.isArray(override) ? listToMap(attr, override) : override;
+    if (isMap(baseMap) && isMap(overrideMap)) return mergeMaps(baseMap, overrideMap, path, file, sources);
+  }
+
+  if (Array.isArray(base) && Array.isArray(override)) {
+    const uniqueKey = attr ? UNIQUE_KEYS[attr] : undefined;
+    const items = override.map(untag);
+    return uniqueKey ? mergeUnique(base, items, uniqueKey) : [...base, ...items];
+  }
+
+  if (isMap(base) && isMap(override)) return mergeMaps(base, override, path, file, sources);
+
+  return untag(override);
+}
+
+function mergeMaps(
+  base: Record<string, unknown>,
+  override: Record<string, unknown>,
+  path: string[],
+  file: string,
+  sources: Record<string, string>,
+): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    const merged = mergeValue(base[key], value, [...path, key], file, sources);
+    if (merged === undefined) delete result[key];
+    else result[key] = merged;
+  }
+  return result;
+}
+
+/**
+ * Record which file set a path. Entries two levels deep (`services.web`)
+ * keep the file that introduced them; their attributes track the last
+ * file that set them.
+ */
+function record(value: unknown, path: string[], file: string, sources: Record<string, string>): void {
+  const key = path.join('.');
+  if (path.length >= 2 && !(path.length === 2 && sources[key])) {
+    sources[key] = file;
+  }
+  if (path.length < 3 && isMap(value)) {
+    for (const [child, item] of Object.entries(value)) {
+      record(item, [...path, child], file, sources);
+    }
+  }
+}
+
+/**
+ * Merge parsed compose documents in order; later documents override
+ * earlier ones following the Compose specification.
+ */
+export function mergeComposeDocuments(
+  docs: Array<{ path: string; doc: Record<string, unknown> }>,
+): MergeResult {
+  const sources: Record<string, string> = {};
+  let merged: Record<string, unknown> = {};
+  for (const { path, doc } of docs) {
+    merged = mergeMaps(merged, doc, [], path, sources);
+  }
+  return { doc: merged, sources };
+}
+
+/**
+ * Merge a service over the service it `extends`, with the same per-attribute
+ * rules as merging files.
+ */
+export function mergeService(
+  name: string,
+  base: Record<string, unknown>,
+  override: Record<string, unknown>,
+): Record<string, unknown> {
+  return mergeMaps(untag(base) as Record<string, unknown>, override, ['services', name], '', {});
+}
@@ -1,25 +1,328 @@
-import { parse as parseYaml } from 'yaml';
-import type { ParsedCompose, ComposeService } from '../types/index.js';
+import { readFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { parse as parseYaml, parseDocument as parseYamlDocument, isMap, isScalar, isSeq, Parser, LineCounter } from 'yaml';
+import type { Node } from 'yaml';
+import type {
+  ParsedCompose,
+  ComposeFile,
+  ComposeLoadIssue,
+  ComposeService,
+  ComposeVariable,
+  SourceComment,
+  UnresolvedVariable,
+} from '../types/index.js';
+import { interpolateDocument, interpolateString } from './interpolate.js';
+import { COMPOSE_TAGS, mergeComposeDocuments, mergeService } from './compose-merge.js';
 
-export function parseCompose(raw: string, path: string): ParsedCompose {
-  const doc = parseYaml(raw) as Record<string, unknown> | null;
+/**
+ * Collect YAML comments from the CST. `yaml.parse` discards them, so we
+ * walk the concrete syntax tree and pick out every comment token.
+ */
+function extractComments(raw: string): SourceComment[] {
+  const lineCounter = new LineCounter();
+  const comments: SourceComment[] = [];
 
-  if (!doc || typeof doc !== 'object') {
-    return { path, services: [], networks: {}, volumes: {}, raw };
+  const visit = (node: unknown): void => {
+    if (Array.isArray(node)) {
+      for (const child of node) visit(child);
+      return;
+    }
+    if (!node || typeof node !== 'object') return;
+
+    const token = node as { type?: string; offset?: number; source?: string };
+    if (token.type === 'comment' && typeof token.offset === 'number' && token.source) {
+      const { line, col } = lineCounter.linePos(token.offset);
+      const lineStart = token.offset - (col - 1);
+      comments.push({
+        text: token.source.replace(/^#/, '').trim(),
+        line,
+        trailing: raw.slice(lineStart, token.offset).trim().length > 0,
+      });
+      return;
+    }
+
+    for (const value of Object.values(node)) visit(value);
+  };
+
+  try {
+    const tokens = [...new Parser(lineCounter.addNewLine).parse(raw)];
+    visit(tokens);
+  } catch {
+    // Comments are best-effort; a CST failure must not break parsing
   }
 
-  const servicesRaw = (doc.services ?? {}) as Record<string, Record<string, unknown>>;
-  const services: ComposeService[] = Object.entries(servicesRaw).map(([name, config]) => ({
+  return comments.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Record the line of every mapping key and sequence item, keyed by dotted
+ * path (`services.web.ports[0]`). Ranges come from the YAML document API,
+ * which `yaml.parse` discards.
+ */
+function collectLines(node: unknown, path: string, lineCounter: LineCounter, lines: Record<string, number>): void {
+  const lineOf = (target: Node | null | undefined) =>
+    target?.range ? lineCounter.linePos(target.range[0]).line : undefined;
+
+  if (isMap(node)) {
+    for (const pair of node.items) {
+      const key = isScalar(pair.key) ? String(pair.key.value) : String(pair.key);
+      const childPath = path ? `${path}.${key}` : key;
+      const line = lineOf(pair.key as Node);
+      if (line !== undefined) lines[childPath] = line;
+      collectLines(pair.value, childPath, lineCounter, lines);
+    }
+  } else if (isSeq(node)) {
+    node.items.forEach((item, index) => {
+      const childPath = `${path}[${index}]`;
+      const line = lineOf(item as Node);
+      if (line !== undefined) lines[childPath] = line;
+      collectLines(item, childPath, lineCounter, lines);
+    });
+  }
+}
+
+function toServices(servicesRaw: Record<string, Record<string, unknown>>): ComposeService[] {
+  return Object.entries(servicesRaw).map(([name, config]) => ({
     name,
     ...config,
   })) as ComposeService[];
+}
+
+type ComposeDocument = Record<string, unknown>;
+
+function isMapping(value: unknown): value is Record<string, unknown> {
+  return Boolean(value && typeof value === 'object' && !Array.isArray(value));
+}
+
+/** Parse one compose file, keeping its comments and the line of every key. */
+function parseFile(path: string, raw: string): { file: ComposeFile; doc: ComposeDocument | undefined } {
+  const lineCounter = new LineCounter();
+  const document = parseYamlDocument(raw, { customTags: COMPOSE_TAGS, lineCounter });
+  if (document.errors.length > 0) throw document.errors[0];
+
+  const lines: Record<string, number> = {};
+  collectLines(document.contents, '', lineCounter, lines);
+  const doc = document.toJS() as unknown;
+
+  return {
+    file: { path, raw, comments: extractComments(raw), lines },
+    doc: isMapping(doc) ? doc : undefined,
+  };
+}
+
+function readDocument(path: string): ComposeDocument | undefined {
+  try {
+    const doc = parseYaml(readFileSync(path, 'utf-8'), { customTags: COMPOSE_TAGS }) as unknown;
+    return isMapping(doc) ? doc : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+interface LoadState {
+  variables: Record<string, ComposeVariable>;
+  files: ComposeFile[];
+  issues: ComposeLoadIssue[];
+}
+
+/**
+ * Resolve `extends` for one service, following chains across files.
+ * `stack` holds the `file#service` keys being resolved, to detect cycles.
+ */
+function resolveExtends(
+  services: Record<string, unknown>,
+  name: string,
+  file: string,
+  stack: string[],
+  state: LoadState,
+): Record<string, unknown> | undefined {
+  const service = services[name];
+  if (!isMapping(service) || service.extends === undefined) {
+    return isMapping(service) ? service : undefined;
+  }
+
+  const { extends: ref, ...own } = service;
+  const target = typeof ref === 'string' ? { service: ref } : (ref as { service?: string; file?: string });
+  const path = `services.${name}.extends`;
+  if (!target?.service) return own;
+
+  const baseFile = target.file ? resolve(dirname(file), target.file) : file;
+  const key = `${baseFile}#${target.service}`;
+  if (stack.includes(key)) {
+    state.issues.push({
+      kind: 'extends-cycle',
+      file,
+      path,
+      message: `Service "${name}" is part of an extends cycle: ${[...stack, key].map((k) => k.slice(k.lastIndexOf('#') + 1)).join(' → ')}`,
+    });
+    return own;
+  }
+
+  const baseServices = baseFile === file ? services : readDocument(baseFile)?.services;
+  if (!isMapping(baseServices) || !isMapping(baseServices[target.service])) {
+    state.issues.push({
+      kind: 'extends-missing',
+      file,
+      path,
+      message: target.file
+        ? `Service "${name}" extends "${target.service}" from ${target.file}, which could not be found`
+        : `Service "${name}" extends "${target.service}", which is not defined`,
+    });
+    return own;
+  }
+
+  const base = resolveExtends(baseServices, target.service, baseFile, [...stack, key], state) ?? {};
+  return mergeService(name, base, own);
+}
+
+/** Paths listed by one `include` entry (short syntax or `path:` string/list). */
+function includePaths(entry: unknown): string[] {
+  if (typeof entry === 'string') return [entry];
+  if (isMapping(entry)) {
+    const { path } = entry;
+    if (typeof path === 'string') return [path];
+    if (Array.isArray(path)) return path.map(String);
+  }
+  return [];
+}
+
+/**
+ * Load a compose file with its `include`s, depth first. Included files
+ * come before the including file so its own definitions take precedence.
+ */
+function loadDocuments(
+  path: string,
+  doc: ComposeDocument,
+  stack: string[],
+  state: LoadState,
+): Array<{ path: string; doc: ComposeDocument }> {
+  const { include, ...rest } = doc;
+  const docs: Array<{ path: string; doc: ComposeDocument }> = [];
+  const lookup = (name: string) => state.variables[name]?.value;
+
+  (Array.isArray(include) ? include : []).forEach((entry, index) => {
+    for (const relative of includePaths(entry)) {
+      const includePath = resolve(dirname(path), interpolateString(relative, lookup));
+      if ([...stack, path].includes(includePath)) {
+        state.issues.push({
+          kind: 'include-cycle',
+          file: path,
+          path: `include[${index}]`,
+          message: `Including ${relative} creates a cycle: ${[...stack, path, includePath].join(' → ')}`,
+        });
+        continue;
+      }
+
+      let raw: string;
+      try {
+        raw = readFileSync(includePath, 'utf-8');
+      } catch {
+        state.issues.push({
+          kind: 'include-missing',
+          file: path,
+          path: `include[${index}]`,
+          message: `Included file ${relative} could not be read`,
+        });
+        continue;
+      }
+
+      const included = parseFile(includePath, raw);
+      state.files.push(included.file);
+      if (included.doc) docs.push(...loadDocuments(includePath, included.doc, [...stack, path], state));
+    }
+  });
+
+  if (isMapping(rest.services)) {
+    const services: Record<string, unknown> = {};
+    for (const name of Object.keys(rest.services)) {
+      services[name] = resolveExtends(rest.services, name, path, [`${path}#${name}`], state);
+    }
+    rest.services = services;
+  }
+
+  docs.push({ path, doc: rest });
+  return docs;
+}
+
+function isServiceActive(service: Record<string, unknown>, profiles: string[]): boolean {
+  const own = service.profiles;
+  if (!Array.isArray(own) || own.length === 0) return true;
+  return profiles.includes('*') || own.some((profile) => profiles.includes(String(profile)));
+}
+
+export interface ComposeParseOptions {
+  /** Active profiles; defaults to `COMPOSE_PROFILES` from `variables` */
+  profiles?: string[];
+}
+
+/**
+ * Parse a compose file. String values are interpolated with `variables`
+ * (see `loadComposeVariables`); the uninterpolated services are kept in
+ * `rawServices`.
+ */
+export function parseCompose(
+  raw: string,
+  path: string,
+  variables: Record<string, ComposeVariable> = {},
+  options: ComposeParseOptions = {},
+): ParsedCompose {
+  return parseComposeFiles([{ path, raw }], variables, options);
+}
+
+/**
+ * Parse several compose files (`-f a.yml -f b.yml`) into the effective
+ * configuration. `include`s and `extends` are resolved, files are merged in
+ * order following the Compose spec before interpolation, and services whose
+ * profiles are all inactive are left out. `sources` records which file each
+ * service and attribute came from.
+ */
+export function parseComposeFiles(
+  inputs: Array<{ path: string; raw: string }>,
+  variables: Record<string, ComposeVariable> = {},
+  options: ComposeParseOptions = {},
+): ParsedCompose {
+  const state: LoadState = { variables, files: [], issues: [] };
+
+  const docs: Array<{ path: string; doc: ComposeDocument }> = [];
+  for (const { path, raw } of inputs) {
+    const { file, doc } = parseFile(path, raw);
+    state.files.push(file);
+    if (doc) docs.push(...loadDocuments(path, doc, [], state));
+  }
+
+  const { doc, sources } = mergeComposeDocuments(docs);
+  const unresolved: UnresolvedVariable[] = [];
+  const resolved = interpolateDocument(doc, variables, unresolved);
+
+  const profiles =
+    options.profiles ??
+    (variables.COMPOSE_PROFILES?.value ?? '')
+      .split(',')
+      .map((p) => p.trim())
+      .filter(Boolean);
+
+  const allServices = (resolved.services ?? {}) as Record<string, Record<string, unknown>>;
+  const active = new Set(Object.keys(allServices).filter((name) => isServiceActive(allServices[name], profiles)));
+  const pick = (services: unknown) =>
+    Object.fromEntries(
+      Object.entries((services ?? {}) as Record<string, Record<string, unknown>>).filter(([name]) => active.has(name)),
+    );
 
   return {
-    path,
-    version: doc.version as string | undefined,
-    services,
-    networks: (doc.networks ?? {}) as Record<string, unknown>,
-    volumes: (doc.volumes ?? {}) as Record<string, unknown>,
-    raw,
+    path: inputs[0].path,
+    files: state.files,
+    version: resolved.version as string | undefined,
+    services: toServices(pick(resolved.services)),
+    rawServices: toServices(pick(doc.services)),
+    networks: (resolved.networks ?? {}) as Record<string, unknown>,
+    volumes: (resolved.volumes ?? {}) as Record<string, unknown>,
+    sources,
+    variables,
+    unresolved,
+    profiles,
+    inactiveServices: Object.keys(allServices).filter((name) => !active.has(name)),
+    issues: state.issues,
+    comments: state.files[0].comments,
+    raw: inputs[0].raw,
   };
 }
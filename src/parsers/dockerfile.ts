@@ -1,34 +1,334 @@
-import dockerFileParser from 'docker-file-parser';
-import type { ParsedDockerfile, DockerfileStage, DockerfileInstruction } from '../types/index.js';
+import type {
+  ParsedDockerfile,
+  DockerfileStage,
+  DockerfileInstruction,
+  DockerfileFlag,
+  DockerfileHeredoc,
+  SourceComment,
+} from '../types/index.js';
 
-export function parseDockerfile(raw: string, path: string): ParsedDockerfile {
-  const parsed = dockerFileParser.parse(raw, { includeComments: false });
+/**
+ * Dockerfile parser following the BuildKit frontend:
+ *
+ * - parser directives (`# syntax=`, `# escape=`) at the top of the file
+ * - line continuations with the escape character; comment and blank lines
+ *   inside a continued instruction are dropped
+ * - leading `--flag=value` options of FROM, RUN, COPY, ADD and HEALTHCHECK
+ * - here-documents (`RUN <<EOF`, `COPY <<-EOF /dst`) for RUN, COPY and ADD
+ * - JSON (exec) form arguments
+ * - ARG / ENV scopes per stage, with `--build-arg` values
+ */
 
-  const allInstructions: DockerfileInstruction[] = parsed.map((entry) => ({
-    name: entry.name?.toUpperCase() ?? '',
-    args: typeof entry.args === 'string' ? entry.args : JSON.stringify(entry.args),
-    lineno: entry.lineno ?? 0,
-    raw: entry.raw ?? '',
-    error: entry.error,
-  }));
+type Vars = Record<string, string | undefined>;
+
+export interface DockerfileParseOptions {
+  /** `--build-arg` values, overriding ARG defaults */
+  buildArgs?: Record<string, string>;
+}
+
+const DIRECTIVE_RE = /^#\s*([a-zA-Z][a-zA-Z0-9_-]*)\s*=\s*(.*?)\s*$/;
+const NAME_RE = /^[A-Za-z_][A-Za-z0-9_]*/;
+const BRACED_RE = /^\$\{([A-Za-z_][A-Za-z0-9_]*)(?:(:?[-+])([^}]*))?\}/;
+const FLAG_RE = /^--([a-zA-Z][a-zA-Z0-9-]*)(?:=(\S*))?(?:\s+|$)/;
+const HEREDOC_RE = /(?<![<\w])<<(-?)(["']?)([a-zA-Z_][a-zA-Z0-9_]*)\2/g;
+
+const FLAG_INSTRUCTIONS = new Set(['FROM', 'RUN', 'COPY', 'ADD', 'HEALTHCHECK']);
+const HEREDOC_INSTRUCTIONS = new Set(['RUN', 'COPY', 'ADD']);
+const JSON_INSTRUCTIONS = new Set(['CMD', 'ENTRYPOINT', 'RUN', 'SHELL', 'COPY', 'ADD', 'VOLUME']);
+
+/**
+ * Parser directives are only recognized before the first comment, blank
+ * line or instruction. Unknown or repeated directives end the block.
+ */
+function parseDirectives(lines: string[]): Record<string, string> {
+  const directives: Record<string, string> = {};
+  for (const line of lines) {
+    const match = line.match(DIRECTIVE_RE);
+    if (!match) break;
+    const key = match[1].toLowerCase();
+    if (key in directives) break;
+    directives[key] = match[2];
+  }
+  return directives;
+}
+
+function parseFlags(text: string): { flags: DockerfileFlag[]; rest: string } {
+  const flags: DockerfileFlag[] = [];
+  let rest = text;
+  let match: RegExpMatchArray | null;
+  while ((match = rest.match(FLAG_RE))) {
+    flags.push(match[2] === undefined ? { name: match[1] } : { name: match[1], value: match[2] });
+    rest = rest.slice(match[0].length);
+  }
+  return { flags, rest };
+}
+
+function parseJsonArgs(args: string): string[] | undefined {
+  if (!args.startsWith('[')) return undefined;
+  try {
+    const parsed: unknown = JSON.parse(args);
+    return Array.isArray(parsed) && parsed.every((item) => typeof item === 'string') ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Expand `$VAR`, `${VAR}`, `${VAR:-word}`, `${VAR-word}`, `${VAR:+word}` and
+ * `${VAR+word}` with the variables in scope. Single-quoted text and escaped
+ * characters are left alone, as are variables that are not in scope, since
+ * they may belong to the shell. `unresolved` lists the variables in scope
+ * that were needed but have no value.
+ */
+export function expandVariables(
+  text: string,
+  vars: Vars,
+  escape = '\\',
+): { value: string; unresolved: string[] } {
+  const unresolved: string[] = [];
+  const expandWord = (word: string) => {
+    const result = expandVariables(word, vars, escape);
+    unresolved.push(...result.unresolved);
+    return result.value;
+  };
+
+  let value = '';
+  let inDouble = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === escape && i + 1 < text.length) {
+      value += ch + text[i + 1];
+      i++;
+      continue;
+    }
+    if (ch === "'" && !inDouble) {
+      const close = text.indexOf("'", i + 1);
+      const end = close === -1 ? text.length : close + 1;
+      value += text.slice(i, end);
+      i = end - 1;
+      continue;
+    }
+    if (ch === '"') inDouble = !inDouble;
+    if (ch !== '$') {
+      value += ch;
+      continue;
+    }
+
+    const braced = text.slice(i).match(BRACED_RE);
+    const name = braced ? braced[1] : text.slice(i + 1).match(NAME_RE)?.[0];
+    if (!name || !Object.hasOwn(vars, name)) {
+      value += ch;
+      continue;
+    }
+
+    const current = vars[name];
+    const op = braced?.[2];
+    const word = braced?.[3] ?? '';
+    const isSet = op?.startsWith(':') ? Boolean(current) : current !== undefined;
+    if (!op) {
+      if (current === undefined) unresolved.push(name);
+      value += current ?? '';
+    } else if (op.endsWith('-')) {
+      value += isSet ? current : expandWord(word);
+    } else {
+      value += isSet ? expandWord(word) : '';
+    }
+    i += braced ? braced[0].length - 1 : name.length;
+  }
+
+  return { value, unresolved };
+}
+
+/** Split on unquoted whitespace, keeping quotes and escapes in each word. */
+function splitWords(text: string, escape: string): string[] {
+  const words: string[] = [];
+  let word = '';
+  let quote: string | undefined;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === escape && quote !== "'" && i + 1 < text.length) {
+      word += ch + text[++i];
+    } else if (quote) {
+      if (ch === quote) quote = undefined;
+      word += ch;
+    } else if (/\s/.test(ch)) {
+      if (word) words.push(word);
+      word = '';
+    } else {
+      if (ch === '"' || ch === "'") quote = ch;
+      word += ch;
+    }
+  }
+  if (word) words.push(word);
+  return words;
+}
+
+/** Remove quotes and escape characters from an ARG / ENV value. */
+function unquote(text: string, escape: string): string {
+  let result = '';
+  let quote: string | undefined;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === escape && quote !== "'" && i + 1 < text.length) {
+      result += text[++i];
+    } else if (quote ? ch === quote : ch === '"' || ch === "'") {
+      quote = quote ? undefined : ch;
+    } else {
+      result += ch;
+    }
+  }
+  return result;
+}
+
+/** `NAME=value` pairs of an ARG or ENV instruction, values expanded. */
+function assignments(instr: DockerfileInstruction, escape: string): Array<[string, string | undefined]> {
+  const value = (text: string) => unquote(expandVariables(text, instr.vars, escape).value, escape);
+  const words = splitWords(instr.args, escape);
+
+  // Legacy `ENV NAME value with spaces`
+  if (instr.name === 'ENV' && words.length > 0 && !words[0].includes('=')) {
+    return [[words[0], value(instr.args.slice(words[0].length).trim())]];
+  }
+
+  return words.map((word) => {
+    const eq = word.indexOf('=');
+    return eq === -1 ? [word, undefined] : [word.slice(0, eq), value(word.slice(eq + 1))];
+  });
+}
+
+export function parseDockerfile(
+  raw: string,
+  path: string,
+  options: DockerfileParseOptions = {},
+): ParsedDockerfile {
+  const sourceLines = raw.split('\n');
+  // A trailing newline ends the last line rather than starting a new one
+  if (sourceLines.length > 1 && sourceLines[sourceLines.length - 1] === '') sourceLines.pop();
+  const lines = sourceLines.map((line) => line.replace(/\r$/, ''));
+
+  const directives = parseDirectives(lines);
+  const escape = directives.escape === '`' ? '`' : '\\';
+  const continuation = new RegExp(`${escape === '`' ? '`' : '\\\\'}[ \\t]*$`);
+
+  const comments: SourceComment[] = [];
+  const allInstructions: DockerfileInstruction[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const trimmed = lines[i].trim();
+    if (!trimmed) continue;
+
+    // Comments are kept separately so inline directives can be read later
+    if (trimmed.startsWith('#')) {
+      comments.push({ text: trimmed.replace(/^#/, '').trim(), line: i + 1, trailing: false });
+      continue;
+    }
+
+    // Join continuation lines into one logical line
+    const start = i;
+    let text = '';
+    let line = lines[i];
+    while (continuation.test(line) && i + 1 < lines.length) {
+      text += line.replace(continuation, '');
+      i++;
+      while (i + 1 < lines.length && (!lines[i].trim() || lines[i].trim().startsWith('#'))) i++;
+      line = lines[i];
+    }
+    text = (text + line.replace(continuation, '')).trim();
+    // A lone continuation line joins nothing
+    if (!text) continue;
+
+    const [, keyword, rest = ''] = text.match(/^(\S+)\s*([\s\S]*)$/) ?? [];
+    const name = keyword.toUpperCase();
+    const { flags, rest: afterFlags } = FLAG_INSTRUCTIONS.has(name) ? parseFlags(rest) : { flags: [], rest };
+    const args = afterFlags.trim();
+    const json = JSON_INSTRUCTIONS.has(name) ? parseJsonArgs(args) : undefined;
+
+    // Here-document bodies follow the instruction line, in order
+    const heredocs: DockerfileHeredoc[] = [];
+    let error: string | undefined;
+    if (HEREDOC_INSTRUCTIONS.has(name) && !json) {
+      for (const match of args.matchAll(HEREDOC_RE)) {
+        const [, dash, quote, delimiter] = match;
+        const chomp = dash === '-';
+        const heredoc: DockerfileHeredoc = { name: delimiter, body: '', chomp, quoted: quote !== '', line: i + 2 };
+        let terminated = false;
+        while (i + 1 < lines.length) {
+          i++;
+          const bodyLine = chomp ? lines[i].replace(/^\t+/, '') : lines[i];
+          if (bodyLine === delimiter) {
+            terminated = true;
+            break;
+          }
+          heredoc.body += `${bodyLine}\n`;
+        }
+        heredocs.push(heredoc);
+        if (!terminated) {
+          error = `Unterminated heredoc <<${delimiter}`;
+          break;
+        }
+      }
+    }
+
+    allInstructions.push({
+      name,
+      args,
+      flags,
+      ...(json ? { json } : {}),
+      heredocs,
+      lineno: start + 1,
+      endLine: i + 1,
+      raw: text,
+      original: sourceLines.slice(start, i + 1).join('\n'),
+      vars: {},
+      ...(error ? { error } : {}),
+    });
+  }
 
   const stages: DockerfileStage[] = [];
   let currentStage: DockerfileStage | null = null;
 
+  // Global ARGs (before the first FROM) are visible to FROM lines; inside a
+  // stage, `ARG NAME` without a default imports the global value. ENV
+  // overrides ARG and carries over to stages built `FROM` an earlier stage.
+  const buildArgs = options.buildArgs ?? {};
+  const globalArgs: Vars = {};
+  const stageEnv = new Map<string, Vars>();
+  let args: Vars = globalArgs;
+  let env: Vars = {};
+
   for (const instr of allInstructions) {
+    instr.vars = instr.name === 'FROM' ? { ...globalArgs } : { ...args, ...env };
+
     if (instr.name === 'FROM') {
-      const fromArgs = instr.args.trim();
       // Parse "image AS name" pattern
-      const asMatch = fromArgs.match(/^(.+?)\s+[Aa][Ss]\s+(\S+)$/);
+      const asMatch = instr.args.match(/^(.+?)\s+[Aa][Ss]\s+(\S+)$/);
+      const baseImage = asMatch ? asMatch[1].trim() : instr.args;
+      const expanded = expandVariables(baseImage, globalArgs, escape);
       currentStage = {
-        baseImage: asMatch ? asMatch[1].trim() : fromArgs,
+        baseImage,
+        // Undeclared variables expand to nothing in FROM, so leave those undecided too
+        ...(expanded.unresolved.length === 0 && !expanded.value.includes('$')
+          ? { effectiveBaseImage: expanded.value }
+          : {}),
         name: asMatch ? asMatch[2].trim() : undefined,
         instructions: [instr],
         startLine: instr.lineno,
       };
       stages.push(currentStage);
-    } else if (currentStage) {
-      currentStage.instructions.push(instr);
+
+      args = {};
+      env = { ...stageEnv.get(expanded.value.toLowerCase()) };
+      if (currentStage.name) stageEnv.set(currentStage.name.toLowerCase(), env);
+    } else {
+      currentStage?.instructions.push(instr);
+
+      if (instr.name === 'ARG') {
+        for (const [name, value] of assignments(instr, escape)) {
+          args[name] = buildArgs[name] ?? (value === undefined && currentStage ? globalArgs[name] : value);
+        }
+      } else if (instr.name === 'ENV' && currentStage) {
+        for (const [name, value] of assignments(instr, escape)) env[name] = value ?? '';
+      }
     }
   }
 
@@ -41,5 +341,5 @@ export function parseDockerfile(raw: string, path: string): ParsedDockerfile {
     });
   }
 
-  return { path, stages, allInstructions, raw };
+  return { path, directives, escape, stages, allInstructions, comments, raw };
 }
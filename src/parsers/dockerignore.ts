@@ -1,7 +1,59 @@
 import type { ParsedDockerignore, DockerignoreEntry } from '../types/index.js';
 
+function escapeRegExp(ch: string): string {
+  return ch.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+/**
+ * Normalize a pattern the way Docker does before matching: like Go's
+ * `filepath.Clean` (no `.` segments, `..` resolved, no repeated or
+ * trailing slashes) and without a leading `/`, since every pattern is
+ * relative to the context root.
+ */
+export function cleanPattern(pattern: string): string {
+  const segments: string[] = [];
+  for (const segment of pattern.split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..' && segments.length > 0 && segments[segments.length - 1] !== '..') segments.pop();
+    else if (segment !== '..' || !pattern.startsWith('/')) segments.push(segment);
+  }
+  return segments.join('/') || '.';
+}
+
+/**
+ * Translate a cleaned pattern to a regular expression with Docker's
+ * semantics: Go's `filepath.Match` (`*` and `?` stay within a path
+ * segment, `[...]` is a character class, `\` escapes) plus `**`, which
+ * matches any number of directories, including none.
+ */
+export function patternToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === '*' && pattern[i + 1] === '*') {
+      i++;
+      if (pattern[i + 1] === '/') i++;
+      source += i + 1 < pattern.length ? '(?:.*/)?' : '.*';
+    } else if (ch === '*') {
+      source += '[^/]*';
+    } else if (ch === '?') {
+      source += '[^/]';
+    } else if (ch === '[' && pattern.indexOf(']', i + 2) !== -1) {
+      const close = pattern.indexOf(']', i + 2);
+      const body = pattern.slice(i + 1, close);
+      source += `[${body}]`;
+      i = close;
+    } else if (ch === '\\' && i + 1 < pattern.length) {
+      source += escapeRegExp(pattern[++i]);
+    } else {
+      source += escapeRegExp(ch);
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
 export function parseDockerignore(raw: string, path: string): ParsedDockerignore {
-  const lines = raw.split('\n');
+  const lines = raw.replace(/^\uFEFF/, '').split('\n');
   const entries: DockerignoreEntry[] = [];
 
   for (let i = 0; i < lines.length; i++) {
@@ -9,20 +61,50 @@ export function parseDockerignore(raw: string, path: string): ParsedDockerignore
     if (!trimmed || trimmed.startsWith('#')) continue;
 
     const negation = trimmed.startsWith('!');
-    const pattern = negation ? trimmed.slice(1) : trimmed;
+    const pattern = negation ? trimmed.slice(1).trim() : trimmed;
+    if (!pattern) continue;
 
     entries.push({
       pattern,
       negation,
       line: i + 1,
+      regex: patternToRegExp(cleanPattern(pattern)),
     });
   }
 
   return { path, entries, raw };
 }
 
+/**
+ * Whether Docker leaves a path out of the build context. `path` is
+ * relative to the context root and `/`-separated. Every entry is tried in
+ * order and the last one that matches the path or one of its parent
+ * directories wins, so `!` entries re-include what earlier ones excluded.
+ */
+export function isDockerignored(path: string, entries: DockerignoreEntry[]): boolean {
+  const segments = cleanPattern(path).split('/');
+  const parents = segments.slice(1).map((_, i) => segments.slice(0, i + 1).join('/'));
+  const file = segments.join('/');
+
+  let ignored = false;
+  for (const entry of entries) {
+    // Only an entry that could flip the outcome needs testing
+    if (entry.negation !== ignored) continue;
+    if (entry.regex.test(file) || parents.some((parent) => entry.regex.test(parent))) {
+      ignored = !entry.negation;
+    }
+  }
+  return ignored;
+}
+
+/**
+ * Whether the .dockerignore already covers `pattern`. Plain paths count
+ * as covered when the file excludes them, however it spells that
+ * (`/node_modules`, `**\/node_modules`, `node_modules/`); glob patterns
+ * like `*.log` must appear as an entry.
+ */
 export function hasEntry(parsed: ParsedDockerignore, pattern: string): boolean {
-  return parsed.entries.some(
-    (e) => !e.negation && (e.pattern === pattern || e.pattern === pattern + '/'),
-  );
+  if (!/[*?[\\]/.test(pattern)) return isDockerignored(pattern, parsed.entries);
+  const cleaned = cleanPattern(pattern);
+  return parsed.entries.some((e) => !e.negation && cleanPattern(e.pattern) === cleaned);
 }
@@ -0,0 +1,69 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { ComposeVariable } from '../types/index.js';
+
+/**
+ * Parse a Compose-style `.env` file: `KEY=value` lines, optional `export`
+ * prefix, single- or double-quoted values, and `#` comments (inline comments
+ * only on unquoted values, after whitespace).
+ */
+export function parseEnvFile(raw: string): Record<string, string> {
+  const vars: Record<string, string> = {};
+
+  for (const line of raw.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+
+    const match = trimmed.match(/^(?:export\s+)?([A-Za-z_][A-Za-z0-9_.-]*)\s*=\s*(.*)$/);
+    if (!match) continue;
+
+    const [, key, rest] = match;
+    let value: string;
+    const quote = rest[0];
+    if ((quote === '"' || quote === "'") && rest.indexOf(quote, 1) !== -1) {
+      value = rest.slice(1, rest.indexOf(quote, 1));
+      if (quote === '"') {
+        value = value.replace(/\\n/g, '\n').replace(/\\"/g, '"');
+      }
+    } else {
+      value = rest.replace(/\s+#.*$/, '').trim();
+    }
+    vars[key] = value;
+  }
+
+  return vars;
+}
+
+/**
+ * Collect the variables available for Compose interpolation, following
+ * Compose precedence: the process environment wins over env files. Explicit
+ * `--env-file` paths replace the project `.env`; later files override
+ * earlier ones.
+ */
+export function loadComposeVariables(
+  projectDir: string,
+  envFiles?: string[],
+  processEnv: NodeJS.ProcessEnv = process.env,
+): Record<string, ComposeVariable> {
+  const variables: Record<string, ComposeVariable> = {};
+
+  const files = envFiles?.length ? envFiles : [join(projectDir, '.env')];
+  for (const file of files) {
+    if (!existsSync(file)) continue;
+    let parsed: Record<string, string>;
+    try {
+      parsed = parseEnvFile(readFileSync(file, 'utf-8'));
+    } catch {
+      continue;
+    }
+    for (const [name, value] of Object.entries(parsed)) {
+      variables[name] = { value, source: 'env-file', file };
+    }
+  }
+
+  for (const [name, value] of Object.entries(processEnv)) {
+    if (value !== undefined) variables[name] = { value, source: 'environment' };
+  }
+
+  return variables;
+}
@@ -0,0 +1,103 @@
+import { relative, sep } from 'node:path';
+
+export interface GitignoreRule {
+  /** Directory of the .gitignore file; patterns are relative to it */
+  base: string;
+  pattern: string;
+  negation: boolean;
+  /** Pattern ended with `/` and only matches directories */
+  dirOnly: boolean;
+  regex: RegExp;
+  line: number;
+}
+
+function escapeRegExp(ch: string): string {
+  return ch.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+/**
+ * Translate a gitignore glob to a regular expression over `/`-separated
+ * paths: `*` and `?` stay within a path segment, `**` spans segments and
+ * `[...]` is a character class. Patterns without a slash match at any depth.
+ */
+function globToRegExp(glob: string, anchored: boolean): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === '*' && glob[i + 1] === '*') {
+      // `**/` matches zero or more directories, a trailing `**` everything
+      if (glob[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i++;
+      }
+    } else if (ch === '*') {
+      source += '[^/]*';
+    } else if (ch === '?') {
+      source += '[^/]';
+    } else if (ch === '[' && glob.indexOf(']', i + 2) !== -1) {
+      const close = glob.indexOf(']', i + 2);
+      const body = glob.slice(i + 1, close).replace(/\\/g, '\\\\');
+      source += `[${body.startsWith('!') ? `^${body.slice(1)}` : body}]`;
+      i = close;
+    } else if (ch === '\\' && i + 1 < glob.length) {
+      source += escapeRegExp(glob[++i]);
+    } else {
+      source += escapeRegExp(ch);
+    }
+  }
+  return new RegExp(anchored ? `^${source}$` : `^(?:.*/)?${source}$`);
+}
+
+export function parseGitignore(raw: string, base: string): GitignoreRule[] {
+  const rules: GitignoreRule[] = [];
+  const lines = raw.split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    // Trailing spaces are ignored unless escaped
+    let text = lines[i].replace(/\r$/, '').replace(/(?<!\\)\s+$/, '');
+    if (!text || text.startsWith('#')) continue;
+
+    const negation = text.startsWith('!');
+    if (negation) text = text.slice(1);
+    if (text.startsWith('\\#') || text.startsWith('\\!')) text = text.slice(1);
+
+    const dirOnly = text.endsWith('/');
+    if (dirOnly) text = text.slice(0, -1);
+    if (!text) continue;
+
+    // A slash at the start or in the middle anchors the pattern to `base`
+    const anchored = text.includes('/');
+    const glob = text.startsWith('/') ? text.slice(1) : text;
+
+    rules.push({
+      base,
+      pattern: lines[i].trim(),
+      negation,
+      dirOnly,
+      regex: globToRegExp(glob, anchored),
+      line: i + 1,
+    });
+  }
+
+  return rules;
+}
+
+/**
+ * Whether a path is ignored. Rules are applied in order and the last match
+ * wins, so rules from nested .gitignore files must come after their
+ * parents'. Callers walking a tree should stop descending into ignored
+ * directories, since git never re-includes files below them.
+ */
+export function isGitignored(path: string, isDir: boolean, rules: GitignoreRule[]): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDir) continue;
+    const rel = relative(rule.base, path).split(sep).join('/');
+    if (!rel || rel.startsWith('..')) continue;
+    if (rule.regex.test(rel)) ignored = !rule.negation;
+  }
+  return ignored;
+}
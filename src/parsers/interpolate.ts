@@ -0,0 +1,152 @@
+import type { ComposeVariable, UnresolvedVariable } from '../types/index.js';
+
+const NAME_RE = /^[A-Za-z_][A-Za-z0-9_]*/;
+
+type Lookup = (name: string) => string | undefined;
+
+/** Index of the `}` closing a `${` that starts at `open`, honoring nesting. */
+function findClosingBrace(input: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < input.length; i++) {
+    if (input[i] === '$' && input[i + 1] === '{') {
+      depth++;
+      i++;
+    } else if (input[i] === '}') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Resolve a braced expression body such as `VAR`, `VAR:-default` or
+ * `VAR:?message`. Operands are interpolated recursively, but only when used.
+ */
+function resolveExpression(
+  body: string,
+  lookup: Lookup,
+  issues: Array<Omit<UnresolvedVariable, 'path'>>,
+): string | undefined {
+  const name = body.match(NAME_RE)?.[0];
+  if (!name) return undefined;
+
+  const rest = body.slice(name.length);
+  const value = lookup(name);
+  const op = rest.match(/^(:?[-?+])/)?.[1];
+  if (rest && !op) return undefined;
+  const operand = op ? rest.slice(op.length) : '';
+  const expand = (text: string) => interpolateString(text, lookup, issues);
+
+  const isUnset = value === undefined;
+  const isUnsetOrEmpty = isUnset || value === '';
+
+  switch (op) {
+    case undefined:
+      if (isUnset) issues.push({ name, required: false });
+      return value ?? '';
+    case ':-':
+      return isUnsetOrEmpty ? expand(operand) : value;
+    case '-':
+      return isUnset ? expand(operand) : value;
+    case ':?':
+    case '?':
+      if (op === ':?' ? isUnsetOrEmpty : isUnset) {
+        issues.push({ name, required: true, message: expand(operand) || undefined });
+        return '';
+      }
+      return value;
+    case ':+':
+      return isUnsetOrEmpty ? '' : expand(operand);
+    case '+':
+      return isUnset ? '' : expand(operand);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Compose-spec interpolation of a single string: `$VAR`, `${VAR}`,
+ * `${VAR:-default}`, `${VAR-default}`, `${VAR:?error}`, `${VAR?error}`,
+ * `${VAR:+alt}`, `${VAR+alt}` and `$$` as a literal `$`. Malformed
+ * expressions are left as written.
+ */
+export function interpolateString(
+  input: string,
+  lookup: Lookup,
+  issues: Array<Omit<UnresolvedVariable, 'path'>> = [],
+): string {
+  let output = '';
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i];
+    if (ch !== '$') {
+      output += ch;
+      i++;
+      continue;
+    }
+
+    const next = input[i + 1];
+    if (next === '$') {
+      output += '$';
+      i += 2;
+    } else if (next === '{') {
+      const close = findClosingBrace(input, i);
+      const resolved = close === -1 ? undefined : resolveExpression(input.slice(i + 2, close), lookup, issues);
+      if (resolved === undefined) {
+        output += ch;
+        i++;
+      } else {
+        output += resolved;
+        i = close + 1;
+      }
+    } else {
+      const name = input.slice(i + 1).match(NAME_RE)?.[0];
+      if (name) {
+        const value = lookup(name);
+        if (value === undefined) issues.push({ name, required: false });
+        output += value ?? '';
+        i += 1 + name.length;
+      } else {
+        output += ch;
+        i++;
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Interpolate every string value in a parsed YAML document. Keys are left
+ * untouched, as in Compose. Unresolved variables are collected with the
+ * dotted path of the value they appeared in.
+ */
+export function interpolateDocument<T>(
+  node: T,
+  variables: Record<string, ComposeVariable>,
+  unresolved: UnresolvedVariable[],
+): T {
+  const lookup: Lookup = (name) => variables[name]?.value;
+
+  const visit = (value: unknown, path: string): unknown => {
+    if (typeof value === 'string') {
+      const issues: Array<Omit<UnresolvedVariable, 'path'>> = [];
+      const result = interpolateString(value, lookup, issues);
+      unresolved.push(...issues.map((issue) => ({ ...issue, path })));
+      return result;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item, i) => visit(item, `${path}[${i}]`));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, visit(item, path ? `${path}.${key}` : key)]),
+      );
+    }
+    return value;
+  };
+
+  return visit(node, '') as T;
+}
@@ -0,0 +1,134 @@
+/** Characters that make the shell do more than split words when unquoted */
+const UNQUOTED_SPECIAL = new Set(['|', '&', ';', '<', '>', '(', ')', '$', '`', '*', '?', '[', '{', '}']);
+
+/** Builtins with no executable of the same name, which `exec` can't run */
+const SHELL_BUILTINS = new Set([
+  '.', ':', 'alias', 'bg', 'break', 'builtin', 'cd', 'command', 'continue', 'declare', 'eval', 'exec', 'exit',
+  'export', 'fg', 'getopts', 'hash', 'jobs', 'let', 'local', 'read', 'readonly', 'return', 'set', 'shift',
+  'source', 'times', 'trap', 'type', 'typeset', 'ulimit', 'umask', 'unalias', 'unset', 'wait',
+]);
+
+/** Whether a command name is a shell builtin that can't be exec'd, like `cd` or `export`. */
+export function isShellBuiltin(name: string): boolean {
+  return SHELL_BUILTINS.has(name);
+}
+
+/** Characters a backslash escapes inside double quotes */
+const DOUBLE_QUOTE_ESCAPES = new Set(['\\', '"', '$', '`', '\n']);
+
+/**
+ * Split a shell command into the words `sh -c` would pass to `exec`, for
+ * commands simple enough that no shell is needed. Returns undefined when
+ * the command relies on the shell: pipes, lists (`&&`, `;`), redirects,
+ * subshells, variable or command expansion, globs, `~`, comments, leading
+ * variable assignments, unterminated quotes, or a builtin such as `cd` as
+ * the command.
+ */
+export function tokenizeShellCommand(command: string): string[] | undefined {
+  const words: string[] = [];
+  let word = '';
+  let inWord = false;
+  let i = 0;
+
+  const endWord = () => {
+    if (inWord) words.push(word);
+    word = '';
+    inWord = false;
+  };
+
+  while (i < command.length) {
+    const ch = command[i];
+
+    if (ch === ' ' || ch === '\t' || ch === '\n') {
+      endWord();
+      i++;
+    } else if (ch === '\\') {
+      if (i + 1 >= command.length) return undefined;
+      // A backslash-newline joins lines and adds nothing
+      if (command[i + 1] !== '\n') {
+        word += command[i + 1];
+        inWord = true;
+      }
+      i += 2;
+    } else if (ch === "'") {
+      const end = command.indexOf("'", i + 1);
+      if (end === -1) return undefined;
+      word += command.slice(i + 1, end);
+      inWord = true;
+      i = end + 1;
+    } else if (ch === '"') {
+      i++;
+      for (;;) {
+        if (i >= command.length) return undefined;
+        const c = command[i];
+        if (c === '"') break;
+        if (c === '$' || c === '`') return undefined;
+        if (c === '\\' && DOUBLE_QUOTE_ESCAPES.has(command[i + 1])) {
+          if (command[i + 1] !== '\n') word += command[i + 1];
+          i += 2;
+          continue;
+        }
+        word += c;
+        i++;
+      }
+      inWord = true;
+      i++;
+    } else {
+      if (UNQUOTED_SPECIAL.has(ch)) return undefined;
+      if (!inWord && (ch === '#' || ch === '~')) return undefined;
+      word += ch;
+      inWord = true;
+      i++;
+    }
+  }
+  endWord();
+
+  if (words.length === 0) return undefined;
+  // `NAME=value cmd` sets a variable for the command, which exec form can't do
+  if (/^[A-Za-z_][A-Za-z0-9_]*=/.test(words[0])) return undefined;
+  // `exec cmd` runs cmd, but a builtin (or a bare `exec`) only exists inside the shell
+  const name = words[0] === 'exec' ? words[1] : words[0];
+  if (name === undefined || isShellBuiltin(name)) return undefined;
+  return words;
+}
+
+const COMPOUND_COMMAND = /(^|[;&|]\s*)(if|for|while|until|case|function|select)\s/;
+
+/**
+ * Where `exec` can go so the last command of a `&&` / `;` list replaces
+ * the shell, e.g. 23 in `npm run migrate && npm start`. Returns undefined
+ * for commands where that isn't enough or isn't safe: pipes, `||`,
+ * background jobs, subshells, command substitution, heredocs and compound
+ * commands.
+ */
+export function execInsertionPoint(command: string): number | undefined {
+  if (COMPOUND_COMMAND.test(command)) return undefined;
+
+  let start = 0;
+  let quote: string | undefined;
+  for (let i = 0; i < command.length; i++) {
+    const ch = command[i];
+    if (quote) {
+      if (ch === quote) quote = undefined;
+      else if (ch === '\\' && quote === '"') i++;
+      else if (quote === '"' && (ch === '`' || (ch === '$' && command[i + 1] === '('))) return undefined;
+      continue;
+    }
+    if (ch === '\\') i++;
+    else if (ch === "'" || ch === '"') quote = ch;
+    else if (ch === '|' || ch === '(' || ch === ')' || ch === '`') return undefined;
+    else if (ch === '<' && command[i + 1] === '<') return undefined;
+    else if (ch === ';') start = i + 1;
+    else if (ch === '&') {
+      // `2>&1` and `<&0` are redirects
+      if (command[i - 1] === '>' || command[i - 1] === '<') continue;
+      if (command[i + 1] !== '&') return undefined;
+      start = i + 2;
+      i++;
+    }
+  }
+  if (quote) return undefined;
+
+  while (start < command.length && /\s/.test(command[start])) start++;
+  return start < command.length ? start : undefined;
+}
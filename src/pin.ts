@@ -0,0 +1,188 @@
+import type { CheckContext, Fix } from './types/index.js';
+import { getImageRepoDigests } from './docker/client.js';
+import { editFix } from './fixes.js';
+import { getDockerfiles, composeLocation } from './checks/utils.js';
+
+/** Manifest types a digest may name: multi-platform indexes first, so the pin works on every platform */
+const MANIFEST_TYPES = [
+  'application/vnd.oci.image.index.v1+json',
+  'application/vnd.docker.distribution.manifest.list.v2+json',
+  'application/vnd.oci.image.manifest.v1+json',
+  'application/vnd.docker.distribution.manifest.v2+json',
+];
+
+export interface ImageReference {
+  /** Registry host, `docker.io` for Docker Hub */
+  registry: string;
+  /** Repository path, with `library/` for official Docker Hub images */
+  repository: string;
+  tag?: string;
+  /** `sha256:...` when the reference is pinned */
+  digest?: string;
+}
+
+/** An image reference written in a Dockerfile `FROM` or a compose `image:` field. */
+export interface ImageUse {
+  path: string;
+  line: number;
+  image: string;
+  source: 'dockerfile' | 'compose';
+}
+
+/** Split an image reference like `ghcr.io/org/app:1.2@sha256:...` into its parts. */
+export function parseImageReference(image: string): ImageReference {
+  const at = image.indexOf('@');
+  const digest = at === -1 ? undefined : image.slice(at + 1);
+  let name = at === -1 ? image : image.slice(0, at);
+
+  let tag: string | undefined;
+  const colon = name.lastIndexOf(':');
+  if (colon > name.lastIndexOf('/')) {
+    tag = name.slice(colon + 1);
+    name = name.slice(0, colon);
+  }
+
+  // The first component is a registry host only if it looks like one
+  const slash = name.indexOf('/');
+  const first = slash === -1 ? '' : name.slice(0, slash);
+  const hasRegistry = first.includes('.') || first.includes(':') || first === 'localhost';
+  let registry = hasRegistry ? first : 'docker.io';
+  let repository = hasRegistry ? name.slice(slash + 1) : name;
+  if (registry === 'index.docker.io' || registry === 'registry-1.docker.io') registry = 'docker.io';
+  if (registry === 'docker.io' && !repository.includes('/')) repository = `library/${repository}`;
+
+  return { registry, repository, ...(tag !== undefined ? { tag } : {}), ...(digest ? { digest } : {}) };
+}
+
+/**
+ * `image` pinned to `digest`, replacing any digest it already has. The tag
+ * is kept, and made explicit when missing, so the pin can be refreshed.
+ */
+export function pinnedReference(image: string, digest: string): string {
+  const name = image.split('@')[0];
+  return parseImageReference(name).tag === undefined ? `${name}:latest@${digest}` : `${name}@${digest}`;
+}
+
+function parseChallenge(header: string | null): Record<string, string> | undefined {
+  if (!header?.startsWith('Bearer ')) return undefined;
+  return Object.fromEntries([...header.matchAll(/(\w+)="([^"]*)"/g)].map((m) => [m[1], m[2]]));
+}
+
+/**
+ * Digest of `repository:tag` from a registry speaking the Docker registry
+ * API, such as a Docker Hub mirror. Anonymous bearer tokens are fetched when
+ * the registry asks for one. Returns undefined on any failure.
+ */
+export async function fetchRegistryDigest(
+  registry: string,
+  repository: string,
+  tag: string,
+): Promise<string | undefined> {
+  const base = /^https?:\/\//.test(registry) ? registry.replace(/\/+$/, '') : `https://${registry.replace(/\/+$/, '')}`;
+  const url = `${base}/v2/${repository}/manifests/${tag}`;
+  const headers: Record<string, string> = { Accept: MANIFEST_TYPES.join(', ') };
+
+  try {
+    let res = await fetch(url, { method: 'HEAD', headers, signal: AbortSignal.timeout(10000) });
+    if (res.status === 401) {
+      const challenge = parseChallenge(res.headers.get('www-authenticate'));
+      if (!challenge?.realm) return undefined;
+      const tokenUrl = new URL(challenge.realm);
+      if (challenge.service) tokenUrl.searchParams.set('service', challenge.service);
+      tokenUrl.searchParams.set('scope', challenge.scope ?? `repository:${repository}:pull`);
+      const tokenRes = await fetch(tokenUrl, { signal: AbortSignal.timeout(10000) });
+      if (!tokenRes.ok) return undefined;
+      const { token, access_token } = (await tokenRes.json()) as { token?: string; access_token?: string };
+      if (!token && !access_token) return undefined;
+      headers.Authorization = `Bearer ${token ?? access_token}`;
+      res = await fetch(url, { method: 'HEAD', headers, signal: AbortSignal.timeout(10000) });
+    }
+    if (!res.ok) return undefined;
+    return res.headers.get('docker-content-digest') ?? undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+async function localDigest(image: string): Promise<string | undefined> {
+  const wanted = parseImageReference(image);
+  for (const repoDigest of await getImageRepoDigests(image)) {
+    const ref = parseImageReference(repoDigest);
+    if (ref.digest && ref.registry === wanted.registry && ref.repository === wanted.repository) return ref.digest;
+  }
+  return undefined;
+}
+
+/**
+ * Current digest of an image's tag, ignoring any digest it is pinned to.
+ * The local daemon's image store is asked first, then `registryMirror` for
+ * Docker Hub images; `preferRegistry` reverses the order, for refreshing
+ * pins when the local copy may be stale.
+ */
+export async function resolveDigest(
+  image: string,
+  opts: { docker: boolean; registryMirror?: string; preferRegistry?: boolean },
+): Promise<string | undefined> {
+  const ref = parseImageReference(image);
+  const tagged = `${image.split('@')[0]}${ref.tag === undefined ? ':latest' : ''}`;
+  const local = () => (opts.docker ? localDigest(tagged) : Promise.resolve(undefined));
+  const remote = () =>
+    opts.registryMirror && ref.registry === 'docker.io'
+      ? fetchRegistryDigest(opts.registryMirror, ref.repository, ref.tag ?? 'latest')
+      : Promise.resolve(undefined);
+
+  return opts.preferRegistry ? ((await remote()) ?? (await local())) : ((await local()) ?? (await remote()));
+}
+
+/**
+ * Every pinnable image reference: Dockerfile `FROM` images (not stages,
+ * `scratch`, or images built from variables) and the `image:` of compose
+ * services that aren't built locally. Compose images using variables are
+ * left out, since the file doesn't contain the resolved value.
+ */
+export function findImageUses(context: CheckContext): ImageUse[] {
+  const uses: ImageUse[] = [];
+
+  for (const dockerfile of getDockerfiles(context)) {
+    const stageNames = new Set<string>();
+    for (const stage of dockerfile.stages) {
+      const image = stage.effectiveBaseImage;
+      const isStage = image !== undefined && stageNames.has(image.toLowerCase());
+      if (stage.name) stageNames.add(stage.name.toLowerCase());
+      if (image === undefined || image !== stage.baseImage || image === 'scratch' || isStage) continue;
+      uses.push({ path: dockerfile.path, line: stage.startLine, image, source: 'dockerfile' });
+    }
+  }
+
+  for (const service of context.compose?.rawServices ?? []) {
+    if (typeof service.image !== 'string' || service.build !== undefined || service.image.includes('$')) continue;
+    const key = `services.${service.name}.image`;
+    const path = composeLocation(context.compose!, key);
+    const line = context.compose!.files.find((f) => f.path === path)?.lines[key];
+    if (line !== undefined) uses.push({ path, line, image: service.image, source: 'compose' });
+  }
+
+  return uses;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Auto fix that rewrites one image reference to `image:tag@digest`. */
+export function pinFix(use: ImageUse, digest: string): Fix {
+  const pinned = pinnedReference(use.image, digest);
+  return editFix(`Pin ${use.image.split('@')[0]} to ${digest.slice(0, 19)}…`, async (read) => {
+    const before = read(use.path);
+    if (before === undefined) throw new Error(`${use.path} no longer exists`);
+    const lines = before.split('\n');
+    // Whole token only, so `node:20` doesn't match inside `node:20-slim`
+    const token = new RegExp(`(^|[\\s"'])${escapeRegExp(use.image)}(?=$|[\\s"'#])`);
+    const current = lines[use.line - 1];
+    if (current === undefined || !token.test(current)) {
+      throw new Error(`${use.image} not found at ${use.path}:${use.line}`);
+    }
+    lines[use.line - 1] = current.replace(token, (_, lead: string) => lead + pinned);
+    return [{ path: use.path, before, after: lines.join('\n') }];
+  });
+}
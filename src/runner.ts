@@ -1,6 +1,50 @@
-import type { Check, CheckContext, CheckResult, CheckCategory, Severity, Report } from './types/index.js';
+import { sep } from 'node:path';
+import type {
+  Baseline,
+  ChangeSet,
+  Check,
+  CheckContext,
+  CheckResult,
+  CheckCategory,
+  Severity,
+  Report,
+  SkippedCheck,
+  CheckTiming,
+  ProjectReport,
+  ReportSummary,
+} from './types/index.js';
 import { getAllChecks, getChecksByCategory } from './checks/registry.js';
 import { getVersion } from './version.js';
+import { isCheckEnabled, resolveCheckConfig } from './config.js';
+import { collectSuppressions, isSuppressed } from './suppressions.js';
+import { partitionByBaseline } from './baseline.js';
+import { isChangedResult, restrictToChanges } from './changes.js';
+
+export const DEFAULT_CONCURRENCY = 4;
+export const DEFAULT_CHECK_TIMEOUT_MS = 60_000;
+
+class CheckTimeoutError extends Error {
+  constructor(public readonly timeoutMs: number) {
+    super(`Check did not finish within ${timeoutMs / 1000}s`);
+    this.name = 'CheckTimeoutError';
+  }
+}
+
+/**
+ * Race a check against a timer. The check itself cannot be cancelled, but
+ * the run moves on without it.
+ */
+async function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new CheckTimeoutError(timeoutMs)), timeoutMs);
+  });
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
 
 function filterBySeverity(results: CheckResult[], minSeverity: Severity): CheckResult[] {
   const order: Record<Severity, number> = { error: 0, warning: 1, info: 2 };
@@ -8,15 +52,45 @@ function filterBySeverity(results: CheckResult[], minSeverity: Severity): CheckR
   return results.filter((r) => order[r.severity] <= threshold);
 }
 
+function summarize(results: CheckResult[], suppressed: number, baselined: number): ReportSummary {
+  return {
+    total: results.length,
+    errors: results.filter((r) => r.severity === 'error').length,
+    warnings: results.filter((r) => r.severity === 'warning').length,
+    info: results.filter((r) => r.severity === 'info').length,
+    fixable: results.filter((r) => r.fixes.length > 0).length,
+    suppressed,
+    baselined,
+  };
+}
+
+function elapsed(started: number): number {
+  return Math.round(performance.now() - started);
+}
+
 export async function runChecks(
   context: CheckContext,
   opts?: {
     categories?: CheckCategory[];
     minSeverity?: Severity;
+    baseline?: Baseline;
+    /** Directory baseline fingerprints are relative to (default: `context.cwd`) */
+    baselineRoot?: string;
+    /** Only check changed files (static checks only) and report findings in them */
+    changes?: ChangeSet;
+    /** With `changes`, only report findings on changed lines */
+    diffLines?: boolean;
+    /** Maximum number of checks running at once */
+    concurrency?: number;
+    /** Per-check timeout in milliseconds */
+    timeoutMs?: number;
     onCheckStart?: (check: Check) => void;
     onCheckComplete?: (check: Check, results: CheckResult[]) => void;
   },
 ): Promise<Report> {
+  // Only changed Dockerfiles, compose files and scripts are checked
+  if (opts?.changes) context = restrictToChanges(context, opts.changes);
+
   let checks: Check[];
   if (opts?.categories?.length) {
     checks = opts.categories.flatMap((cat) => getChecksByCategory(cat));
@@ -24,40 +98,97 @@ export async function runChecks(
     checks = getAllChecks();
   }
 
-  // Skip runtime checks if Docker is not available
-  checks = checks.filter((c) => !c.requiresDocker || context.dockerAvailable);
+  const skipped: SkippedCheck[] = [];
+  checks = checks.filter((c) => {
+    // Runtime checks look at the daemon, not at files, so they can't be narrowed to changes
+    if (c.requiresDocker && opts?.changes) {
+      skipped.push({ id: c.id, reason: 'changed-files-only' });
+      return false;
+    }
+    // Skip runtime checks if Docker is not available
+    if (c.requiresDocker && !context.dockerAvailable) {
+      skipped.push({ id: c.id, reason: 'docker-unavailable' });
+      return false;
+    }
+    // Skip checks disabled in the project config
+    if (!isCheckEnabled(context.config, c.id)) {
+      skipped.push({ id: c.id, reason: 'disabled' });
+      return false;
+    }
+    return true;
+  });
 
-  const allResults: CheckResult[] = [];
+  const timeoutMs = opts?.timeoutMs ?? DEFAULT_CHECK_TIMEOUT_MS;
+  const resultsByCheck: CheckResult[][] = new Array(checks.length);
+  const timings: CheckTiming[] = new Array(checks.length);
 
-  for (const check of checks) {
+  const runOne = async (check: Check, index: number): Promise<void> => {
     opts?.onCheckStart?.(check);
+    const started = performance.now();
     try {
-      const results = await check.run(context);
-      allResults.push(...results);
+      let results = await withTimeout(check.run(context), timeoutMs);
+      const severityOverride = resolveCheckConfig(context.config, check.id).severity;
+      if (severityOverride) {
+        results = results.map((r) => ({ ...r, severity: severityOverride }));
+      }
+      resultsByCheck[index] = results;
+      timings[index] = { id: check.id, durationMs: elapsed(started), status: 'ok' };
       opts?.onCheckComplete?.(check, results);
     } catch (err) {
-      // If a check throws, record it as an info-level result
-      allResults.push({
+      const timedOut = err instanceof CheckTimeoutError;
+      // If a check throws or hangs, record it as an info-level result
+      resultsByCheck[index] = [
+        {
+          id: check.id,
+          title: timedOut ? `Check timed out: ${check.name}` : `Check failed: ${check.name}`,
+          severity: 'info',
+          category: check.category,
+          message: err instanceof Error ? err.message : String(err),
+          fixes: [],
+          ...(timedOut ? { meta: { timedOut: true, timeoutMs } } : {}),
+        },
+      ];
+      timings[index] = {
         id: check.id,
-        title: `Check failed: ${check.name}`,
-        severity: 'info',
-        category: check.category,
-        message: err instanceof Error ? err.message : String(err),
-        fixes: [],
-      });
+        durationMs: elapsed(started),
+        status: timedOut ? 'timed-out' : 'failed',
+      };
       opts?.onCheckComplete?.(check, []);
     }
-  }
-
-  const filtered = opts?.minSeverity ? filterBySeverity(allResults, opts.minSeverity) : allResults;
+  };
 
-  const summary = {
-    total: filtered.length,
-    errors: filtered.filter((r) => r.severity === 'error').length,
-    warnings: filtered.filter((r) => r.severity === 'warning').length,
-    info: filtered.filter((r) => r.severity === 'info').length,
-    fixable: filtered.filter((r) => r.fixes.length > 0).length,
+  // Bounded pool: each worker pulls the next check until none are left.
+  // Results are stored by index so the report order stays deterministic.
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < checks.length) {
+      const index = next++;
+      await runOne(checks[index], index);
+    }
   };
+  const concurrency = Math.max(1, opts?.concurrency ?? DEFAULT_CONCURRENCY);
+  await Promise.all(Array.from({ length: Math.min(concurrency, checks.length) }, worker));
+
+  const allResults = resultsByCheck.flat();
+
+  const bySeverity = opts?.minSeverity ? filterBySeverity(allResults, opts.minSeverity) : allResults;
+
+  // Drop results silenced by inline `# dockerdoctor-ignore` directives
+  const suppressions = collectSuppressions(context);
+  const unsuppressed = bySeverity.filter((r) => !isSuppressed(r, suppressions));
+
+  // Drop findings outside the changed files (or lines)
+  const changes = opts?.changes;
+  const inChanges = changes
+    ? unsuppressed.filter((r) => isChangedResult(r, changes, context, opts?.diffLines))
+    : unsuppressed;
+
+  // Only report findings that are not already recorded in the baseline
+  const { known, fresh: filtered } = opts?.baseline
+    ? partitionByBaseline(inChanges, opts.baseline, opts.baselineRoot ?? context.cwd)
+    : { known: [], fresh: inChanges };
+
+  const summary = summarize(filtered, bySeverity.length - unsuppressed.length, known.length);
 
   return {
     timestamp: new Date().toISOString(),
@@ -65,5 +196,60 @@ export async function runChecks(
     dockerAvailable: context.dockerAvailable,
     results: filtered,
     summary,
+    skipped,
+    timings,
+  };
+}
+
+function isWithin(path: string, dir: string): boolean {
+  return path === dir || path.startsWith(dir.endsWith(sep) ? dir : dir + sep);
+}
+
+/**
+ * Combine the reports of a `check --recursive` run. A finding reported by
+ * more than one project — a Dockerfile both discovered in its own directory
+ * and built by a parent's compose file, or a daemon-wide runtime check — is
+ * kept once, under the project whose directory most closely contains it.
+ */
+export function combineReports(projects: Array<{ path: string; dir: string; report: Report }>): Report {
+  const owners = new Map<string, number>();
+  const key = (r: CheckResult) => `${r.id}\0${r.location ?? ''}\0${r.line ?? ''}\0${r.title}`;
+
+  projects.forEach(({ dir, report }, index) => {
+    for (const result of report.results) {
+      const k = key(result);
+      const current = owners.get(k);
+      const inDir = result.location !== undefined && isWithin(result.location, dir);
+      const closer =
+        current === undefined ||
+        (inDir &&
+          (!isWithin(result.location!, projects[current].dir) || dir.length > projects[current].dir.length));
+      if (closer) owners.set(k, index);
+    }
+  });
+
+  const grouped: ProjectReport[] = projects.map(({ path, report }, index) => {
+    const results = report.results.filter((r) => owners.get(key(r)) === index);
+    return {
+      path,
+      results,
+      summary: summarize(results, report.summary.suppressed, report.summary.baselined),
+      skipped: report.skipped,
+      timings: report.timings,
+    };
+  });
+
+  const results = grouped.flatMap((p) => p.results);
+  return {
+    timestamp: new Date().toISOString(),
+    version: getVersion(),
+    dockerAvailable: projects.some((p) => p.report.dockerAvailable),
+    results,
+    summary: summarize(
+      results,
+      grouped.reduce((n, p) => n + p.summary.suppressed, 0),
+      grouped.reduce((n, p) => n + p.summary.baselined, 0),
+    ),
+    projects: grouped,
   };
 }
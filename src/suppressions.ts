@@ -0,0 +1,105 @@
+import type { CheckContext, CheckResult, SourceComment } from './types/index.js';
+import { getDockerfiles } from './checks/utils.js';
+
+/**
+ * Inline suppression directives:
+ *
+ *   # dockerdoctor-ignore dockerfile.running-as-root   (next line)
+ *   # dockerdoctor-ignore-file compose.bind-mounts     (whole file)
+ *
+ * Several IDs may be separated by commas or spaces, `<category>.*` matches a
+ * whole category, and no ID at all suppresses every check. Anything after
+ * ` -- ` is treated as a free-text reason and ignored.
+ */
+const DIRECTIVE_RE = /^dockerdoctor-ignore(-file)?(?:\s+(.*))?$/;
+
+export interface Suppression {
+  path: string;
+  /** Line the directive applies to; undefined for file-wide directives */
+  line?: number;
+  /** Check IDs or `<category>.*` patterns; empty means every check */
+  ids: string[];
+}
+
+export function parseDirective(text: string): { fileWide: boolean; ids: string[] } | undefined {
+  const match = text.trim().match(DIRECTIVE_RE);
+  if (!match) return undefined;
+  const spec = (match[2] ?? '').split(' -- ')[0];
+  const ids = spec.split(/[\s,]+/).filter(Boolean);
+  return { fileWide: Boolean(match[1]), ids };
+}
+
+function collect(
+  path: string,
+  comments: SourceComment[],
+  targetLine: (comment: SourceComment) => number | undefined,
+): Suppression[] {
+  const suppressions: Suppression[] = [];
+  for (const comment of comments) {
+    const directive = parseDirective(comment.text);
+    if (!directive) continue;
+    if (directive.fileWide) {
+      suppressions.push({ path, ids: directive.ids });
+      continue;
+    }
+    const line = targetLine(comment);
+    if (line !== undefined) suppressions.push({ path, line, ids: directive.ids });
+  }
+  return suppressions;
+}
+
+/** Next line after `line` that is neither blank nor a comment. */
+function nextContentLine(raw: string, line: number): number | undefined {
+  const lines = raw.split('\n');
+  for (let i = line; i < lines.length; i++) {
+    const trimmed = lines[i].trim();
+    if (trimmed && !trimmed.startsWith('#')) return i + 1;
+  }
+  return undefined;
+}
+
+/**
+ * Gather every suppression directive from the parsed files in the context.
+ */
+export function collectSuppressions(context: CheckContext): Suppression[] {
+  const suppressions: Suppression[] = [];
+
+  const { compose } = context;
+  for (const dockerfile of getDockerfiles(context)) {
+    // A next-line directive applies to the instruction that follows it,
+    // which is where Dockerfile checks report their line numbers
+    suppressions.push(
+      ...collect(dockerfile.path, dockerfile.comments, (comment) =>
+        dockerfile.allInstructions.find((instr) => instr.lineno > comment.line)?.lineno,
+      ),
+    );
+  }
+
+  // Every merged compose file carries its own directives
+  for (const file of compose?.files ?? []) {
+    suppressions.push(
+      ...collect(file.path, file.comments, (comment) =>
+        comment.trailing ? comment.line : nextContentLine(file.raw, comment.line),
+      ),
+    );
+  }
+
+  return suppressions;
+}
+
+function matchesId(patterns: string[], id: string): boolean {
+  if (patterns.length === 0) return true;
+  return patterns.some((pattern) =>
+    pattern.endsWith('.*') ? id.startsWith(pattern.slice(0, -1)) : pattern === id,
+  );
+}
+
+export function isSuppressed(result: CheckResult, suppressions: Suppression[]): boolean {
+  if (!result.location) return false;
+  return suppressions.some(
+    (s) =>
+      s.path === result.location &&
+      (s.line === undefined || s.line === result.line) &&
+      matchesId(s.ids, result.id),
+  );
+}
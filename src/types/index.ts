@@ -13,10 +13,23 @@ export type CheckCategory =
   | 'cleanup'
   | 'dockerignore';
 
+export interface FileEdit {
+  path: string;
+  /** Content before the fix; undefined when the fix creates the file */
+  before?: string;
+  after: string;
+}
+
 export interface Fix {
   description: string;
   type: 'auto' | 'manual';
   apply?: () => Promise<boolean>;
+  /**
+   * Compute the file edits the fix would make, without writing them.
+   * `read` returns a file's current content (undefined if it does not
+   * exist); previews pass one that sees the edits of earlier fixes.
+   */
+  edits?: (read: (path: string) => string | undefined) => Promise<FileEdit[]>;
   instructions?: string;
 }
 
@@ -40,32 +53,97 @@ export interface Check {
   run(context: CheckContext): Promise<CheckResult[]>;
 }
 
+export interface SourceComment {
+  /** Comment text without the leading `#`, trimmed */
+  text: string;
+  line: number;
+  /** True when the comment follows other content on the same line */
+  trailing: boolean;
+}
+
+export interface DockerfileFlag {
+  /** Flag name without the leading `--`, e.g. `mount` */
+  name: string;
+  /** Value after `=`; undefined for boolean flags such as `--link` */
+  value?: string;
+}
+
+export interface DockerfileHeredoc {
+  /** Delimiter word, e.g. `EOF` */
+  name: string;
+  /** Body lines, each terminated by a newline; leading tabs removed for `<<-` */
+  body: string;
+  /** True for `<<-EOF`, which strips leading tabs */
+  chomp: boolean;
+  /** True for `<<"EOF"` / `<<'EOF'`, whose body is not expanded */
+  quoted: boolean;
+  /** Line of the first body line */
+  line: number;
+}
+
 export interface DockerfileInstruction {
+  /** Upper-cased keyword, e.g. `RUN` */
   name: string;
+  /** Arguments after the keyword and its flags, continuation lines joined */
   args: string;
+  /** Leading `--name=value` flags */
+  flags: DockerfileFlag[];
+  /** Arguments of the JSON (exec) form, e.g. `CMD ["node", "server.js"]` */
+  json?: string[];
+  /** Here-documents (`RUN <<EOF`) in the order they appear */
+  heredocs: DockerfileHeredoc[];
+  /** First line of the instruction */
   lineno: number;
+  /** Last line, including continuation lines and heredoc bodies */
+  endLine: number;
+  /** Keyword and arguments as a single line */
   raw: string;
+  /** The instruction exactly as written, across all of its lines */
+  original: string;
+  /**
+   * ARG and ENV variables in scope at this instruction; `undefined` for an
+   * ARG declared without a default or build argument. FROM sees the global
+   * ARGs declared before the first FROM.
+   */
+  vars: Record<string, string | undefined>;
   error?: string;
 }
 
 export interface DockerfileStage {
   name?: string;
   baseImage: string;
+  /**
+   * Base image with ARGs expanded, e.g. `node:20-alpine` for
+   * `node:${NODE_VERSION}-alpine`; undefined when a variable has no value
+   */
+  effectiveBaseImage?: string;
   instructions: DockerfileInstruction[];
   startLine: number;
 }
 
 export interface ParsedDockerfile {
   path: string;
+  /** Parser directives from the top of the file, e.g. `{ syntax: 'docker/dockerfile:1' }` */
+  directives: Record<string, string>;
+  /** Line continuation character: a backslash unless changed with `# escape=` */
+  escape: string;
   stages: DockerfileStage[];
   allInstructions: DockerfileInstruction[];
+  comments: SourceComment[];
   raw: string;
+  /** Build context directory, when the compose service that builds it names one */
+  buildContext?: string;
+  /**
+   * Stages builds stop at: `--target`, or the `build.target` of each compose
+   * service that builds it, where undefined means the last stage
+   */
+  targets?: Array<string | undefined>;
 }
 
 export interface ComposeService {
   name: string;
   image?: string;
-  build?: string | { context?: string; dockerfile?: string; args?: Record<string, string> };
+  build?: string | { context?: string; dockerfile?: string; args?: Record<string, string>; target?: string };
   environment?: Record<string, string> | string[];
   env_file?: string | string[];
   ports?: string[];
@@ -78,19 +156,81 @@ export interface ComposeService {
   [key: string]: unknown;
 }
 
+export interface ComposeVariable {
+  value: string;
+  /** `environment` for the process environment, `env-file` for .env / --env-file */
+  source: 'environment' | 'env-file';
+  /** Env file the value was read from */
+  file?: string;
+}
+
+export interface UnresolvedVariable {
+  name: string;
+  /** Dotted path of the value that references it, e.g. `services.web.image` */
+  path: string;
+  /** True for `${VAR:?message}` / `${VAR?message}` */
+  required: boolean;
+  message?: string;
+}
+
+export interface ComposeLoadIssue {
+  kind: 'include-missing' | 'include-cycle' | 'extends-missing' | 'extends-cycle';
+  /** File containing the reference */
+  file: string;
+  /** Dotted path of the reference, e.g. `include[0]` or `services.web.extends` */
+  path: string;
+  message: string;
+}
+
+export interface ComposeFile {
+  path: string;
+  raw: string;
+  comments: SourceComment[];
+  /**
+   * Line of every mapping key (`services.web.ports`) and sequence item
+   * (`services.web.ports[0]`) in this file
+   */
+  lines: Record<string, number>;
+}
+
 export interface ParsedCompose {
+  /** First (primary) compose file */
   path: string;
+  /** Every compose file merged into this configuration, in order */
+  files: ComposeFile[];
   version?: string;
+  /** Services after variable interpolation */
   services: ComposeService[];
+  /** Services exactly as written, before interpolation */
+  rawServices: ComposeService[];
   networks: Record<string, unknown>;
   volumes: Record<string, unknown>;
+  /**
+   * File each dotted path came from, e.g. `services.web` → the file that
+   * defined the service, `services.web.ports` → the file that last set it
+   */
+  sources: Record<string, string>;
+  /** Variables available for interpolation */
+  variables: Record<string, ComposeVariable>;
+  /** Variable references that could not be resolved */
+  unresolved: UnresolvedVariable[];
+  /** Active profiles (`--profile` or `COMPOSE_PROFILES`) */
+  profiles: string[];
+  /** Services left out of `services` because none of their profiles is active */
+  inactiveServices: string[];
+  /** `include` / `extends` references that could not be resolved */
+  issues: ComposeLoadIssue[];
+  comments: SourceComment[];
   raw: string;
 }
 
 export interface DockerignoreEntry {
+  /** The pattern as written, without the leading `!` */
   pattern: string;
   negation: boolean;
   line: number;
+  /** The cleaned pattern compiled with Docker's matching rules */
+  regex: RegExp;
 }
 
 export interface ParsedDockerignore {
@@ -99,27 +239,82 @@ export interface ParsedDockerignore {
   raw: string;
 }
 
+export interface CheckConfig {
+  enabled?: boolean;
+  severity?: Severity;
+  options?: Record<string, unknown>;
+}
+
+export interface DockerDoctorConfig {
+  path?: string;
+  checks: Record<string, CheckConfig>;
+}
+
 export interface CheckContext {
   cwd: string;
+  config?: DockerDoctorConfig;
+  /** Primary Dockerfile; the first entry of `dockerfiles` */
   dockerfile?: ParsedDockerfile;
+  /**
+   * Every Dockerfile in the project: `Dockerfile`, `Containerfile`,
+   * `Dockerfile.*` and `*.Dockerfile` variants, and those referenced by
+   * compose `build` sections
+   */
+  dockerfiles?: ParsedDockerfile[];
   compose?: ParsedCompose;
   dockerignore?: ParsedDockerignore;
   dockerAvailable: boolean;
   files: {
     dockerfilePath?: string;
+    /** All Dockerfiles in `dockerfiles`, in order */
+    dockerfilePaths?: string[];
     composePath?: string;
+    /** All compose files merged into `compose`, in order */
+    composePaths?: string[];
     dockerignorePath?: string;
     gitattributesPath?: string;
     shellScripts: string[];
   };
 }
 
+export interface ChangeSet {
+  /** Revision the changes are measured from, as passed to `--changed-since` */
+  ref: string;
+  /**
+   * Changed files by absolute path, with their added or modified lines;
+   * `null` for untracked files, where every line counts
+   */
+  files: Map<string, Set<number> | null>;
+}
+
 export interface ReportSummary {
   total: number;
   errors: number;
   warnings: number;
   info: number;
   fixable: number;
+  suppressed: number;
+  baselined: number;
+}
+
+export interface SkippedCheck {
+  id: string;
+  reason: 'docker-unavailable' | 'disabled' | 'changed-files-only';
+}
+
+export interface CheckTiming {
+  id: string;
+  durationMs: number;
+  status: 'ok' | 'failed' | 'timed-out';
+}
+
+export interface ProjectReport {
+  /** Project directory relative to the scan root; `.` for the root itself */
+  path: string;
+  results: CheckResult[];
+  summary: ReportSummary;
+  skipped?: SkippedCheck[];
+  timings?: CheckTiming[];
 }
 
 export interface Report {
@@ -128,13 +323,61 @@ export interface Report {
   dockerAvailable: boolean;
   results: CheckResult[];
   summary: ReportSummary;
+  /** Selected checks that did not run, and why */
+  skipped?: SkippedCheck[];
+  /** Wall-clock time spent in each check that ran */
+  timings?: CheckTiming[];
+  /**
+   * Per-project reports of a `check --recursive` run; `results` and
+   * `summary` above combine them
+   */
+  projects?: ProjectReport[];
 }
 
+export interface BaselineEntry {
+  fingerprint: string;
+  id: string;
+  location?: string;
+  title: string;
+  count: number;
+}
+
+export interface Baseline {
+  version: 1;
+  createdAt: string;
+  entries: BaselineEntry[];
+}
+
+export type OutputFormat = 'text' | 'json' | 'sarif' | 'junit' | 'html';
+
 export interface CliOptions {
   json?: boolean;
+  format?: OutputFormat;
   ci?: boolean;
   fix?: boolean;
   severity?: Severity;
   file?: string;
-  composefile?: string;
+  composefile?: string[];
+  config?: string;
+  baseline?: string;
+  output?: string;
+  envFile?: string[];
+  profile?: string[];
+  concurrency?: number;
+  /** Per-check timeout in seconds */
+  checkTimeout?: number;
+  /** `--build-arg KEY=VAL` values for Dockerfile ARGs */
+  buildArgs?: Record<string, string>;
+  /** `--target` build stage */
+  target?: string;
+  /** Check every Docker project below a root directory */
+  recursive?: boolean;
+  /** Only check files changed since this git revision */
+  changedSince?: string;
+  /** With `changedSince`, only report findings on changed lines */
+  diffLines?: boolean;
+  /** With `fix`, show the changes instead of writing them */
+  dryRun?: boolean;
+  /** With `dryRun`, write the changes to this patch file */
+  patch?: string;
 }
@@ -22,15 +22,21 @@ export async function showUpdateNotice(): Promise<void> {
 
 export function showContext(ctx: {
   dockerfilePath?: string;
+  dockerfilePaths?: string[];
   composePath?: string;
+  composePaths?: string[];
   dockerignorePath?: string;
   dockerAvailable: boolean;
 }): void {
   const lines: string[] = [];
-  if (ctx.dockerfilePath) lines.push(`${chalk.green('+')} Dockerfile: ${ctx.dockerfilePath}`);
+  if (ctx.dockerfilePaths && ctx.dockerfilePaths.length > 1)
+    lines.push(`${chalk.green('+')} Dockerfiles: ${ctx.dockerfilePaths.join(chalk.dim(', '))}`);
+  else if (ctx.dockerfilePath) lines.push(`${chalk.green('+')} Dockerfile: ${ctx.dockerfilePath}`);
   else lines.push(`${chalk.yellow('-')} No Dockerfile found`);
 
-  if (ctx.composePath) lines.push(`${chalk.green('+')} Compose: ${ctx.composePath}`);
+  if (ctx.composePaths && ctx.composePaths.length > 1)
+    lines.push(`${chalk.green('+')} Compose: ${ctx.composePaths.join(chalk.dim(' + '))}`);
+  else if (ctx.composePath) lines.push(`${chalk.green('+')} Compose: ${ctx.composePath}`);
   else lines.push(`${chalk.dim('-')} No compose file found`);
 
   if (ctx.dockerignorePath) lines.push(`${chalk.green('+')} .dockerignore found`);
@@ -0,0 +1,22 @@
+import chalk from 'chalk';
+
+/**
+ * Colour a unified diff for the terminal. Carriage returns are shown as
+ * `^M`, so a CRLF → LF fix doesn't look like it changes nothing.
+ */
+export function colorDiff(patch: string): string {
+  return patch
+    .replace(/\n$/, '')
+    .split('\n')
+    .map((line) => {
+      const shown = line.replace(/\r/g, chalk.dim('^M'));
+      if (line.startsWith('+++ ') || line.startsWith('--- ')) return chalk.bold(shown);
+      if (line.startsWith('@@')) return chalk.cyan(shown);
+      if (line.startsWith('+')) return chalk.green(shown);
+      if (line.startsWith('-')) return chalk.red(shown);
+      if (line.startsWith('\\')) return chalk.dim(shown);
+      return shown;
+    })
+    .map((line) => `    ${line}`)
+    .join('\n');
+}
@@ -0,0 +1,59 @@
+/**
+ * Lightweight YAML/code highlighting for fix instructions, shared by the
+ * terminal reporter (ANSI colors) and the HTML report (CSS classes).
+ */
+export interface HighlightStyle {
+  key: (s: string) => string;
+  punctuation: (s: string) => string;
+  string: (s: string) => string;
+  literal: (s: string) => string;
+  comment: (s: string) => string;
+  /** Unhighlighted text, e.g. for HTML escaping */
+  plain: (s: string) => string;
+}
+
+function highlightYamlValue(value: string, style: HighlightStyle): string {
+  const v = value.trim();
+  if (!v) return style.plain(value);
+  if (/^["'].*["']$/.test(v)) return style.string(value);
+  if (/^\d+(\.\d+)?(s|m|ms|h|d|g|mb|gb|k|kb)?$/i.test(v)) return style.literal(value);
+  if (/^(true|false)$/i.test(v)) return style.literal(value);
+  if (/^\[.*\]$/.test(v)) return style.string(value);
+  return style.plain(value);
+}
+
+export function highlightYaml(line: string, style: HighlightStyle): string {
+  if (/^\s*#/.test(line)) return style.comment(line);
+  const kvMatch = line.match(/^(\s*)([\w.-]+)(\s*:\s*)(.*)/);
+  if (kvMatch) {
+    const [, indent, key, colon, val] = kvMatch;
+    return `${style.plain(indent)}${style.key(key)}${style.punctuation(colon)}${highlightYamlValue(val, style)}`;
+  }
+  const listMatch = line.match(/^(\s*-\s+)(.*)/);
+  if (listMatch) {
+    const [, dash, val] = listMatch;
+    return `${style.punctuation(dash)}${highlightYamlValue(val, style)}`;
+  }
+  return style.plain(line);
+}
+
+/**
+ * Highlight fix instructions line by line. Code fence markers are dropped;
+ * fenced and indented lines are highlighted as YAML, prose is left as is.
+ */
+export function highlightInstructions(text: string, style: HighlightStyle): string[] {
+  const output: string[] = [];
+  let inFence = false;
+  for (const raw of text.split('\n')) {
+    if (/^\s*```/.test(raw)) {
+      inFence = !inFence;
+      continue; // Skip fence markers
+    }
+    if (!raw.trim()) {
+      output.push('');
+    } else {
+      output.push(inFence || /^\s/.test(raw) ? highlightYaml(raw, style) : style.plain(raw));
+    }
+  }
+  return output;
+}
@@ -1,6 +1,49 @@
+import { writeFileSync } from 'node:fs';
+import { resolve } from 'node:path';
 import * as p from '@clack/prompts';
 import chalk from 'chalk';
-import type { CheckResult, Fix } from '../types/index.js';
+import type { CheckResult, FileEdit, Fix } from '../types/index.js';
+import { applyFixes, previewFixes, readCurrent } from '../fixes.js';
+import { createPatch } from '../diff.js';
+import { colorDiff } from './diff.js';
+
+/** Show the diff of a fix's edits; false when they change nothing. */
+function showEdits(edits: FileEdit[]): boolean {
+  const patch = createPatch(edits, process.cwd());
+  if (!patch) return false;
+  console.log();
+  console.log(colorDiff(patch));
+  console.log();
+  return true;
+}
+
+/** Overlay of the edits accepted so far, so each diff shows what that fix adds. */
+function pendingReader(): { read: (path: string) => string | undefined; accept: (edits: FileEdit[]) => void } {
+  const pending = new Map<string, string>();
+  return {
+    read: (path) => (pending.has(path) ? pending.get(path) : readCurrent(path)),
+    accept: (edits) => {
+      for (const edit of edits) pending.set(edit.path, edit.after);
+    },
+  };
+}
+
+/** Apply the chosen fixes as one transaction and report each outcome. */
+async function applyChosen(fixes: Fix[]): Promise<number> {
+  if (fixes.length === 0) return 0;
+  const { applied, failed, rolledBack } = await applyFixes(fixes, process.cwd());
+
+  for (const fix of applied) {
+    console.log(`  ${chalk.green('Fixed!')} ${fix.description}`);
+  }
+  for (const { fix, error } of failed) {
+    console.log(`  ${chalk.red('Fix failed:')} ${fix.description} ${chalk.dim(`(${error})`)}`);
+  }
+  if (rolledBack) {
+    console.log(`  ${chalk.yellow('Rolled back:')} no files were changed. Try the manual approach.`);
+  }
+  return applied.length;
+}
 
 export async function promptFixes(results: CheckResult[]): Promise<number> {
   const fixableResults = results.filter((r) => r.fixes.length > 0);
@@ -12,7 +55,8 @@ export async function promptFixes(results: CheckResult[]): Promise<number> {
 
   if (p.isCancel(shouldFix) || !shouldFix) return 0;
 
-  let applied = 0;
+  const chosen: Fix[] = [];
+  const { read, accept } = pendingReader();
 
   for (const result of fixableResults) {
     console.log();
@@ -29,46 +73,83 @@ export async function promptFixes(results: CheckResult[]): Promise<number> {
         continue;
       }
 
-      if (fix.type === 'auto' && fix.apply) {
-        const confirm = await p.confirm({
-          message: `Apply fix: ${fix.description}?`,
-        });
-
-        if (p.isCancel(confirm) || !confirm) continue;
-
+      if (fix.type === 'auto' && (fix.edits || fix.apply)) {
+        let edits: FileEdit[] | undefined;
         try {
-          const success = await fix.apply();
-          if (success) {
-            console.log(`  ${chalk.green('Fixed!')} ${fix.description}`);
-            applied++;
-          } else {
-            console.log(`  ${chalk.red('Fix failed.')} Try the manual approach.`);
-          }
+          edits = fix.edits ? await fix.edits(read) : undefined;
         } catch (err) {
           console.log(
             `  ${chalk.red('Fix errored:')} ${err instanceof Error ? err.message : String(err)}`,
           );
+          continue;
+        }
+        if (edits && !showEdits(edits)) {
+          console.log(`  ${chalk.dim('Nothing to change:')} ${fix.description}`);
+          continue;
         }
+
+        const confirm = await p.confirm({
+          message: `Apply fix: ${fix.description}?`,
+        });
+
+        if (p.isCancel(confirm) || !confirm) continue;
+        chosen.push(fix);
+        if (edits) accept(edits);
       }
     }
   }
 
-  return applied;
+  console.log();
+  return applyChosen(chosen);
 }
 
 export async function autoApplyFixes(results: CheckResult[]): Promise<number> {
-  let applied = 0;
-  for (const result of results) {
-    for (const fix of result.fixes) {
-      if (fix.type === 'auto' && fix.apply) {
-        try {
-          const success = await fix.apply();
-          if (success) applied++;
-        } catch {
-          // Silently skip failed auto-fixes in CI mode
-        }
-      }
+  return applyAutoFixes(results.flatMap((r) => r.fixes));
+}
+
+/** Show the diff of each auto fix, then apply them all as one transaction. */
+export async function applyAutoFixes(fixes: Fix[]): Promise<number> {
+  const chosen: Fix[] = [];
+  const { read, accept } = pendingReader();
+  for (const fix of fixes) {
+    if (fix.type !== 'auto') continue;
+    if (fix.edits) {
+      // A fix whose edits throw stays in, so the transaction reports it
+      const edits = await fix.edits(read).catch(() => undefined);
+      if (edits && !showEdits(edits)) continue;
+      if (edits) accept(edits);
     }
+    chosen.push(fix);
+  }
+  return applyChosen(chosen);
+}
+
+/**
+ * `--fix --dry-run`: show the combined diff of every auto fix without
+ * touching the tree, or write it to `patchPath`. Returns the number of
+ * files that would change; throws if the patch can't be written.
+ */
+export async function previewAllFixes(results: CheckResult[], patchPath?: string): Promise<number> {
+  const fixes = results.flatMap((r) => r.fixes.filter((f) => f.type === 'auto'));
+  const { edits, unsupported, failed } = await previewFixes(fixes);
+  const patch = createPatch(edits, process.cwd());
+
+  if (patchPath) {
+    const outputPath = resolve(process.cwd(), patchPath);
+    writeFileSync(outputPath, patch, 'utf-8');
+    console.error(`Patch written to ${outputPath}`);
+  } else if (patch) {
+    console.log();
+    console.log(colorDiff(patch));
+    console.log();
+  }
+
+  if (unsupported.length > 0) {
+    const count = unsupported.length;
+    console.error(chalk.dim(`  ${count} fix${count > 1 ? 'es' : ''} can't be previewed and ${count > 1 ? 'were' : 'was'} left out`));
+  }
+  for (const fix of failed) {
+    console.error(`  ${chalk.red('Fix errored:')} ${fix.description}`);
   }
-  return applied;
+  return edits.length;
 }
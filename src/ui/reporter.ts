@@ -2,6 +2,7 @@ import * as p from '@clack/prompts';
 import chalk from 'chalk';
 import type { CheckResult, Report, Severity } from '../types/index.js';
 import { copyToClipboard, extractCodeBlocks } from './clipboard.js';
+import { highlightInstructions, type HighlightStyle } from './highlight.js';
 
 const SEVERITY_ICONS: Record<Severity, string> = {
   error: chalk.red('x'),
@@ -76,7 +77,7 @@ export function printResults(results: CheckResult[]): void {
   }
 }
 
-export function printSummary(report: Report): void {
+export function printSummary(report: Pick<Report, 'summary'>): void {
   const { summary } = report;
   const parts: string[] = [];
 
@@ -93,6 +94,13 @@ export function printSummary(report: Report): void {
         (summary.fixable > 0 ? ` — ${chalk.green(`${summary.fixable} fixable`)}` : ''),
     );
   }
+
+  if (summary.suppressed > 0) {
+    console.log(chalk.dim(`  ${summary.suppressed} suppressed by dockerdoctor-ignore comments`));
+  }
+  if (summary.baselined > 0) {
+    console.log(chalk.dim(`  ${summary.baselined} known issue${summary.baselined > 1 ? 's' : ''} hidden by the baseline`));
+  }
 }
 
 /**
@@ -243,47 +251,19 @@ async function browseCategory(
 
 // ── YAML / code highlighting ────────────────────────────────────────────────
 
-function highlightYamlValue(value: string): string {
-  const v = value.trim();
-  if (!v) return value;
-  if (/^["'].*["']$/.test(v)) return chalk.green(value);
-  if (/^\d+(\.\d+)?(s|m|ms|h|d|g|mb|gb|k|kb)?$/i.test(v)) return chalk.yellow(value);
-  if (/^(true|false)$/i.test(v)) return chalk.yellow(value);
-  if (/^\[.*\]$/.test(v)) return chalk.green(value);
-  return value;
-}
-
-function highlightYaml(line: string): string {
-  if (/^\s*#/.test(line)) return chalk.dim(line);
-  const kvMatch = line.match(/^(\s*)([\w.-]+)(\s*:\s*)(.*)/);
-  if (kvMatch) {
-    const [, indent, key, colon, val] = kvMatch;
-    return `${indent}${chalk.cyan(key)}${chalk.dim(colon)}${highlightYamlValue(val)}`;
-  }
-  const listMatch = line.match(/^(\s*-\s+)(.*)/);
-  if (listMatch) {
-    const [, dash, val] = listMatch;
-    return `${chalk.dim(dash)}${highlightYamlValue(val)}`;
-  }
-  return line;
-}
+const ANSI_STYLE: HighlightStyle = {
+  key: chalk.cyan,
+  punctuation: chalk.dim,
+  string: chalk.green,
+  literal: chalk.yellow,
+  comment: chalk.dim,
+  plain: (s) => s,
+};
 
 function formatInstructions(text: string): string {
-  const output: string[] = [];
-  let inFence = false;
-  for (const raw of text.split('\n')) {
-    if (/^\s*```/.test(raw)) {
-      inFence = !inFence;
-      continue; // Skip fence markers
-    }
-    if (!raw.trim()) {
-      output.push('');
-    } else {
-      const highlighted = (inFence || /^\s/.test(raw)) ? highlightYaml(raw) : raw;
-      output.push(`    ${highlighted}`);
-    }
-  }
-  return output.join('\n');
+  return highlightInstructions(text, ANSI_STYLE)
+    .map((line) => (line ? `    ${line}` : ''))
+    .join('\n');
 }
 
 /**
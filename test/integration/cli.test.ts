@@ -1,7 +1,8 @@
 import { describe, it, expect } from 'vitest';
-import { execSync } from 'node:child_process';
-import { readFileSync } from 'node:fs';
+import { execFileSync, execSync } from 'node:child_process';
+import { copyFileSync, existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
 import { join } from 'node:path';
+import { tmpdir } from 'node:os';
 
 const CLI = join(import.meta.dirname, '..', '..', 'dist', 'bin', 'cli.js');
 const FIXTURES = join(import.meta.dirname, '..', 'fixtures');
@@ -95,6 +96,165 @@ describe('CLI integration', () => {
     }
   });
 
+  it('--build-arg changes the effective base image', () => {
+    const argsFile = join(FIXTURES, 'dockerfiles', 'args.Dockerfile');
+    const latestIds = (args: string) =>
+      JSON.parse(run(`dockerfile --json -f ${argsFile} ${args}`).stdout)
+        .results.map((r: { id: string }) => r.id)
+        .filter((id: string) => id === 'dockerfile.base-image-latest');
+
+    expect(latestIds('')).toEqual([]);
+    expect(latestIds('--build-arg NODE_TAG=latest')).toEqual(['dockerfile.base-image-latest']);
+  });
+
+  it('check --recursive reports every project not excluded by .gitignore', () => {
+    const root = mkdtempSync(join(tmpdir(), 'dockerdoctor-mono-'));
+    try {
+      for (const project of ['apps/api', 'apps/web', 'ignored']) mkdirSync(join(root, project), { recursive: true });
+      copyFileSync(join(FIXTURES, 'dockerfiles', 'bad.Dockerfile'), join(root, 'apps', 'api', 'Dockerfile'));
+      copyFileSync(join(FIXTURES, 'dockerfiles', 'good.Dockerfile'), join(root, 'apps', 'web', 'Dockerfile'));
+      copyFileSync(join(FIXTURES, 'dockerfiles', 'bad.Dockerfile'), join(root, 'ignored', 'Dockerfile'));
+      writeFileSync(join(root, '.gitignore'), 'ignored/\n');
+
+      const { stdout, exitCode } = run(`check --recursive --json ${root}`);
+      const report = JSON.parse(stdout);
+      const api = report.projects.find((p: { path: string }) => p.path === join('apps', 'api'));
+
+      expect(exitCode).toBe(1);
+      expect(report.projects.map((p: { path: string }) => p.path)).toEqual([join('apps', 'api'), join('apps', 'web')]);
+      expect(api.summary.errors).toBeGreaterThan(0);
+      expect(report.summary.total).toBe(
+        report.projects.reduce((n: number, p: { summary: { total: number } }) => n + p.summary.total, 0),
+      );
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  it('--recursive resolves a relative --config from where it runs', () => {
+    const root = mkdtempSync(join(tmpdir(), 'dockerdoctor-mono-config-'));
+    try {
+      for (const project of ['a', 'b']) {
+        mkdirSync(join(root, project));
+        copyFileSync(join(FIXTURES, 'dockerfiles', 'bad.Dockerfile'), join(root, project, 'Dockerfile'));
+      }
+      writeFileSync(join(root, 'rc.json'), JSON.stringify({ checks: { 'dockerfile.*': 'off' } }));
+
+      const { stdout, exitCode } = run('check -r --json --config rc.json .', { cwd: root });
+      const report = JSON.parse(stdout);
+
+      expect(exitCode).not.toBe(2);
+      expect(report.projects.map((p: { path: string }) => p.path)).toEqual(['a', 'b']);
+      expect(report.results.filter((r: { category: string }) => r.category === 'dockerfile')).toEqual([]);
+      expect(run('baseline create -r --config rc.json', { cwd: root }).exitCode).toBe(0);
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  it('check rejects a root directory without --recursive', () => {
+    expect(run('check --json .').exitCode).toBe(2);
+  });
+
+  it('--changed-since only reports findings in changed files', () => {
+    const repo = mkdtempSync(join(tmpdir(), 'dockerdoctor-diff-'));
+    const git = (...args: string[]) =>
+      execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], {
+        cwd: repo,
+        stdio: 'ignore',
+      });
+    try {
+      git('init', '-q');
+      copyFileSync(join(FIXTURES, 'dockerfiles', 'bad.Dockerfile'), join(repo, 'Dockerfile'));
+      copyFileSync(join(FIXTURES, 'dockerfiles', 'bad.Dockerfile'), join(repo, 'worker.Dockerfile'));
+      git('add', '-A');
+      git('commit', '-qm', 'initial');
+      writeFileSync(join(repo, 'worker.Dockerfile'), readFileSync(join(repo, 'worker.Dockerfile'), 'utf-8') + 'EXPOSE 8080\n');
+
+      const locations = (args: string) =>
+        new Set(JSON.parse(run(`dockerfile --json ${args}`, { cwd: repo }).stdout).results.map((r: { location?: string }) => r.location));
+
+      expect(locations('').size).toBe(2);
+      expect([...locations('--changed-since HEAD')]).toEqual([join(repo, 'worker.Dockerfile')]);
+      expect(locations('--changed-since HEAD --diff-lines').size).toBe(0);
+      expect(run('dockerfile --json --changed-since no-such-ref', { cwd: repo }).exitCode).toBe(2);
+    } finally {
+      rmSync(repo, { recursive: true, force: true });
+    }
+  });
+
+  it('--fix --dry-run writes a patch without touching the project', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'dockerdoctor-dry-'));
+    try {
+      copyFileSync(join(FIXTURES, 'dockerfiles', 'good.Dockerfile'), join(dir, 'Dockerfile'));
+
+      const { exitCode } = run('check --fix --dry-run --patch fixes.patch', { cwd: dir });
+
+      expect(exitCode).toBe(0);
+      expect(existsSync(join(dir, '.dockerignore'))).toBe(false);
+      expect(readFileSync(join(dir, 'fixes.patch'), 'utf-8')).toContain('--- /dev/null\n+++ b/.dockerignore\n');
+      expect(run('check --dry-run', { cwd: dir }).exitCode).toBe(2);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('-o picks the report format from the file extension', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'dockerdoctor-output-'));
+    try {
+      copyFileSync(join(FIXTURES, 'dockerfiles', 'good.Dockerfile'), join(dir, 'Dockerfile'));
+
+      run('dockerfile -o report.html', { cwd: dir });
+      run('dockerfile -o results.sarif', { cwd: dir });
+      run('dockerfile -o results.xml', { cwd: dir });
+      run('dockerfile --format json -o report.htm', { cwd: dir });
+
+      expect(readFileSync(join(dir, 'report.html'), 'utf-8')).toMatch(/^<!DOCTYPE html>/i);
+      expect(JSON.parse(readFileSync(join(dir, 'results.sarif'), 'utf-8')).version).toBe('2.1.0');
+      expect(readFileSync(join(dir, 'results.xml'), 'utf-8')).toContain('<testsuites');
+      expect(JSON.parse(readFileSync(join(dir, 'report.htm'), 'utf-8'))).toHaveProperty('results');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('fix --undo restores the files the last fix run changed', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'dockerdoctor-undo-'));
+    try {
+      copyFileSync(join(FIXTURES, 'dockerfiles', 'good.Dockerfile'), join(dir, 'Dockerfile'));
+
+      run('fix', { cwd: dir });
+      expect(existsSync(join(dir, '.dockerignore'))).toBe(true);
+
+      const { stdout, exitCode } = run('fix --undo', { cwd: dir });
+      expect(exitCode).toBe(0);
+      expect(stdout).toContain('Undid the last fix run');
+      expect(existsSync(join(dir, '.dockerignore'))).toBe(false);
+      expect(run('fix --undo', { cwd: dir }).exitCode).toBe(2);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('context --json lists the files left after .dockerignore', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'dockerdoctor-context-'));
+    try {
+      mkdirSync(join(dir, 'node_modules', 'pkg'), { recursive: true });
+      mkdirSync(join(dir, 'src'));
+      writeFileSync(join(dir, 'node_modules', 'pkg', 'index.js'), 'module.exports = 1;\n');
+      writeFileSync(join(dir, 'src', 'server.js'), 'console.log("hi");\n');
+      writeFileSync(join(dir, '.dockerignore'), '**/node_modules\n');
+
+      const { stdout, exitCode } = run('context --json', { cwd: dir });
+      expect(exitCode).toBe(0);
+      const listing = JSON.parse(stdout);
+      expect(listing.files.map((f: { path: string }) => f.path)).toEqual(['.dockerignore', 'src/server.js']);
+      expect(listing.directories).toEqual([{ path: 'src', size: 19 }]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
   it('--severity error filters out warnings and info', () => {
     const badFile = join(FIXTURES, 'dockerfiles', 'bad.Dockerfile');
     const composeFile = join(FIXTURES, 'compose', 'bad-compose.yml');
@@ -0,0 +1,195 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync, readFileSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+  fingerprintResults,
+  createBaseline,
+  loadBaseline,
+  partitionByBaseline,
+  BaselineError,
+} from '../../src/baseline.js';
+import { runChecks } from '../../src/runner.js';
+import { parseDockerfile } from '../../src/parsers/dockerfile.js';
+import type { CheckContext, CheckResult, Report } from '../../src/types/index.js';
+
+// Side-effect import to register the static checks used below
+import '../../src/checks/dockerfile/index.js';
+
+function makeResult(overrides: Partial<CheckResult> = {}): CheckResult {
+  return {
+    id: 'dockerfile.npm-install',
+    title: 'Using npm install instead of npm ci',
+    severity: 'warning',
+    category: 'dockerfile',
+    message: 'Test',
+    fixes: [],
+    ...overrides,
+  };
+}
+
+function makeReport(results: CheckResult[]): Report {
+  return {
+    timestamp: '2026-01-01T00:00:00.000Z',
+    version: '0.0.0',
+    dockerAvailable: false,
+    results,
+    summary: {
+      total: results.length,
+      errors: 0,
+      warnings: results.length,
+      info: 0,
+      fixable: 0,
+      suppressed: 0,
+      baselined: 0,
+    },
+  };
+}
+
+describe('baseline', () => {
+  const tempDirs: string[] = [];
+
+  function createTempDir(): string {
+    const dir = mkdtempSync(join(tmpdir(), 'dockerdoctor-baseline-'));
+    tempDirs.push(dir);
+    return dir;
+  }
+
+  afterEach(() => {
+    for (const dir of tempDirs) {
+      try {
+        rmSync(dir, { recursive: true, force: true });
+      } catch {
+        // ignore cleanup errors
+      }
+    }
+    tempDirs.length = 0;
+  });
+
+  describe('fingerprintResults()', () => {
+    it('should survive the finding moving to a different line', () => {
+      const dir = createTempDir();
+      const path = join(dir, 'Dockerfile');
+
+      writeFileSync(path, 'FROM node:20\nRUN npm install\n');
+      const [before] = fingerprintResults([makeResult({ location: path, line: 2 })], dir);
+
+      writeFileSync(path, 'FROM node:20\nWORKDIR /app\n\nRUN   npm install\n');
+      const [after] = fingerprintResults([makeResult({ location: path, line: 4 })], dir);
+
+      expect(after).toBe(before);
+    });
+
+    it('should differ for different checks, files or content', () => {
+      const dir = createTempDir();
+      writeFileSync(join(dir, 'Dockerfile'), 'RUN npm install\nRUN npm install --production\n');
+      writeFileSync(join(dir, 'Dockerfile.dev'), 'RUN npm install\n');
+
+      const prints = fingerprintResults(
+        [
+          makeResult({ location: join(dir, 'Dockerfile'), line: 1 }),
+          makeResult({ location: join(dir, 'Dockerfile'), line: 2 }),
+          makeResult({ location: join(dir, 'Dockerfile.dev'), line: 1 }),
+          makeResult({ id: 'other.check', location: join(dir, 'Dockerfile'), line: 1 }),
+        ],
+        dir,
+      );
+
+      expect(new Set(prints).size).toBe(4);
+    });
+
+    it('should not depend on the absolute project path', () => {
+      const a = createTempDir();
+      const b = createTempDir();
+      writeFileSync(join(a, 'Dockerfile'), 'RUN npm install\n');
+      writeFileSync(join(b, 'Dockerfile'), 'RUN npm install\n');
+
+      const [fa] = fingerprintResults([makeResult({ location: join(a, 'Dockerfile'), line: 1 })], a);
+      const [fb] = fingerprintResults([makeResult({ location: join(b, 'Dockerfile'), line: 1 })], b);
+
+      expect(fa).toBe(fb);
+    });
+
+    it('should fall back to the title for results without a line', () => {
+      const [a, b] = fingerprintResults(
+        [makeResult({ title: 'Image exceeds 1 GB' }), makeResult({ title: 'Image exceeds 2 GB' })],
+        '/test',
+      );
+      expect(a).not.toBe(b);
+    });
+  });
+
+  describe('createBaseline()', () => {
+    it('should group identical findings with a count', () => {
+      const results = [makeResult({ title: 'Same' }), makeResult({ title: 'Same' }), makeResult({ title: 'Other' })];
+      const baseline = createBaseline(makeReport(results), '/test');
+
+      expect(baseline.version).toBe(1);
+      expect(baseline.entries).toHaveLength(2);
+      expect(baseline.entries[0].count).toBe(2);
+      expect(baseline.entries[1].count).toBe(1);
+    });
+  });
+
+  describe('partitionByBaseline()', () => {
+    it('should only report occurrences beyond the recorded count as new', () => {
+      const baseline = createBaseline(makeReport([makeResult({ title: 'Same' })]), '/test');
+      const { known, fresh } = partitionByBaseline(
+        [makeResult({ title: 'Same' }), makeResult({ title: 'Same' }), makeResult({ title: 'New' })],
+        baseline,
+        '/test',
+      );
+
+      expect(known).toHaveLength(1);
+      expect(fresh.map((r) => r.title)).toEqual(['Same', 'New']);
+    });
+  });
+
+  describe('loadBaseline()', () => {
+    it('should round-trip a written baseline', () => {
+      const dir = createTempDir();
+      const path = join(dir, '.dockerdoctor-baseline.json');
+      const baseline = createBaseline(makeReport([makeResult()]), dir);
+      writeFileSync(path, JSON.stringify(baseline));
+
+      expect(loadBaseline(path)).toEqual(JSON.parse(JSON.stringify(baseline)));
+    });
+
+    it('should throw BaselineError for invalid content', () => {
+      const dir = createTempDir();
+      const path = join(dir, 'baseline.json');
+      writeFileSync(path, '{"entries": "nope"}');
+      expect(() => loadBaseline(path)).toThrow(BaselineError);
+
+      writeFileSync(path, 'not json');
+      expect(() => loadBaseline(path)).toThrow(BaselineError);
+    });
+  });
+
+  describe('runChecks() with a baseline', () => {
+    it('should hide known findings and count them in the summary', async () => {
+      const dir = createTempDir();
+      const path = join(dir, 'Dockerfile');
+      writeFileSync(path, 'FROM node:20\nRUN npm install\nCMD node index.js\n');
+
+      const makeContext = (): CheckContext => ({
+        cwd: dir,
+        // Re-read on every call so the second run sees the edited file
+        dockerfile: parseDockerfile(readFileSync(path, 'utf-8'), path),
+        dockerAvailable: false,
+        files: { dockerfilePath: path, shellScripts: [] },
+      });
+
+      const first = await runChecks(makeContext(), { categories: ['dockerfile'] });
+      const baseline = createBaseline(first, dir);
+
+      // Shift everything down and add a new problem
+      writeFileSync(path, 'FROM node:latest\n\nRUN npm install\nCMD node index.js\n');
+      const second = await runChecks(makeContext(), { categories: ['dockerfile'], baseline });
+
+      expect(second.summary.baselined).toBe(first.results.length);
+      expect(second.results.map((r) => r.id)).toEqual(['dockerfile.base-image-latest']);
+      expect(second.summary.total).toBe(1);
+    });
+  });
+});
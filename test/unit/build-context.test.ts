@@ -0,0 +1,87 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync, symlinkSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { listBuildContext } from '../../src/build-context.js';
+import { parseDockerignore } from '../../src/parsers/dockerignore.js';
+
+describe('listBuildContext', () => {
+  const tempDirs: string[] = [];
+
+  afterEach(() => {
+    for (const dir of tempDirs) rmSync(dir, { recursive: true, force: true });
+    tempDirs.length = 0;
+  });
+
+  function createContext(files: Record<string, string>): string {
+    const dir = mkdtempSync(join(tmpdir(), 'dockerdoctor-context-'));
+    tempDirs.push(dir);
+    for (const [path, content] of Object.entries(files)) {
+      mkdirSync(join(dir, path, '..'), { recursive: true });
+      writeFileSync(join(dir, path), content);
+    }
+    return dir;
+  }
+
+  it('lists every file with its size when there is no .dockerignore', async () => {
+    const dir = createContext({ 'Dockerfile': 'FROM node:20\n', 'src/index.js': 'x'.repeat(100) });
+
+    const listing = await listBuildContext(dir);
+
+    expect(listing.files).toEqual([
+      { path: 'Dockerfile', size: 13 },
+      { path: 'src/index.js', size: 100 },
+    ]);
+    expect(listing.totalBytes).toBe(113);
+    expect(listing.directories).toEqual([{ path: 'src', size: 100 }]);
+  });
+
+  it('leaves out what the .dockerignore in the context excludes', async () => {
+    const dir = createContext({
+      '.dockerignore': 'node_modules\n*.log\n',
+      'app.js': 'x',
+      'debug.log': 'x'.repeat(50),
+      'node_modules/pkg/index.js': 'x'.repeat(500),
+    });
+
+    const listing = await listBuildContext(dir);
+
+    expect(listing.files.map((f) => f.path)).toEqual(['.dockerignore', 'app.js']);
+    expect(listing.directories).toEqual([]);
+  });
+
+  it('walks into excluded directories when a negation can re-include files', async () => {
+    const dir = createContext({ 'docs/api.md': 'api', 'docs/guide.md': 'guide' });
+    const entries = parseDockerignore('docs\n!docs/api.md\n', join(dir, '.dockerignore')).entries;
+
+    const listing = await listBuildContext(dir, entries);
+
+    expect(listing.files).toEqual([{ path: 'docs/api.md', size: 3 }]);
+  });
+
+  it('orders directories by the bytes they send, counting nested files', async () => {
+    const dir = createContext({
+      'small/a.txt': 'x'.repeat(10),
+      'big/one/a.bin': 'x'.repeat(300),
+      'big/two/b.bin': 'x'.repeat(200),
+    });
+
+    const listing = await listBuildContext(dir);
+
+    expect(listing.directories.map((d) => [d.path, d.size])).toEqual([
+      ['big', 500],
+      ['big/one', 300],
+      ['big/two', 200],
+      ['small', 10],
+    ]);
+  });
+
+  it('sends symlinks as links without following them', async () => {
+    const dir = createContext({ 'target/data.bin': 'x'.repeat(1000), '.dockerignore': 'target\n' });
+    symlinkSync('target', join(dir, 'link'));
+
+    const listing = await listBuildContext(dir);
+
+    expect(listing.files.map((f) => f.path)).toEqual(['.dockerignore', 'link']);
+  });
+});
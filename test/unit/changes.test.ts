@@ -0,0 +1,168 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { execFileSync } from 'node:child_process';
+import { mkdtempSync, writeFileSync, rmSync, mkdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { parseUnifiedDiff, loadChanges, restrictToChanges, isChangedResult, GitError } from '../../src/changes.js';
+import { parseDockerfile } from '../../src/parsers/dockerfile.js';
+import type { ChangeSet, CheckContext, CheckResult } from '../../src/types/index.js';
+
+const DIFF = `diff --git a/Dockerfile b/Dockerfile
+index 1111111..2222222 100644
+--- a/Dockerfile
++++ b/Dockerfile
+@@ -2 +2,2 @@ FROM node:20
+-RUN npm install
++RUN npm ci
++USER node
+@@ -10,0 +12 @@ CMD ["node", "server.js"]
++EXPOSE 3000
+diff --git a/old.sh b/old.sh
+deleted file mode 100644
+--- a/old.sh
++++ /dev/null
+@@ -1 +0,0 @@
+-echo old
+diff --git a/compose.yml b/compose.yml
+--- a/compose.yml
++++ b/compose.yml
+@@ -4 +3,0 @@ services:
+-    privileged: true
+diff --git "a/my app/run.sh" "b/my app/run.sh"
+--- "a/my app/run.sh"
++++ "b/my app/run.sh"
+@@ -1,0 +1,3 @@
++#!/bin/sh
++set -e
++exec node server.js
+`;
+
+describe('parseUnifiedDiff', () => {
+  it('collects added and modified lines per file', () => {
+    const files = parseUnifiedDiff(DIFF);
+
+    expect([...files.keys()]).toEqual(['Dockerfile', 'compose.yml', 'my app/run.sh']);
+    expect([...files.get('Dockerfile')!]).toEqual([2, 3, 12]);
+    expect([...files.get('my app/run.sh')!]).toEqual([1, 2, 3]);
+  });
+
+  it('keeps files with only deletions, with no changed lines', () => {
+    expect(parseUnifiedDiff(DIFF).get('compose.yml')!.size).toBe(0);
+  });
+
+  it('reads hunk lines that look like file headers as content', () => {
+    const diff = [
+      'diff --git a/notes.md b/notes.md',
+      '--- a/notes.md',
+      '+++ b/notes.md',
+      '@@ -1 +1,2 @@',
+      '--- old',
+      '+++ new',
+      '++ also new',
+      '@@ -5,0 +7 @@',
+      '+end',
+      '',
+    ].join('\n');
+    const files = parseUnifiedDiff(diff);
+
+    expect([...files.keys()]).toEqual(['notes.md']);
+    expect([...files.get('notes.md')!]).toEqual([1, 2, 7]);
+  });
+});
+
+function result(location: string | undefined, line?: number): CheckResult {
+  return { id: 'test', title: 'Test', severity: 'warning', category: 'dockerfile', message: '', location, line, fixes: [] };
+}
+
+describe('restrictToChanges / isChangedResult', () => {
+  const api = parseDockerfile('FROM node:20\nRUN apt-get update && \\\n    apt-get install -y curl\n', '/repo/api/Dockerfile');
+  const web = parseDockerfile('FROM nginx\n', '/repo/web/Dockerfile');
+  const context: CheckContext = {
+    cwd: '/repo',
+    dockerfile: api,
+    dockerfiles: [api, web],
+    dockerAvailable: false,
+    files: { shellScripts: ['/repo/entrypoint.sh', '/repo/scripts/build.sh'] },
+  };
+  const changes: ChangeSet = {
+    ref: 'main',
+    files: new Map([
+      ['/repo/api/Dockerfile', new Set([3])],
+      ['/repo/scripts/build.sh', null],
+    ]),
+  };
+
+  it('keeps only changed Dockerfiles and shell scripts', () => {
+    const restricted = restrictToChanges(context, changes);
+
+    expect(restricted.dockerfiles?.map((d) => d.path)).toEqual(['/repo/api/Dockerfile']);
+    expect(restricted.dockerfile?.path).toBe('/repo/api/Dockerfile');
+    expect(restricted.files.shellScripts).toEqual(['/repo/scripts/build.sh']);
+  });
+
+  it('matches findings by file, ignoring lines unless diffLines is set', () => {
+    expect(isChangedResult(result('/repo/api/Dockerfile', 1), changes, context)).toBe(true);
+    expect(isChangedResult(result('web/Dockerfile', 1), changes, context)).toBe(false);
+    expect(isChangedResult(result(undefined), changes, context)).toBe(false);
+    expect(isChangedResult(result('/repo/api/Dockerfile', 1), changes, context, true)).toBe(false);
+  });
+
+  it('counts a Dockerfile finding when any line of its instruction changed', () => {
+    // The RUN instruction spans lines 2-3; only line 3 changed
+    expect(isChangedResult(result('/repo/api/Dockerfile', 2), changes, context, true)).toBe(true);
+    expect(isChangedResult(result('/repo/api/Dockerfile'), changes, context, true)).toBe(false);
+  });
+
+  it('counts every line of an untracked file', () => {
+    expect(isChangedResult(result('/repo/scripts/build.sh', 40), changes, context, true)).toBe(true);
+  });
+});
+
+describe('loadChanges', () => {
+  const tempDirs: string[] = [];
+
+  afterEach(() => {
+    for (const dir of tempDirs) rmSync(dir, { recursive: true, force: true });
+    tempDirs.length = 0;
+  });
+
+  function git(cwd: string, ...args: string[]): void {
+    execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], { cwd, stdio: 'ignore' });
+  }
+
+  function createRepo(): string {
+    const dir = mkdtempSync(join(tmpdir(), 'dockerdoctor-git-'));
+    tempDirs.push(dir);
+    git(dir, 'init', '-q');
+    mkdirSync(join(dir, 'api'));
+    writeFileSync(join(dir, 'api', 'Dockerfile'), 'FROM node:20\nRUN npm install\n');
+    writeFileSync(join(dir, 'README.md'), '# app\n');
+    git(dir, 'add', '-A');
+    git(dir, 'commit', '-qm', 'initial');
+    return dir;
+  }
+
+  it('reports modified lines and untracked files since a revision', async () => {
+    const dir = createRepo();
+    writeFileSync(join(dir, 'api', 'Dockerfile'), 'FROM node:20\nRUN npm ci\nUSER node\n');
+    writeFileSync(join(dir, 'entrypoint.sh'), '#!/bin/sh\n');
+
+    const changes = await loadChanges(join(dir, 'api'), 'HEAD');
+
+    expect(changes.ref).toBe('HEAD');
+    expect([...changes.files.get(join(dir, 'api', 'Dockerfile'))!]).toEqual([2, 3]);
+    expect(changes.files.get(join(dir, 'entrypoint.sh'))).toBeNull();
+    expect(changes.files.has(join(dir, 'README.md'))).toBe(false);
+  });
+
+  it('rejects unknown revisions', async () => {
+    const dir = createRepo();
+    await expect(loadChanges(dir, 'no-such-branch')).rejects.toThrow(GitError);
+  });
+
+  it('rejects directories outside a git repository', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'dockerdoctor-nogit-'));
+    tempDirs.push(dir);
+    await expect(loadChanges(dir, 'HEAD')).rejects.toThrow(GitError);
+  });
+});
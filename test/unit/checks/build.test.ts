@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import type { CheckContext, Check } from '../../../src/types/index.js';
+import { parseDockerfile } from '../../../src/parsers/dockerfile.js';
 
 // Mock docker modules BEFORE importing checks
 vi.mock('../../../src/docker/client.js', () => ({
@@ -258,32 +259,7 @@ describe('build checks', () => {
         stderr: '',
         exitCode: 0,
       });
-      const dockerfile = {
-        path: '/test/Dockerfile',
-        raw: 'FROM --platform=linux/arm64 node:20\n',
-        stages: [
-          {
-            baseImage: 'node:20',
-            instructions: [
-              {
-                name: 'FROM',
-                args: '--platform=linux/arm64 node:20',
-                lineno: 1,
-                raw: 'FROM --platform=linux/arm64 node:20',
-              },
-            ],
-            startLine: 1,
-          },
-        ],
-        allInstructions: [
-          {
-            name: 'FROM',
-            args: '--platform=linux/arm64 node:20',
-            lineno: 1,
-            raw: 'FROM --platform=linux/arm64 node:20',
-          },
-        ],
-      };
+      const dockerfile = parseDockerfile('FROM --platform=linux/arm64 node:20\n', '/test/Dockerfile');
       const ctx = makeContext({ dockerfile });
       const results = await check.run(ctx);
       expect(results).toHaveLength(1);
@@ -300,32 +276,7 @@ describe('build checks', () => {
         stderr: '',
         exitCode: 0,
       });
-      const dockerfile = {
-        path: '/test/Dockerfile',
-        raw: 'FROM --platform=linux/amd64 node:20\n',
-        stages: [
-          {
-            baseImage: 'node:20',
-            instructions: [
-              {
-                name: 'FROM',
-                args: '--platform=linux/amd64 node:20',
-                lineno: 1,
-                raw: 'FROM --platform=linux/amd64 node:20',
-              },
-            ],
-            startLine: 1,
-          },
-        ],
-        allInstructions: [
-          {
-            name: 'FROM',
-            args: '--platform=linux/amd64 node:20',
-            lineno: 1,
-            raw: 'FROM --platform=linux/amd64 node:20',
-          },
-        ],
-      };
+      const dockerfile = parseDockerfile('FROM --platform=linux/amd64 node:20\n', '/test/Dockerfile');
       const ctx = makeContext({ dockerfile });
       const results = await check.run(ctx);
       expect(results).toHaveLength(0);
@@ -345,32 +296,7 @@ describe('build checks', () => {
         stderr: 'error',
         exitCode: 1,
       });
-      const dockerfile = {
-        path: '/test/Dockerfile',
-        raw: 'FROM --platform=linux/arm64 node:20\n',
-        stages: [
-          {
-            baseImage: 'node:20',
-            instructions: [
-              {
-                name: 'FROM',
-                args: '--platform=linux/arm64 node:20',
-                lineno: 1,
-                raw: 'FROM --platform=linux/arm64 node:20',
-              },
-            ],
-            startLine: 1,
-          },
-        ],
-        allInstructions: [
-          {
-            name: 'FROM',
-            args: '--platform=linux/arm64 node:20',
-            lineno: 1,
-            raw: 'FROM --platform=linux/arm64 node:20',
-          },
-        ],
-      };
+      const dockerfile = parseDockerfile('FROM --platform=linux/arm64 node:20\n', '/test/Dockerfile');
       const ctx = makeContext({ dockerfile });
       const results = await check.run(ctx);
       expect(results).toHaveLength(0);
@@ -383,32 +309,7 @@ describe('build checks', () => {
         stderr: '',
         exitCode: 0,
       });
-      const dockerfile = {
-        path: '/test/Dockerfile',
-        raw: 'FROM node:20\n',
-        stages: [
-          {
-            baseImage: 'node:20',
-            instructions: [
-              {
-                name: 'FROM',
-                args: 'node:20',
-                lineno: 1,
-                raw: 'FROM node:20',
-              },
-            ],
-            startLine: 1,
-          },
-        ],
-        allInstructions: [
-          {
-            name: 'FROM',
-            args: 'node:20',
-            lineno: 1,
-            raw: 'FROM node:20',
-          },
-        ],
-      };
+      const dockerfile = parseDockerfile('FROM node:20\n', '/test/Dockerfile');
       const ctx = makeContext({ dockerfile });
       const results = await check.run(ctx);
       expect(results).toHaveLength(0);
@@ -421,50 +322,7 @@ describe('build checks', () => {
         stderr: '',
         exitCode: 0,
       });
-      const dockerfile = {
-        path: '/test/Dockerfile',
-        raw: '',
-        stages: [
-          {
-            baseImage: 'node:20',
-            instructions: [
-              {
-                name: 'FROM',
-                args: '--platform=linux/arm64 node:20 AS builder',
-                lineno: 1,
-                raw: 'FROM --platform=linux/arm64 node:20 AS builder',
-              },
-            ],
-            startLine: 1,
-          },
-          {
-            baseImage: 'nginx:latest',
-            instructions: [
-              {
-                name: 'FROM',
-                args: '--platform=linux/arm64 nginx:latest',
-                lineno: 5,
-                raw: 'FROM --platform=linux/arm64 nginx:latest',
-              },
-            ],
-            startLine: 5,
-          },
-        ],
-        allInstructions: [
-          {
-            name: 'FROM',
-            args: '--platform=linux/arm64 node:20 AS builder',
-            lineno: 1,
-            raw: 'FROM --platform=linux/arm64 node:20 AS builder',
-          },
-          {
-            name: 'FROM',
-            args: '--platform=linux/arm64 nginx:latest',
-            lineno: 5,
-            raw: 'FROM --platform=linux/arm64 nginx:latest',
-          },
-        ],
-      };
+      const dockerfile = parseDockerfile('FROM --platform=linux/arm64 node:20 AS builder\nRUN make\n\n\nFROM --platform=linux/arm64 nginx:latest\n', '/test/Dockerfile');
       const ctx = makeContext({ dockerfile });
       const results = await check.run(ctx);
       expect(results).toHaveLength(2);
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeAll } from 'vitest';
-import { parseCompose } from '../../../src/parsers/compose.js';
+import { parseCompose, parseComposeFiles } from '../../../src/parsers/compose.js';
 import { getChecksByCategory } from '../../../src/checks/registry.js';
 import type { CheckContext, Check } from '../../../src/types/index.js';
 
@@ -31,8 +31,8 @@ describe('compose checks', () => {
     checks = getChecksByCategory('compose');
   });
 
-  it('should have all 7 compose checks registered', () => {
-    expect(checks.length).toBe(7);
+  it('should have all 9 compose checks registered', () => {
+    expect(checks.length).toBe(9);
   });
 
   // --- compose.static-ip ---
@@ -58,6 +58,7 @@ networks:
       expect(results).toHaveLength(1);
       expect(results[0].id).toBe('compose.static-ip');
       expect(results[0].severity).toBe('warning');
+      expect(results[0].line).toBe(7);
     });
 
     it('should flag static IPv6 address', async () => {
@@ -115,6 +116,20 @@ services:
       const results = await check.run(ctx);
       expect(results).toHaveLength(0);
     });
+
+    it('should attribute the finding to the override file that added the static IP', async () => {
+      const compose = parseComposeFiles([
+        { path: '/test/compose.yml', raw: 'services:\n  web:\n    image: nginx\n' },
+        {
+          path: '/test/compose.prod.yml',
+          raw: 'services:\n  web:\n    networks:\n      front:\n        ipv4_address: 10.0.0.2\n',
+        },
+      ]);
+      const results = await check.run(makeContext({ compose }));
+
+      expect(results).toHaveLength(1);
+      expect(results[0].location).toBe('/test/compose.prod.yml');
+    });
   });
 
   // --- compose.swarm-ignored ---
@@ -140,6 +155,7 @@ services:
       expect(results[0].severity).toBe('info');
       expect((results[0].meta?.ignoredKeys as string[]) ?? []).toContain('restart');
       expect((results[0].meta?.ignoredKeys as string[]) ?? []).toContain('container_name');
+      expect(results[0].line).toBe(5);
     });
 
     it('should not flag when no deploy key', async () => {
@@ -214,6 +230,7 @@ services:
       expect(results).toHaveLength(1);
       expect(results[0].id).toBe('compose.missing-healthcheck');
       expect(results[0].severity).toBe('warning');
+      expect(results[0].line).toBe(3);
     });
 
     it('should not flag service with healthcheck', async () => {
@@ -248,7 +265,7 @@ services:
       expect(results).toHaveLength(0);
     });
 
-    it('should not flag service with profiles', async () => {
+    it('should not flag services of inactive profiles', async () => {
       const raw = `
 services:
   debug:
@@ -264,6 +281,23 @@ services:
 
       expect(results).toHaveLength(0);
     });
+
+    it('should flag services of active profiles', async () => {
+      const raw = `
+services:
+  debug:
+    image: myapp
+    ports:
+      - "9229:9229"
+    profiles:
+      - debug
+`;
+      const compose = parseCompose(raw, '/test/docker-compose.yml', {}, { profiles: ['debug'] });
+      const results = await check.run(makeContext({ compose }));
+
+      expect(results).toHaveLength(1);
+      expect(results[0].meta?.serviceName).toBe('debug');
+    });
   });
 
   // --- compose.bridge-network ---
@@ -286,6 +320,7 @@ networks:
       expect(results).toHaveLength(1);
       expect(results[0].id).toBe('compose.bridge-network');
       expect(results[0].severity).toBe('info');
+      expect(results[0].line).toBe(7);
     });
 
     it('should not flag overlay driver network', async () => {
@@ -357,6 +392,7 @@ services:
       expect(results).toHaveLength(1);
       expect(results[0].id).toBe('compose.bind-mounts');
       expect(results[0].severity).toBe('info');
+      expect(results[0].line).toBe(6);
     });
 
     it('should flag bind mounts with absolute path', async () => {
@@ -465,6 +501,7 @@ networks:
       expect(results[0].severity).toBe('warning');
       expect(results[0].meta?.serviceName).toBe('web');
       expect(results[0].meta?.dependencyName).toBe('api');
+      expect(results[0].line).toBe(6);
     });
 
     it('should not flag when services share a network', async () => {
@@ -552,6 +589,7 @@ networks:
 
       expect(results).toHaveLength(1);
       expect(results[0].meta?.dependencyName).toBe('api');
+      expect(results[0].line).toBe(6);
     });
 
     it('should return empty if no compose', async () => {
@@ -609,6 +647,7 @@ networks:
       expect(results[0].severity).toBe('error');
       expect(results[0].meta?.serviceName).toBe('mail');
       expect(results[0].meta?.networkName).toBe('mailnet');
+      expect(results[0].line).toBe(6);
     });
 
     it('should not flag when network is defined', async () => {
@@ -688,4 +727,113 @@ networks:
       expect(results).toHaveLength(0);
     });
   });
+
+  // --- compose.unresolved-variable ---
+  describe('compose.unresolved-variable', () => {
+    const check = findCheck('compose.unresolved-variable');
+
+    it('should flag a required variable that is not set as an error', async () => {
+      const raw = `
+services:
+  db:
+    image: postgres
+    environment:
+      POSTGRES_PASSWORD: \${DB_PASSWORD:?set DB_PASSWORD in .env}
+`;
+      const compose = parseCompose(raw, '/test/docker-compose.yml');
+      const results = await check.run(makeContext({ compose }));
+
+      expect(results).toHaveLength(1);
+      expect(results[0].severity).toBe('error');
+      expect(results[0].title).toBe('Required variable ${DB_PASSWORD} is not set');
+      expect(results[0].message).toContain('services.db.environment.POSTGRES_PASSWORD');
+      expect(results[0].message).toContain('set DB_PASSWORD in .env');
+      expect(results[0].line).toBe(6);
+    });
+
+    it('should report unset variables without a default once, as info', async () => {
+      const raw = `
+services:
+  web:
+    image: myapp:\${TAG}
+  worker:
+    image: myapp:\${TAG}
+`;
+      const compose = parseCompose(raw, '/test/docker-compose.yml');
+      const results = await check.run(makeContext({ compose }));
+
+      expect(results).toHaveLength(1);
+      expect(results[0].severity).toBe('info');
+      expect(results[0].meta?.paths).toEqual(['services.web.image', 'services.worker.image']);
+    });
+
+    it('should not flag variables that are set or have defaults', async () => {
+      const raw = `
+services:
+  web:
+    image: myapp:\${TAG:-latest}
+    ports:
+      - "\${PORT:?}:80"
+`;
+      const compose = parseCompose(raw, '/test/docker-compose.yml', {
+        PORT: { value: '8080', source: 'env-file', file: '/test/.env' },
+      });
+      const results = await check.run(makeContext({ compose }));
+
+      expect(results).toHaveLength(0);
+    });
+  });
+
+  // --- compose.broken-reference ---
+  describe('compose.broken-reference', () => {
+    const check = findCheck('compose.broken-reference');
+
+    it('should flag an extends cycle', async () => {
+      const raw = `
+services:
+  web:
+    extends: api
+  api:
+    extends: web
+`;
+      const compose = parseCompose(raw, '/test/docker-compose.yml');
+      const results = await check.run(makeContext({ compose }));
+
+      expect(results).toHaveLength(2);
+      expect(results[0].title).toBe('Compose extends cycle');
+      expect(results[0].message).toContain('web → api → web');
+      expect(results[0].location).toBe('/test/docker-compose.yml');
+      expect(results[0].line).toBe(6);
+    });
+
+    it('should flag missing includes and extended services', async () => {
+      const raw = `
+include:
+  - ./missing.yml
+services:
+  web:
+    extends:
+      service: base
+`;
+      const compose = parseCompose(raw, '/test/docker-compose.yml');
+      const results = await check.run(makeContext({ compose }));
+
+      expect(results.map((r) => r.meta?.kind)).toEqual(['include-missing', 'extends-missing']);
+      expect(results.every((r) => r.severity === 'error')).toBe(true);
+    });
+
+    it('should return empty when every reference resolves', async () => {
+      const raw = `
+services:
+  base:
+    image: node
+  web:
+    extends: base
+`;
+      const compose = parseCompose(raw, '/test/docker-compose.yml');
+      const results = await check.run(makeContext({ compose }));
+
+      expect(results).toHaveLength(0);
+    });
+  });
 });
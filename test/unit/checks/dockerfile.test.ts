@@ -1,4 +1,7 @@
-import { describe, it, expect, beforeAll } from 'vitest';
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
 import { parseDockerfile } from '../../../src/parsers/dockerfile.js';
 import { getChecksByCategory } from '../../../src/checks/registry.js';
 import type { CheckContext, Check } from '../../../src/types/index.js';
@@ -31,8 +34,8 @@ describe('dockerfile checks', () => {
     checks = getChecksByCategory('dockerfile');
   });
 
-  it('should have all 9 dockerfile checks registered', () => {
-    expect(checks.length).toBe(9);
+  it('should have all 13 dockerfile checks registered', () => {
+    expect(checks.length).toBe(13);
   });
 
   // --- dockerfile.layer-order ---
@@ -233,6 +236,23 @@ RUN npm ci
       expect(results).toHaveLength(0);
     });
 
+    it('should flag npm install inside a RUN heredoc', async () => {
+      const raw = `# syntax=docker/dockerfile:1
+FROM node:20
+COPY package*.json ./
+RUN <<EOF
+set -e
+npm install
+EOF
+`;
+      const dockerfile = parseDockerfile(raw, '/test/Dockerfile');
+      const ctx = makeContext({ dockerfile });
+      const results = await check.run(ctx);
+
+      expect(results).toHaveLength(1);
+      expect(results[0].line).toBe(4);
+    });
+
     it('should not flag npm install <specific-package>', async () => {
       const raw = `FROM node:20
 RUN npm install express
@@ -265,27 +285,11 @@ RUN npm ci
     });
 
     it('should flag NODE_ENV=production before npm install with string args', async () => {
-      // Test with manually constructed args where ENV args is a plain string
-      const dockerfile = {
-        path: '/test/Dockerfile',
-        raw: '',
-        stages: [
-          {
-            baseImage: 'node:20',
-            instructions: [
-              { name: 'FROM', args: 'node:20', lineno: 1, raw: 'FROM node:20' },
-              { name: 'ENV', args: 'NODE_ENV=production', lineno: 2, raw: 'ENV NODE_ENV=production' },
-              { name: 'RUN', args: 'npm ci', lineno: 3, raw: 'RUN npm ci' },
-            ],
-            startLine: 1,
-          },
-        ],
-        allInstructions: [
-          { name: 'FROM', args: 'node:20', lineno: 1, raw: 'FROM node:20' },
-          { name: 'ENV', args: 'NODE_ENV=production', lineno: 2, raw: 'ENV NODE_ENV=production' },
-          { name: 'RUN', args: 'npm ci', lineno: 3, raw: 'RUN npm ci' },
-        ],
-      };
+      const raw = `FROM node:20
+ENV NODE_ENV=production
+RUN npm ci
+`;
+      const dockerfile = parseDockerfile(raw, '/test/Dockerfile');
       const ctx = makeContext({ dockerfile });
       const results = await check.run(ctx);
 
@@ -295,26 +299,11 @@ RUN npm ci
     });
 
     it('should not flag NODE_ENV=production after npm install (string args)', async () => {
-      const dockerfile = {
-        path: '/test/Dockerfile',
-        raw: '',
-        stages: [
-          {
-            baseImage: 'node:20',
-            instructions: [
-              { name: 'FROM', args: 'node:20', lineno: 1, raw: 'FROM node:20' },
-              { name: 'RUN', args: 'npm ci', lineno: 2, raw: 'RUN npm ci' },
-              { name: 'ENV', args: 'NODE_ENV=production', lineno: 3, raw: 'ENV NODE_ENV=production' },
-            ],
-            startLine: 1,
-          },
-        ],
-        allInstructions: [
-          { name: 'FROM', args: 'node:20', lineno: 1, raw: 'FROM node:20' },
-          { name: 'RUN', args: 'npm ci', lineno: 2, raw: 'RUN npm ci' },
-          { name: 'ENV', args: 'NODE_ENV=production', lineno: 3, raw: 'ENV NODE_ENV=production' },
-        ],
-      };
+      const raw = `FROM node:20
+RUN npm ci
+ENV NODE_ENV=production
+`;
+      const dockerfile = parseDockerfile(raw, '/test/Dockerfile');
       const ctx = makeContext({ dockerfile });
       const results = await check.run(ctx);
 
@@ -322,26 +311,11 @@ RUN npm ci
     });
 
     it('should not flag when NODE_ENV is not production', async () => {
-      const dockerfile = {
-        path: '/test/Dockerfile',
-        raw: '',
-        stages: [
-          {
-            baseImage: 'node:20',
-            instructions: [
-              { name: 'FROM', args: 'node:20', lineno: 1, raw: 'FROM node:20' },
-              { name: 'ENV', args: 'NODE_ENV=development', lineno: 2, raw: 'ENV NODE_ENV=development' },
-              { name: 'RUN', args: 'npm ci', lineno: 3, raw: 'RUN npm ci' },
-            ],
-            startLine: 1,
-          },
-        ],
-        allInstructions: [
-          { name: 'FROM', args: 'node:20', lineno: 1, raw: 'FROM node:20' },
-          { name: 'ENV', args: 'NODE_ENV=development', lineno: 2, raw: 'ENV NODE_ENV=development' },
-          { name: 'RUN', args: 'npm ci', lineno: 3, raw: 'RUN npm ci' },
-        ],
-      };
+      const raw = `FROM node:20
+ENV NODE_ENV=development
+RUN npm ci
+`;
+      const dockerfile = parseDockerfile(raw, '/test/Dockerfile');
       const ctx = makeContext({ dockerfile });
       const results = await check.run(ctx);
 
@@ -349,26 +323,11 @@ RUN npm ci
     });
 
     it('should flag with space-separated ENV format (string args)', async () => {
-      const dockerfile = {
-        path: '/test/Dockerfile',
-        raw: '',
-        stages: [
-          {
-            baseImage: 'node:20',
-            instructions: [
-              { name: 'FROM', args: 'node:20', lineno: 1, raw: 'FROM node:20' },
-              { name: 'ENV', args: 'NODE_ENV production', lineno: 2, raw: 'ENV NODE_ENV production' },
-              { name: 'RUN', args: 'npm install', lineno: 3, raw: 'RUN npm install' },
-            ],
-            startLine: 1,
-          },
-        ],
-        allInstructions: [
-          { name: 'FROM', args: 'node:20', lineno: 1, raw: 'FROM node:20' },
-          { name: 'ENV', args: 'NODE_ENV production', lineno: 2, raw: 'ENV NODE_ENV production' },
-          { name: 'RUN', args: 'npm install', lineno: 3, raw: 'RUN npm install' },
-        ],
-      };
+      const raw = `FROM node:20
+ENV NODE_ENV production
+RUN npm install
+`;
+      const dockerfile = parseDockerfile(raw, '/test/Dockerfile');
       const ctx = makeContext({ dockerfile });
       const results = await check.run(ctx);
 
@@ -437,6 +396,56 @@ FROM $BASE_IMAGE
       expect(results).toHaveLength(0);
     });
 
+    it('should evaluate ARG-based images by their effective value', async () => {
+      const raw = `ARG NODE_VERSION=latest
+FROM node:\${NODE_VERSION}
+`;
+      const dockerfile = parseDockerfile(raw, '/test/Dockerfile');
+      const results = await check.run(makeContext({ dockerfile }));
+
+      expect(results).toHaveLength(1);
+      expect(results[0].line).toBe(2);
+      expect(results[0].message).toContain('`FROM node:${NODE_VERSION}` (resolves to `node:latest`)');
+
+      const pinned = parseDockerfile(raw, '/test/Dockerfile', { buildArgs: { NODE_VERSION: '22-slim' } });
+      expect(await check.run(makeContext({ dockerfile: pinned }))).toHaveLength(0);
+    });
+
+    it('should skip images from ARGs without a value', async () => {
+      const raw = `ARG NODE_VERSION
+FROM node:\${NODE_VERSION}
+FROM \${REGISTRY}/node
+`;
+      const dockerfile = parseDockerfile(raw, '/test/Dockerfile');
+      const results = await check.run(makeContext({ dockerfile }));
+
+      expect(results).toHaveLength(0);
+    });
+
+    it('should skip references to earlier stages', async () => {
+      const raw = `FROM node:20-slim AS deps
+RUN npm ci
+
+FROM deps AS build
+RUN npm run build
+`;
+      const dockerfile = parseDockerfile(raw, '/test/Dockerfile');
+      const results = await check.run(makeContext({ dockerfile }));
+
+      expect(results).toHaveLength(0);
+    });
+
+    it('should check every Dockerfile in the context', async () => {
+      const dockerfiles = [
+        parseDockerfile('FROM node:20-slim\n', '/test/Dockerfile'),
+        parseDockerfile('FROM python\n', '/test/Dockerfile.worker'),
+        parseDockerfile('FROM nginx:latest\n', '/test/web.Dockerfile'),
+      ];
+      const results = await check.run(makeContext({ dockerfile: dockerfiles[0], dockerfiles }));
+
+      expect(results.map((r) => r.location)).toEqual(['/test/Dockerfile.worker', '/test/web.Dockerfile']);
+    });
+
     it('should flag multiple stages with latest', async () => {
       const raw = `FROM node:latest AS builder
 RUN echo "build"
@@ -544,6 +553,19 @@ CMD ["node", "index.js"]
       expect(results).toHaveLength(0);
     });
 
+    it('should evaluate USER by its expanded value', async () => {
+      const raw = `FROM node:20-slim
+ARG APP_USER=root
+USER \${APP_USER}
+CMD ["node", "index.js"]
+`;
+      const asRoot = parseDockerfile(raw, '/test/Dockerfile');
+      const asNode = parseDockerfile(raw, '/test/Dockerfile', { buildArgs: { APP_USER: 'node' } });
+
+      expect(await check.run(makeContext({ dockerfile: asRoot }))).toHaveLength(1);
+      expect(await check.run(makeContext({ dockerfile: asNode }))).toHaveLength(0);
+    });
+
     it('should flag when USER is set to root', async () => {
       const raw = `FROM node:20-slim
 WORKDIR /app
@@ -576,6 +598,47 @@ CMD ["node", "dist/index.js"]
       // Final stage has USER node, so no issue
       expect(results).toHaveLength(0);
     });
+
+    describe('auto fix', () => {
+      async function fixed(raw: string): Promise<string | undefined> {
+        const [result] = await check.run(makeContext({ dockerfile: parseDockerfile(raw, '/test/Dockerfile') }));
+        const fix = result.fixes.find((f) => f.type === 'auto');
+        if (!fix) return undefined;
+        const [edit] = await fix.edits!(() => raw);
+        return edit.after;
+      }
+
+      it('uses the node user and chowns later copies', async () => {
+        const raw = 'FROM node:20-slim\nWORKDIR /app\nCOPY package*.json ./\nRUN npm ci\nCOPY --link . .\nCMD ["node", "server.js"]\n';
+
+        expect(await fixed(raw)).toBe(
+          'FROM node:20-slim\nWORKDIR /app\nCOPY package*.json ./\nRUN npm ci\nUSER node\n' +
+            'COPY --chown=node:node --link . .\nCMD ["node", "server.js"]\n',
+        );
+      });
+
+      it('creates a user on alpine and debian based images', async () => {
+        expect(await fixed('FROM python:3.12-alpine\nRUN pip install flask\nCOPY app.py .\n')).toBe(
+          'FROM python:3.12-alpine\nRUN pip install flask\nRUN addgroup -S app && adduser -S -G app app\nUSER app\n' +
+            'COPY --chown=app:app app.py .\n',
+        );
+        expect(await fixed('FROM golang:1.22 AS build\nRUN go build\nFROM build\nCMD ["./app"]\n')).toBe(
+          'FROM golang:1.22 AS build\nRUN go build\nFROM build\n' +
+            'RUN groupadd --system app && useradd --system --gid app --no-create-home app\nUSER app\nCMD ["./app"]\n',
+        );
+      });
+
+      it('uses nonroot on distroless images', async () => {
+        expect(await fixed('FROM gcr.io/distroless/nodejs20-debian12\nCOPY server.js .\n')).toBe(
+          'FROM gcr.io/distroless/nodejs20-debian12\nUSER nonroot\nCOPY --chown=nonroot:nonroot server.js .\n',
+        );
+      });
+
+      it('offers no auto fix for unknown images or an explicit USER root', async () => {
+        expect(await fixed('FROM registry.example.com/base\nCMD ["app"]\n')).toBeUndefined();
+        expect(await fixed('FROM node:20\nUSER root\nCMD ["node"]\n')).toBeUndefined();
+      });
+    });
   });
 
   // --- dockerfile.missing-chown ---
@@ -717,5 +780,312 @@ CMD ["node", "index.js"]
 
       expect(results).toHaveLength(0);
     });
+
+    describe('auto fix', () => {
+      async function fixedFiles(
+        raw: string,
+        path = '/test/Dockerfile',
+        buildContext?: string,
+      ): Promise<Map<string, string>> {
+        const files = new Map([[path, raw]]);
+        const dockerfile = parseDockerfile(raw, path);
+        dockerfile.buildContext = buildContext;
+        const [result] = await check.run(makeContext({ dockerfile }));
+        const fix = result.fixes[0];
+        expect(fix.type).toBe('auto');
+        for (const edit of await fix.edits!((path) => files.get(path))) files.set(edit.path, edit.after);
+        return files;
+      }
+
+      it('rewrites a simple command to exec form', async () => {
+        const files = await fixedFiles('FROM node:20-slim\r\nCMD exec node "my app.js" \\\r\n  --port 3000\r\n');
+
+        expect(files.get('/test/Dockerfile')).toBe('FROM node:20-slim\r\nCMD ["node", "my app.js", "--port", "3000"]\r\n');
+      });
+
+      it('moves a command list into a script that execs the last command', async () => {
+        const files = await fixedFiles('FROM node:20-slim\nENTRYPOINT npm run migrate && npm start -- --port $PORT\n');
+
+        expect(files.get('/test/docker-entrypoint.sh')).toBe(
+          '#!/bin/sh\nnpm run migrate && exec npm start -- --port $PORT\n',
+        );
+        expect(files.get('/test/Dockerfile')).toBe(
+          '# syntax=docker/dockerfile:1\n' +
+            'FROM node:20-slim\n' +
+            'COPY --chmod=755 docker-entrypoint.sh /usr/local/bin/docker-entrypoint.sh\n' +
+            'ENTRYPOINT ["/usr/local/bin/docker-entrypoint.sh"]\n',
+        );
+      });
+
+      it('writes the script to the build context and keeps an existing syntax directive', async () => {
+        const raw = '# syntax=docker/dockerfile:1.7\nFROM node:20-slim\nCMD npm run migrate && npm start\n';
+
+        const fromProject = await fixedFiles(raw, '/test/docker/Dockerfile.dev');
+        expect(fromProject.get('/test/docker-cmd.sh')).toBe('#!/bin/sh\nnpm run migrate && exec npm start\n');
+        expect(fromProject.get('/test/docker/Dockerfile.dev')).toBe(
+          '# syntax=docker/dockerfile:1.7\n' +
+            'FROM node:20-slim\n' +
+            'COPY --chmod=755 docker-cmd.sh /usr/local/bin/docker-cmd.sh\n' +
+            'CMD ["/usr/local/bin/docker-cmd.sh"]\n',
+        );
+
+        const fromCompose = await fixedFiles(raw, '/test/docker/Dockerfile', '/test/services/api');
+        expect(fromCompose.has('/test/services/api/docker-cmd.sh')).toBe(true);
+        expect(fromCompose.has('/test/docker/docker-cmd.sh')).toBe(false);
+      });
+
+      it('keeps an ENTRYPOINT that has a CMD in a script, so CMD is not appended', async () => {
+        const files = await fixedFiles('FROM node:20-slim\nENTRYPOINT node server.js\nCMD ["--port", "3000"]\n');
+
+        expect(files.get('/test/docker-entrypoint.sh')).toBe('#!/bin/sh\nexec node server.js\n');
+        expect(files.get('/test/Dockerfile')).toContain('ENTRYPOINT ["/usr/local/bin/docker-entrypoint.sh"]\n');
+      });
+
+      it('offers only manual advice for pipelines, builtins or a custom SHELL', async () => {
+        for (const raw of [
+          'FROM node:20-slim\nCMD node server.js | tee /var/log/app.log\n',
+          'FROM node:20-slim\nSHELL ["/bin/bash", "-c"]\nCMD node server.js\n',
+          'FROM node:20-slim\nCMD cd /app\n',
+          'FROM node:20-slim\nCMD exec\n',
+          'FROM node:20-slim\nCMD npm run build && export PORT=3000\n',
+        ]) {
+          const [result] = await check.run(makeContext({ dockerfile: parseDockerfile(raw, '/test/Dockerfile') }));
+          expect(result.fixes.map((f) => f.type)).toEqual(['manual']);
+        }
+      });
+    });
+  });
+
+  // --- dockerfile.missing-copy-source ---
+  describe('dockerfile.missing-copy-source', () => {
+    const check = findCheck('dockerfile.missing-copy-source');
+    const tempDirs: string[] = [];
+
+    afterEach(() => {
+      for (const dir of tempDirs) rmSync(dir, { recursive: true, force: true });
+      tempDirs.length = 0;
+    });
+
+    function createProject(files: Record<string, string>): string {
+      const dir = mkdtempSync(join(tmpdir(), 'dockerdoctor-copy-'));
+      tempDirs.push(dir);
+      for (const [path, content] of Object.entries(files)) {
+        mkdirSync(join(dir, path, '..'), { recursive: true });
+        writeFileSync(join(dir, path), content);
+      }
+      return dir;
+    }
+
+    function run(dir: string, dockerfileRaw: string) {
+      // The check reads the .dockerignore of the build context itself
+      return check.run(makeContext({ cwd: dir, dockerfile: parseDockerfile(dockerfileRaw, join(dir, 'Dockerfile')) }));
+    }
+
+    it('should pass when every source is in the context', async () => {
+      const dir = createProject({ 'package.json': '{}', 'src/index.js': '', 'config/app.yml': '' });
+
+      const results = await run(dir, 'FROM node:20\nCOPY package*.json ./\nCOPY src/ ./src/\nCOPY ["config/app.yml", "/etc/app.yml"]\nCOPY . .\n');
+
+      expect(results).toHaveLength(0);
+    });
+
+    it('should flag a source that does not exist', async () => {
+      const dir = createProject({ 'package.json': '{}' });
+
+      const results = await run(dir, 'FROM node:20\nCOPY config/ ./config/\n');
+
+      expect(results).toHaveLength(1);
+      expect(results[0].severity).toBe('error');
+      expect(results[0].title).toBe('COPY source `config/` does not exist');
+      expect(results[0].line).toBe(2);
+      expect(results[0].fixes.map((f) => f.type)).toEqual(['manual']);
+    });
+
+    it('should flag a source excluded by .dockerignore and re-include it', async () => {
+      const dir = createProject({ '.dockerignore': 'node_modules\nconfig\n', 'config/app.yml': '' });
+
+      const [result, ...rest] = await run(dir, 'FROM node:20\nCOPY config/ ./config/\n');
+
+      expect(rest).toHaveLength(0);
+      expect(result.title).toBe('COPY source `config/` is excluded by .dockerignore');
+      expect(result.message).toContain('`config` at line 2');
+      const edits = await result.fixes[0].edits!(() => 'node_modules\nconfig\n');
+      expect(edits[0]).toMatchObject({ path: join(dir, '.dockerignore'), after: 'node_modules\nconfig\n!config\n' });
+    });
+
+    it('should pass for an excluded directory when a negation re-includes a file inside it', async () => {
+      const dir = createProject({ '.dockerignore': 'src\n!src/main.js\n', 'src/main.js': '', 'src/test.js': '' });
+
+      expect(await run(dir, 'FROM node:20\nCOPY src /app/src\n')).toHaveLength(0);
+      expect(await run(dir, 'FROM node:20\nCOPY src/test.js /app/\n')).toHaveLength(1);
+    });
+
+    it('should warn about wildcards that match nothing or only excluded files', async () => {
+      const dir = createProject({ '.dockerignore': '*.log\n', 'debug.log': '' });
+
+      const results = await run(dir, 'FROM node:20\nCOPY *.txt ./\nCOPY *.log ./logs/\n');
+
+      expect(results.map((r) => [r.title, r.severity])).toEqual([
+        ['COPY source `*.txt` matches nothing', 'warning'],
+        ['COPY source `*.log` is excluded by .dockerignore', 'warning'],
+      ]);
+    });
+
+    it('should flag sources outside the build context', async () => {
+      const dir = createProject({});
+
+      const [result] = await run(dir, 'FROM node:20\nCOPY ../shared ./shared\n');
+
+      expect(result.title).toBe('COPY source `../shared` is outside the build context');
+    });
+
+    it('should skip COPY --from, URLs and unresolved variables', async () => {
+      const dir = createProject({});
+
+      const results = await run(
+        dir,
+        'FROM node:20 AS build\nFROM node:20\nCOPY --from=build /app/dist ./dist\n' +
+          'ADD https://example.com/file.tgz /tmp/\nCOPY ${CONFIG_DIR} ./config\n',
+      );
+
+      expect(results).toHaveLength(0);
+    });
+
+    it('should resolve sources against the compose build context', async () => {
+      const dir = createProject({ 'api/server.js': '', 'api/.dockerignore': 'server.js\n' });
+      const dockerfile = parseDockerfile('FROM node:20\nCOPY server.js ./\n', join(dir, 'api', 'Dockerfile'));
+      dockerfile.buildContext = join(dir, 'api');
+
+      const [result] = await check.run(makeContext({ cwd: dir, dockerfile }));
+
+      expect(result.title).toBe('COPY source `server.js` is excluded by .dockerignore');
+      expect(result.meta?.buildContext).toBe(join(dir, 'api'));
+    });
+  });
+
+  // --- dockerfile.unused-stage ---
+  describe('dockerfile.unused-stage', () => {
+    const check = findCheck('dockerfile.unused-stage');
+    const raw = `FROM node:20 AS deps
+RUN npm ci
+
+FROM deps AS build
+RUN npm run build
+
+FROM node:20 AS test
+RUN npm test
+
+FROM node:20-slim
+RUN --mount=type=cache,target=/root/.npm,from=deps true
+COPY --from=build /app/dist ./dist
+`;
+
+    it('should flag stages the final stage never uses', async () => {
+      const results = await check.run(makeContext({ dockerfile: parseDockerfile(raw, '/test/Dockerfile') }));
+
+      expect(results).toHaveLength(1);
+      expect(results[0].title).toBe('Stage test is never used');
+      expect(results[0].severity).toBe('info');
+      expect(results[0].line).toBe(7);
+    });
+
+    it('should follow the --target stage instead of the last one', async () => {
+      const dockerfile = parseDockerfile(raw, '/test/Dockerfile');
+      dockerfile.targets = ['BUILD'];
+
+      const results = await check.run(makeContext({ dockerfile }));
+
+      expect(results.map((r) => r.meta?.stage)).toEqual(['test', 3]);
+      expect(results[0].message).toContain('the `build` target');
+    });
+
+    it('should count every stage some build targets', async () => {
+      const dockerfile = parseDockerfile(raw, '/test/Dockerfile');
+      dockerfile.targets = [undefined, 'test'];
+
+      expect(await check.run(makeContext({ dockerfile }))).toHaveLength(0);
+    });
+
+    it('should resolve COPY --from stage indexes', async () => {
+      const dockerfile = parseDockerfile('FROM golang:1.22\nRUN go build\nFROM scratch\nCOPY --from=0 /app /app\n', '/test/Dockerfile');
+
+      expect(await check.run(makeContext({ dockerfile }))).toHaveLength(0);
+    });
+
+    it('should skip single-stage Dockerfiles and unknown targets', async () => {
+      const dockerfile = parseDockerfile(raw, '/test/Dockerfile');
+      dockerfile.targets = ['missing'];
+
+      expect(await check.run(makeContext({ dockerfile }))).toHaveLength(0);
+      expect(await check.run(makeContext({ dockerfile: parseDockerfile('FROM node:20\n', '/test/Dockerfile') }))).toHaveLength(0);
+    });
+  });
+
+  // --- dockerfile.broken-stage-reference ---
+  describe('dockerfile.broken-stage-reference', () => {
+    const check = findCheck('dockerfile.broken-stage-reference');
+    const run = (raw: string) => check.run(makeContext({ dockerfile: parseDockerfile(raw, '/test/Dockerfile') }));
+
+    it('should pass for references to earlier stages and tagged images', async () => {
+      const results = await run(
+        'FROM node:20 AS Builder\nRUN npm run build\nFROM builder AS test\nFROM nginx AS nginx\n' +
+          'COPY --from=builder /app/dist /usr/share/nginx/html\nCOPY --from=0 /app/x /x\n' +
+          'COPY --from=nginx:1.27 /etc/nginx/nginx.conf /etc/nginx/\nCOPY --from=$STAGE /a /a\n',
+      );
+
+      expect(results).toHaveLength(0);
+    });
+
+    it('should flag a misspelled stage name and suggest the closest one', async () => {
+      const [result, ...rest] = await run('FROM node:20 AS builder\nFROM nginx\nCOPY --from=buidler /app/dist /html\n');
+
+      expect(rest).toHaveLength(0);
+      expect(result.title).toBe('No stage named `buidler`');
+      expect(result.severity).toBe('warning');
+      expect(result.line).toBe(3);
+      expect(result.message).toContain('Did you mean `builder`?');
+    });
+
+    it('should flag stages declared later, including the current one', async () => {
+      const results = await run(
+        'FROM node:20 AS app\nCOPY --from=assets /a /a\nCOPY --from=app /b /b\nFROM base\nFROM alpine AS assets\nFROM alpine AS base\n',
+      );
+
+      expect(results.map((r) => [r.line, r.severity])).toEqual([
+        [2, 'error'],
+        [3, 'error'],
+        [4, 'error'],
+      ]);
+      expect(results[1].message).toContain("can't read from itself");
+    });
+
+    it('should flag stage indexes that do not come before the stage', async () => {
+      const [result] = await run('FROM node:20\nFROM nginx\nRUN --mount=type=bind,from=1,target=/src true\n');
+
+      expect(result.title).toBe('Stage index 1 does not exist');
+      expect(result.message).toContain('Only stages 0 to 0');
+    });
+  });
+
+  // --- dockerfile.duplicate-stage-name ---
+  describe('dockerfile.duplicate-stage-name', () => {
+    const check = findCheck('dockerfile.duplicate-stage-name');
+
+    it('should flag stage names used twice, ignoring case', async () => {
+      const dockerfile = parseDockerfile('FROM node:20 AS build\nFROM golang:1.22 AS Build\nFROM alpine\n', '/test/Dockerfile');
+
+      const results = await check.run(makeContext({ dockerfile }));
+
+      expect(results).toHaveLength(1);
+      expect(results[0].severity).toBe('error');
+      expect(results[0].line).toBe(2);
+      expect(results[0].meta?.firstLine).toBe(1);
+    });
+
+    it('should pass for unique names', async () => {
+      const dockerfile = parseDockerfile('FROM node:20 AS build\nFROM alpine AS runtime\n', '/test/Dockerfile');
+
+      expect(await check.run(makeContext({ dockerfile }))).toHaveLength(0);
+    });
   });
 });
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeAll } from 'vitest';
 import { parseDockerignore } from '../../../src/parsers/dockerignore.js';
+import { parseDockerfile } from '../../../src/parsers/dockerfile.js';
 import { getChecksByCategory } from '../../../src/checks/registry.js';
 import type { CheckContext, Check, ParsedDockerignore } from '../../../src/types/index.js';
 
@@ -158,6 +159,25 @@ coverage/
       expect(results).toHaveLength(0);
     });
 
+    it('should not recommend excluding paths the Dockerfile copies', async () => {
+      const dockerignore = parseDockerignore('node_modules\n.git\n.env\n.npm\ncoverage\n', '/test/.dockerignore');
+      const dockerfile = parseDockerfile('FROM nginx\nCOPY dist/ /usr/share/nginx/html/\n', '/test/Dockerfile');
+      const results = await check.run(makeContext({ dockerignore, dockerfile }));
+
+      expect(results).toHaveLength(0);
+    });
+
+    it('should merge the missing entries into the existing file', async () => {
+      const dockerignore = parseDockerignore('node_modules\n.git\n', '/test/.dockerignore');
+      const [result] = await check.run(makeContext({ dockerignore }));
+
+      const [edit] = await result.fixes[0].edits!(() => 'node_modules\n.git\n');
+      expect(edit.after).toBe(
+        'node_modules\n.git\n\n# Added by dockerdoctor\n# Common\n.env\n.npm\ndist\ncoverage\n' +
+          '\n# General\n.dockerdoctor\n.env.*\n*.log\n.DS_Store\n.vscode\n.idea\ndocker-compose*.yml\ncompose*.yml\n',
+      );
+    });
+
     it('should have an auto-fix function', async () => {
       const dockerignore = parseDockerignore('*.log\n', '/test/.dockerignore');
       const ctx = makeContext({ dockerignore });
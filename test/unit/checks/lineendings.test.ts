@@ -131,6 +131,34 @@ describe('lineendings checks', () => {
       expect(autoFix!.apply).toBeDefined();
       expect(typeof autoFix!.apply).toBe('function');
     });
+
+    it('should preview the conversion as an edit without writing it', async () => {
+      const scriptPath = path.join(tempDir, 'preview.sh');
+      fs.writeFileSync(scriptPath, '#!/bin/bash\r\necho "fix me"\r\n');
+      cleanupFiles.push(scriptPath);
+
+      const ctx = makeContext({ files: { shellScripts: [scriptPath] } });
+      const [result] = await check.run(ctx);
+      const edits = await result.fixes[0].edits!((p) => fs.readFileSync(p, 'utf-8'));
+
+      expect(edits).toEqual([
+        { path: scriptPath, before: '#!/bin/bash\r\necho "fix me"\r\n', after: '#!/bin/bash\necho "fix me"\n' },
+      ]);
+      expect(fs.readFileSync(scriptPath, 'utf-8')).toContain('\r\n');
+    });
+
+    it('should not offer the auto-fix for a script that is not valid UTF-8', async () => {
+      const scriptPath = path.join(tempDir, 'latin1.sh');
+      fs.writeFileSync(scriptPath, Buffer.from('#!/bin/sh\r\necho "caf\xe9"\r\n', 'latin1'));
+      cleanupFiles.push(scriptPath);
+
+      const ctx = makeContext({ files: { shellScripts: [scriptPath] } });
+      const results = await check.run(ctx);
+
+      expect(results).toHaveLength(1);
+      expect(results[0].fixes.every((f) => f.type === 'manual')).toBe(true);
+      expect(results[0].meta?.utf8).toBe(false);
+    });
   });
 
   // --- lineendings.missing-gitattributes ---
@@ -179,12 +179,6 @@ ENV DB_PASSWORD=supersecret123
   describe('secrets.dockerfile-arg', () => {
     const check = findCheck('secrets.dockerfile-arg');
 
-    // NOTE: docker-file-parser returns ARG args as arrays like ["DB_PASSWORD=value"],
-    // which get JSON-stringified to '["DB_PASSWORD=value"]'. The dockerfile-arg
-    // check parses the args string directly looking for KEY=value format with
-    // indexOf('='). The JSON brackets and quotes cause different parsing than
-    // expected for plain string args. We test both behaviors.
-
     it('should flag ARG with hardcoded secret default (string args)', async () => {
       const dockerfile = {
         path: '/test/Dockerfile',
@@ -315,6 +309,7 @@ services:
       expect(results).toHaveLength(1);
       expect(results[0].id).toBe('secrets.compose-env');
       expect(results[0].severity).toBe('error');
+      expect(results[0].line).toBe(6);
     });
 
     it('should flag plaintext secret in environment (array format)', async () => {
@@ -330,6 +325,7 @@ services:
       const results = await check.run(ctx);
 
       expect(results).toHaveLength(1);
+      expect(results[0].line).toBe(6);
     });
 
     it('should not flag variable references in environment', async () => {
@@ -347,6 +343,23 @@ services:
       expect(results).toHaveLength(0);
     });
 
+    it('should not flag secrets interpolated from .env', async () => {
+      const raw = `
+services:
+  web:
+    image: myapp
+    environment:
+      - DB_PASSWORD=\${DB_PASSWORD:?required}
+`;
+      const compose = parseCompose(raw, '/test/docker-compose.yml', {
+        DB_PASSWORD: { value: 'supersecret123', source: 'env-file', file: '/test/.env' },
+      });
+      const ctx = makeContext({ compose });
+      const results = await check.run(ctx);
+
+      expect(results).toHaveLength(0);
+    });
+
     it('should not flag non-secret variables', async () => {
       const raw = `
 services:
@@ -31,6 +31,7 @@ const { listContainers, inspectContainer, getContainerLogs } = await import('../
 await import('../../../src/checks/startup/index.js');
 
 import { getChecksByCategory } from '../../../src/checks/registry.js';
+import { parseCompose } from '../../../src/parsers/compose.js';
 
 function makeContext(overrides: Partial<CheckContext> = {}): CheckContext {
   return {
@@ -345,6 +346,21 @@ describe('startup checks', () => {
       expect(results[0].message).toContain('no matching running container was found');
     });
 
+    it('should point at the service environment in the compose file', async () => {
+      const check = findCheck(checks, 'startup.env-var-verification');
+      vi.mocked(listContainers).mockResolvedValue([]);
+      const ctx = makeContext({
+        compose: parseCompose(
+          'services:\n  db:\n    image: postgres\n  web:\n    image: node:20\n    env_file: .env\n',
+          '/test/docker-compose.yml',
+        ),
+      });
+      const results = await check.run(ctx);
+      expect(results).toHaveLength(1);
+      expect(results[0].location).toBe('/test/docker-compose.yml');
+      expect(results[0].line).toBe(6);
+    });
+
     it('should return nothing when no compose context is provided', async () => {
       const check = findCheck(checks, 'startup.env-var-verification');
       const ctx = makeContext(); // No compose
@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest';
-import { normalizeArgs } from '../../../src/checks/utils.js';
+import { normalizeArgs, composePosition, expandArgs, instructionScript } from '../../../src/checks/utils.js';
+import { parseDockerfile } from '../../../src/parsers/dockerfile.js';
+import { parseCompose, parseComposeFiles } from '../../../src/parsers/compose.js';
 
 describe('normalizeArgs', () => {
   it('should convert JSON array to space-joined string', () => {
@@ -31,3 +33,65 @@ describe('normalizeArgs', () => {
     expect(normalizeArgs('  plain string  ')).toBe('plain string');
   });
 });
+
+describe('expandArgs / instructionScript', () => {
+  const dockerfile = parseDockerfile(`FROM node:20
+ARG APP_DIR=/srv/app
+ENV TOOL=pnpm
+COPY \${APP_DIR}/package.json ./
+RUN $TOOL install && echo $HOME
+RUN <<EOF
+$TOOL build
+EOF
+RUN <<'EOF'
+$TOOL test
+EOF
+`, '/test/Dockerfile');
+  const [, , , copy, run, heredoc, quoted] = dockerfile.allInstructions;
+
+  it('should expand variables in scope in instruction arguments', () => {
+    expect(expandArgs(dockerfile, copy)).toBe('/srv/app/package.json ./');
+  });
+
+  it('should expand scripts, leaving shell variables and quoted heredocs alone', () => {
+    expect(instructionScript(run)).toBe('pnpm install && echo $HOME');
+    expect(instructionScript(heredoc)).toBe('<<EOF\npnpm build\n');
+    expect(instructionScript(quoted)).toBe("<<'EOF'\n$TOOL test\n");
+  });
+});
+
+describe('composePosition', () => {
+  const raw = `services:
+  web:
+    image: nginx
+    ports:
+      - "80:80"
+      - "443:443"
+    environment:
+      API_KEY: secret
+`;
+
+  it('should return the line of keys and sequence items', () => {
+    const compose = parseCompose(raw, '/test/compose.yml');
+
+    expect(composePosition(compose, 'services.web')).toEqual({ location: '/test/compose.yml', line: 2 });
+    expect(composePosition(compose, 'services.web.ports[1]')).toEqual({ location: '/test/compose.yml', line: 6 });
+    expect(composePosition(compose, 'services.web.environment.API_KEY').line).toBe(8);
+  });
+
+  it('should fall back to the closest ancestor written in the file', () => {
+    const compose = parseCompose(raw, '/test/compose.yml');
+
+    expect(composePosition(compose, 'services.web.healthcheck.test').line).toBe(2);
+    expect(composePosition(compose, 'volumes.data')).toEqual({ location: '/test/compose.yml' });
+  });
+
+  it('should use the line in the file that set the path', () => {
+    const compose = parseComposeFiles([
+      { path: '/test/compose.yml', raw },
+      { path: '/test/compose.prod.yml', raw: 'services:\n  web:\n    ports: !override\n      - "8080:80"\n' },
+    ]);
+
+    expect(composePosition(compose, 'services.web.ports[0]')).toEqual({ location: '/test/compose.prod.yml', line: 3 });
+  });
+});
@@ -1,4 +1,7 @@
 import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
 import type { Report, CheckContext } from '../../../src/types/index.js';
 
 // ── Mock functions ──────────────────────────────────────────────────────────
@@ -13,6 +16,7 @@ const mockCanUseTUI = vi.fn();
 const mockBrowseResultsTUI = vi.fn();
 const mockPromptFixes = vi.fn();
 const mockAutoApplyFixes = vi.fn();
+const mockPreviewAllFixes = vi.fn();
 const mockSpinnerStart = vi.fn();
 const mockSpinnerStop = vi.fn();
 
@@ -44,6 +48,7 @@ vi.mock('../../../src/ui/browse-tui.js', () => ({
 vi.mock('../../../src/ui/prompts.js', () => ({
   promptFixes: mockPromptFixes,
   autoApplyFixes: mockAutoApplyFixes,
+  previewAllFixes: mockPreviewAllFixes,
 }));
 
 vi.mock('@clack/prompts', () => ({
@@ -143,6 +148,72 @@ describe('checkCommand', () => {
     });
   });
 
+  describe('SARIF format', () => {
+    it('outputs a SARIF log and does not show interactive UI', async () => {
+      const report = makeReport(1);
+      mockRunChecks.mockResolvedValue(report);
+      const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      const exitCode = await checkCommand({ format: 'sarif' });
+
+      const sarif = JSON.parse(consoleSpy.mock.calls[0][0] as string);
+      expect(sarif.version).toBe('2.1.0');
+      expect(sarif.runs[0].results).toHaveLength(1);
+      expect(mockShowBanner).not.toHaveBeenCalled();
+      expect(exitCode).toBe(1);
+
+      consoleSpy.mockRestore();
+    });
+
+    it('takes precedence over --ci', async () => {
+      mockRunChecks.mockResolvedValue(makeReport(0));
+      const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      await checkCommand({ ci: true, format: 'sarif' });
+
+      expect(JSON.parse(consoleSpy.mock.calls[0][0] as string).version).toBe('2.1.0');
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('--output', () => {
+    it('writes the rendered report to the file instead of stdout', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'dockerdoctor-output-'));
+      const output = join(dir, 'report.html');
+      mockRunChecks.mockResolvedValue(makeReport(0));
+      const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const exitCode = await checkCommand({ format: 'html', output });
+
+      expect(readFileSync(output, 'utf-8')).toMatch(/^<!DOCTYPE html>/);
+      expect(logSpy).not.toHaveBeenCalled();
+      expect(errorSpy).toHaveBeenCalledWith(`Report written to ${output}`);
+      expect(exitCode).toBe(0);
+
+      logSpy.mockRestore();
+      errorSpy.mockRestore();
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('defaults to JSON when no format is given', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'dockerdoctor-output-'));
+      const output = join(dir, 'report.json');
+      const report = makeReport(0);
+      mockRunChecks.mockResolvedValue(report);
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      await checkCommand({ output });
+
+      expect(readFileSync(output, 'utf-8')).toBe(JSON.stringify(report, null, 2) + '\n');
+      expect(mockShowBanner).not.toHaveBeenCalled();
+
+      errorSpy.mockRestore();
+      rmSync(dir, { recursive: true, force: true });
+    });
+  });
+
   // ── Interactive mode ────────────────────────────────────────────────────
   describe('interactive mode', () => {
     it('calls showBanner, showContext, spinner, printResults, printSummary, and showOutro', async () => {
@@ -215,6 +286,23 @@ describe('checkCommand', () => {
     });
   });
 
+  // ── Config errors ───────────────────────────────────────────────────
+  describe('config errors', () => {
+    it('returns 2 and prints the error when the config file is invalid', async () => {
+      const { ConfigError } = await import('../../../src/config.js');
+      mockBuildContext.mockRejectedValue(new ConfigError('rules: unknown key', '/test/.dockerdoctorrc'));
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const exitCode = await checkCommand({ json: true });
+
+      expect(exitCode).toBe(2);
+      expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('rules: unknown key'));
+      expect(mockRunChecks).not.toHaveBeenCalled();
+
+      errorSpy.mockRestore();
+    });
+  });
+
   // ── Category / severity forwarding ────────────────────────────────────
   describe('options forwarding', () => {
     it('passes categories to runChecks when provided', async () => {
@@ -245,15 +333,37 @@ describe('checkCommand', () => {
       consoleSpy.mockRestore();
     });
 
+    it('passes concurrency and the check timeout in milliseconds to runChecks', async () => {
+      mockRunChecks.mockResolvedValue(makeReport(0));
+      const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      await checkCommand({ json: true, concurrency: 2, checkTimeout: 5 });
+
+      expect(mockRunChecks).toHaveBeenCalledWith(
+        mockContext,
+        expect.objectContaining({ concurrency: 2, timeoutMs: 5000 }),
+      );
+
+      consoleSpy.mockRestore();
+    });
+
     it('passes file and composefile options to buildContext', async () => {
       mockRunChecks.mockResolvedValue(makeReport(0));
       const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
 
-      await checkCommand({ json: true, file: '/custom/Dockerfile', composefile: '/custom/compose.yml' });
+      await checkCommand({
+        json: true,
+        file: '/custom/Dockerfile',
+        composefile: ['/custom/compose.yml'],
+        profile: ['debug'],
+        config: '/custom/.dockerdoctorrc',
+      });
 
       expect(mockBuildContext).toHaveBeenCalledWith(process.cwd(), {
         dockerfilePath: '/custom/Dockerfile',
-        composePath: '/custom/compose.yml',
+        composePath: ['/custom/compose.yml'],
+        profiles: ['debug'],
+        configPath: '/custom/.dockerdoctorrc',
       });
 
       consoleSpy.mockRestore();
@@ -274,6 +384,18 @@ describe('checkCommand', () => {
       expect(mockShowOutro).toHaveBeenCalledWith('Applied 2 fixes');
     });
 
+    it('previews fixes instead of applying them with --dry-run', async () => {
+      const report = makeReport(2, 2);
+      mockRunChecks.mockResolvedValue(report);
+      mockPreviewAllFixes.mockResolvedValue(2);
+
+      await checkCommand({ fix: true, dryRun: true, patch: 'fixes.patch' });
+
+      expect(mockPreviewAllFixes).toHaveBeenCalledWith(report.results, 'fixes.patch');
+      expect(mockAutoApplyFixes).not.toHaveBeenCalled();
+      expect(mockShowOutro).toHaveBeenCalledWith('Dry run: 2 files would change');
+    });
+
     it('calls autoApplyFixes with singular message when 1 fix applied', async () => {
       const report = makeReport(1, 1);
       mockRunChecks.mockResolvedValue(report);
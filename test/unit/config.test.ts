@@ -0,0 +1,178 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync, mkdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+  loadConfig,
+  findConfigFile,
+  validateConfig,
+  resolveCheckConfig,
+  isCheckEnabled,
+  ConfigError,
+} from '../../src/config.js';
+import { getNumberOption } from '../../src/checks/utils.js';
+import type { CheckContext } from '../../src/types/index.js';
+
+describe('config', () => {
+  const tempDirs: string[] = [];
+
+  function createTempDir(): string {
+    const dir = mkdtempSync(join(tmpdir(), 'dockerdoctor-config-'));
+    tempDirs.push(dir);
+    return dir;
+  }
+
+  afterEach(() => {
+    for (const dir of tempDirs) {
+      try {
+        rmSync(dir, { recursive: true, force: true });
+      } catch {
+        // ignore cleanup errors
+      }
+    }
+    tempDirs.length = 0;
+  });
+
+  describe('findConfigFile()', () => {
+    it('should find .dockerdoctorrc in the directory', () => {
+      const dir = createTempDir();
+      writeFileSync(join(dir, '.dockerdoctorrc'), '{}');
+      expect(findConfigFile(dir)).toBe(join(dir, '.dockerdoctorrc'));
+    });
+
+    it('should walk up to a parent directory', () => {
+      const dir = createTempDir();
+      const sub = join(dir, 'services', 'api');
+      mkdirSync(sub, { recursive: true });
+      writeFileSync(join(dir, 'dockerdoctor.config.yml'), 'checks: {}\n');
+      expect(findConfigFile(sub)).toBe(join(dir, 'dockerdoctor.config.yml'));
+    });
+
+    it('should prefer the nearest config file', () => {
+      const dir = createTempDir();
+      const sub = join(dir, 'app');
+      mkdirSync(sub);
+      writeFileSync(join(dir, '.dockerdoctorrc'), '{}');
+      writeFileSync(join(sub, '.dockerdoctorrc.json'), '{}');
+      expect(findConfigFile(sub)).toBe(join(sub, '.dockerdoctorrc.json'));
+    });
+  });
+
+  describe('loadConfig()', () => {
+    it('should return an empty config when no file exists', () => {
+      const dir = createTempDir();
+      const config = loadConfig(dir);
+      expect(config.path).toBeUndefined();
+      expect(config.checks).toEqual({});
+    });
+
+    it('should load a YAML config with shorthand entries', () => {
+      const dir = createTempDir();
+      writeFileSync(
+        join(dir, '.dockerdoctorrc.yml'),
+        `checks:
+  dockerfile.running-as-root: off
+  dockerfile.base-image-latest: error
+  image.layer-analysis:
+    options:
+      largeLayerBytes: 1048576
+`,
+      );
+
+      const config = loadConfig(dir);
+
+      expect(config.path).toBe(join(dir, '.dockerdoctorrc.yml'));
+      expect(config.checks['dockerfile.running-as-root']).toEqual({ enabled: false });
+      expect(config.checks['dockerfile.base-image-latest']).toEqual({ enabled: true, severity: 'error' });
+      expect(config.checks['image.layer-analysis'].options).toEqual({ largeLayerBytes: 1048576 });
+    });
+
+    it('should load a JSON config from an explicit path', () => {
+      const dir = createTempDir();
+      writeFileSync(
+        join(dir, 'custom.json'),
+        JSON.stringify({ checks: { 'compose.bind-mounts': false } }),
+      );
+
+      const config = loadConfig(dir, 'custom.json');
+
+      expect(config.checks['compose.bind-mounts']).toEqual({ enabled: false });
+    });
+
+    it('should throw ConfigError for malformed YAML', () => {
+      const dir = createTempDir();
+      writeFileSync(join(dir, '.dockerdoctorrc'), 'checks: [unclosed');
+      expect(() => loadConfig(dir)).toThrow(ConfigError);
+    });
+  });
+
+  describe('validateConfig()', () => {
+    it('should reject unknown top-level keys', () => {
+      expect(() => validateConfig({ rules: {} })).toThrow(/rules: unknown key/);
+    });
+
+    it('should reject invalid severities', () => {
+      expect(() => validateConfig({ checks: { 'a.b': 'critical' } })).toThrow(/checks\.a\.b/);
+      expect(() => validateConfig({ checks: { 'a.b': { severity: 'fatal' } } })).toThrow(/severity/);
+    });
+
+    it('should reject non-object options', () => {
+      expect(() => validateConfig({ checks: { 'a.b': { options: 5 } } })).toThrow(/options/);
+    });
+
+    it('should report every problem in one error', () => {
+      try {
+        validateConfig({ extra: 1, checks: { 'a.b': 'nope', 'c.d': { enabled: 'yes' } } });
+        expect.unreachable();
+      } catch (err) {
+        expect(err).toBeInstanceOf(ConfigError);
+        const message = (err as Error).message;
+        expect(message).toContain('extra');
+        expect(message).toContain('checks.a.b');
+        expect(message).toContain('checks.c.d.enabled');
+      }
+    });
+
+    it('should accept an empty document', () => {
+      expect(validateConfig(null).checks).toEqual({});
+    });
+  });
+
+  describe('resolveCheckConfig()', () => {
+    it('should apply category wildcards with exact IDs taking precedence', () => {
+      const config = validateConfig({
+        checks: {
+          'compose.*': 'off',
+          'compose.missing-healthcheck': { enabled: true, severity: 'error' },
+        },
+      });
+
+      expect(isCheckEnabled(config, 'compose.bind-mounts')).toBe(false);
+      expect(isCheckEnabled(config, 'compose.missing-healthcheck')).toBe(true);
+      expect(resolveCheckConfig(config, 'compose.missing-healthcheck').severity).toBe('error');
+      expect(isCheckEnabled(config, 'dockerfile.shell-form')).toBe(true);
+    });
+
+    it('should treat a missing config as all checks enabled', () => {
+      expect(isCheckEnabled(undefined, 'dockerfile.shell-form')).toBe(true);
+      expect(resolveCheckConfig(undefined, 'dockerfile.shell-form')).toEqual({});
+    });
+  });
+
+  describe('getNumberOption()', () => {
+    function makeContext(config?: CheckContext['config']): CheckContext {
+      return { cwd: '/test', config, dockerAvailable: false, files: { shellScripts: [] } };
+    }
+
+    it('should return the configured number', () => {
+      const ctx = makeContext(validateConfig({ checks: { 'x.y': { options: { limit: 10 } } } }));
+      expect(getNumberOption(ctx, 'x.y', 'limit', 99)).toBe(10);
+    });
+
+    it('should fall back when unset or not a number', () => {
+      const ctx = makeContext(validateConfig({ checks: { 'x.y': { options: { limit: '10' } } } }));
+      expect(getNumberOption(ctx, 'x.y', 'limit', 99)).toBe(99);
+      expect(getNumberOption(makeContext(), 'x.y', 'limit', 99)).toBe(99);
+    });
+  });
+});
@@ -3,6 +3,8 @@ import { mkdtempSync, writeFileSync, rmSync, mkdirSync } from 'node:fs';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
 import { buildContext } from '../../src/context.js';
+import { getChecksByCategory } from '../../src/checks/registry.js';
+import '../../src/checks/dockerfile/index.js';
 
 describe('buildContext()', () => {
   const tempDirs: string[] = [];
@@ -132,6 +134,126 @@ describe('buildContext()', () => {
     expect(ctx.files.composePath).toBe(customPath);
   });
 
+  it('should merge compose.override.yml with a discovered compose file', async () => {
+    const dir = createTempDir();
+    writeFileSync(join(dir, 'compose.yml'), 'services:\n  web:\n    image: nginx\n');
+    writeFileSync(join(dir, 'compose.override.yml'), 'services:\n  web:\n    ports: ["8080:80"]\n');
+
+    const ctx = await buildContext(dir);
+
+    expect(ctx.files.composePaths).toEqual([join(dir, 'compose.yml'), join(dir, 'compose.override.yml')]);
+    expect(ctx.compose!.services[0]).toMatchObject({ image: 'nginx', ports: ['8080:80'] });
+    expect(ctx.compose!.sources['services.web.ports']).toBe(join(dir, 'compose.override.yml'));
+  });
+
+  it('should merge explicit compose files in order without adding the override', async () => {
+    const dir = createTempDir();
+    writeFileSync(join(dir, 'compose.yml'), 'services:\n  web:\n    image: app:dev\n');
+    writeFileSync(join(dir, 'compose.override.yml'), 'services:\n  web:\n    image: app:override\n');
+    writeFileSync(join(dir, 'compose.prod.yml'), 'services:\n  web:\n    image: app:prod\n');
+
+    const ctx = await buildContext(dir, {
+      composePath: [join(dir, 'compose.yml'), join(dir, 'compose.prod.yml')],
+    });
+
+    expect(ctx.compose!.files.map((f) => f.path)).toEqual([join(dir, 'compose.yml'), join(dir, 'compose.prod.yml')]);
+    expect(ctx.compose!.services[0].image).toBe('app:prod');
+  });
+
+  it('should parse every Dockerfile variant in the directory', async () => {
+    const dir = createTempDir();
+    writeFileSync(join(dir, 'Dockerfile'), 'FROM node:20\n');
+    writeFileSync(join(dir, 'Dockerfile.worker'), 'FROM python:3.12\n');
+    writeFileSync(join(dir, 'api.Dockerfile'), 'FROM golang:1.22\n');
+
+    const ctx = await buildContext(dir);
+
+    expect(ctx.files.dockerfilePaths).toEqual([
+      join(dir, 'Dockerfile'),
+      join(dir, 'api.Dockerfile'),
+      join(dir, 'Dockerfile.worker'),
+    ]);
+    expect(ctx.dockerfiles!.map((d) => d.stages[0].baseImage)).toEqual(['node:20', 'golang:1.22', 'python:3.12']);
+    expect(ctx.dockerfile).toBe(ctx.dockerfiles![0]);
+  });
+
+  it('should add Dockerfiles referenced by compose build sections with their build args', async () => {
+    const dir = createTempDir();
+    mkdirSync(join(dir, 'services', 'api'), { recursive: true });
+    writeFileSync(join(dir, 'services', 'api', 'Containerfile'), 'ARG BASE_TAG\nFROM node:${BASE_TAG}\n');
+    mkdirSync(join(dir, 'worker'));
+    writeFileSync(join(dir, 'worker', 'Dockerfile'), 'FROM python:3.12\n');
+    writeFileSync(join(dir, 'Dockerfile'), 'FROM nginx:1.27\n');
+    writeFileSync(
+      join(dir, 'compose.yml'),
+      `services:
+  api:
+    build:
+      context: ./services/api
+      dockerfile: Containerfile
+      args:
+        BASE_TAG: 20-slim
+  worker:
+    build: ./worker
+  web:
+    build: .
+  remote:
+    build: https://github.com/example/app.git
+  missing:
+    build: ./does-not-exist
+`,
+    );
+
+    const ctx = await buildContext(dir);
+
+    expect(ctx.files.dockerfilePaths).toEqual([
+      join(dir, 'Dockerfile'),
+      join(dir, 'services', 'api', 'Containerfile'),
+      join(dir, 'worker', 'Dockerfile'),
+    ]);
+    expect(ctx.dockerfiles![1].stages[0].effectiveBaseImage).toBe('node:20-slim');
+    expect(ctx.dockerfiles!.map((d) => d.buildContext)).toEqual([dir, join(dir, 'services', 'api'), join(dir, 'worker')]);
+
+    const overridden = await buildContext(dir, { buildArgs: { BASE_TAG: '22' } });
+    expect(overridden.dockerfiles![1].stages[0].effectiveBaseImage).toBe('node:22');
+  });
+
+  it('should take the build target from compose, overridden by --target', async () => {
+    const dir = createTempDir();
+    writeFileSync(join(dir, 'Dockerfile'), 'FROM node:20 AS dev\nFROM node:20-slim AS prod\n');
+    writeFileSync(join(dir, 'compose.yml'), 'services:\n  web:\n    build:\n      context: .\n      target: dev\n');
+
+    expect((await buildContext(dir)).dockerfile?.targets).toEqual(['dev']);
+    expect((await buildContext(dir, { target: 'prod' })).dockerfile?.targets).toEqual(['prod']);
+  });
+
+  it('should keep the targets of every service building the same Dockerfile', async () => {
+    const dir = createTempDir();
+    writeFileSync(join(dir, 'Dockerfile'), 'FROM node:20 AS base\nFROM base AS dev\nFROM base AS prod\n');
+    writeFileSync(
+      join(dir, 'compose.yml'),
+      'services:\n  web:\n    build: .\n  dev:\n    build:\n      context: .\n      target: dev\n  worker:\n    build: .\n',
+    );
+
+    const ctx = await buildContext(dir);
+    expect(ctx.dockerfile?.targets).toEqual([undefined, 'dev']);
+
+    // `web` and `worker` build the final stage, so `prod` is used too
+    const unusedStage = getChecksByCategory('dockerfile').find((c) => c.id === 'dockerfile.unused-stage')!;
+    expect(await unusedStage.run(ctx)).toEqual([]);
+  });
+
+  it('should only use an explicit Dockerfile', async () => {
+    const dir = createTempDir();
+    writeFileSync(join(dir, 'Dockerfile'), 'FROM node:20\n');
+    writeFileSync(join(dir, 'Dockerfile.worker'), 'FROM python:3.12\n');
+
+    const ctx = await buildContext(dir, { dockerfilePath: join(dir, 'Dockerfile.worker') });
+
+    expect(ctx.files.dockerfilePaths).toEqual([join(dir, 'Dockerfile.worker')]);
+    expect(ctx.dockerfiles).toHaveLength(1);
+  });
+
   it('should set dockerAvailable as a boolean', async () => {
     const dir = createTempDir();
 
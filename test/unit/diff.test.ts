@@ -0,0 +1,93 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { execFileSync } from 'node:child_process';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { unifiedDiff, createPatch } from '../../src/diff.js';
+import type { FileEdit } from '../../src/types/index.js';
+
+const lines = (count: number, prefix = 'line') =>
+  Array.from({ length: count }, (_, i) => `${prefix} ${i + 1}\n`).join('');
+
+describe('unifiedDiff', () => {
+  it('renders a changed line with three lines of context', () => {
+    const before = lines(10);
+    const after = before.replace('line 5\n', 'line five\n');
+
+    expect(unifiedDiff({ path: '/repo/Dockerfile', before, after }, '/repo')).toBe(
+      [
+        '--- a/Dockerfile',
+        '+++ b/Dockerfile',
+        '@@ -2,7 +2,7 @@',
+        ' line 2',
+        ' line 3',
+        ' line 4',
+        '-line 5',
+        '+line five',
+        ' line 6',
+        ' line 7',
+        ' line 8',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('renders a new file against /dev/null', () => {
+    const diff = unifiedDiff({ path: '/repo/.dockerignore', after: 'node_modules\n.git\n' }, '/repo');
+
+    expect(diff).toBe('--- /dev/null\n+++ b/.dockerignore\n@@ -0,0 +1,2 @@\n+node_modules\n+.git\n');
+  });
+
+  it('marks a missing final newline', () => {
+    const diff = unifiedDiff({ path: '/repo/.dockerignore', before: 'dist', after: 'dist\n.env\n' }, '/repo');
+
+    expect(diff).toContain('-dist\n\\ No newline at end of file\n+dist\n+.env\n');
+  });
+
+  it('keeps distant changes in separate hunks and merges close ones', () => {
+    const before = lines(30);
+    const separate = before.replace('line 2\n', 'two\n').replace('line 20\n', 'twenty\n');
+    const merged = before.replace('line 2\n', 'two\n').replace('line 8\n', 'eight\n');
+
+    expect(unifiedDiff({ path: 'f', before, after: separate }, '/').match(/^@@/gm)).toHaveLength(2);
+    expect(unifiedDiff({ path: 'f', before, after: merged }, '/').match(/^@@/gm)).toHaveLength(1);
+  });
+
+  it('returns an empty string when nothing changes', () => {
+    expect(unifiedDiff({ path: 'f', before: 'same\n', after: 'same\n' }, '/')).toBe('');
+  });
+});
+
+describe('createPatch', () => {
+  const tempDirs: string[] = [];
+
+  afterEach(() => {
+    for (const dir of tempDirs) rmSync(dir, { recursive: true, force: true });
+    tempDirs.length = 0;
+  });
+
+  it('produces a patch git apply accepts', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'dockerdoctor-patch-'));
+    tempDirs.push(dir);
+    const base = lines(40);
+    const edits: FileEdit[] = [
+      {
+        path: join(dir, 'Dockerfile'),
+        before: base,
+        after: base.replace('line 3\n', 'three\n').replace('line 30\n', '').replace('line 39\n', 'line 39\nextra\n'),
+      },
+      { path: join(dir, 'entrypoint.sh'), before: '#!/bin/sh\r\nexec "$@"\r\n', after: '#!/bin/sh\nexec "$@"\n' },
+      { path: join(dir, '.dockerignore'), after: 'node_modules\n' },
+    ];
+    for (const edit of edits) {
+      if (edit.before !== undefined) writeFileSync(edit.path, edit.before);
+    }
+    writeFileSync(join(dir, 'fix.patch'), createPatch(edits, dir));
+
+    execFileSync('git', ['apply', 'fix.patch'], { cwd: dir });
+
+    for (const edit of edits) {
+      expect(readFileSync(edit.path, 'utf-8')).toBe(edit.after);
+    }
+  });
+});
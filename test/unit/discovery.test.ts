@@ -1,11 +1,15 @@
 import { describe, it, expect, afterEach } from 'vitest';
-import { mkdtempSync, writeFileSync, rmSync } from 'node:fs';
+import { mkdtempSync, writeFileSync, rmSync, mkdirSync } from 'node:fs';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
 import {
   looksLikeComposeFile,
   findComposeFile,
+  findComposeOverride,
   findAllComposeFiles,
+  findDockerfiles,
+  isDockerfileName,
+  findProjects,
 } from '../../src/discovery.js';
 
 describe('discovery', () => {
@@ -157,6 +161,33 @@ describe('discovery', () => {
     });
   });
 
+  describe('findComposeOverride()', () => {
+    it('finds the override file next to a standard compose file', () => {
+      const dir = createTempDir();
+      writeFileSync(join(dir, 'docker-compose.yml'), 'services: {}\n');
+      writeFileSync(join(dir, 'docker-compose.override.yml'), 'services: {}\n');
+
+      expect(findComposeOverride(join(dir, 'docker-compose.yml'))).toBe(
+        join(dir, 'docker-compose.override.yml'),
+      );
+    });
+
+    it('returns undefined when there is no override file', () => {
+      const dir = createTempDir();
+      writeFileSync(join(dir, 'compose.yaml'), 'services: {}\n');
+
+      expect(findComposeOverride(join(dir, 'compose.yaml'))).toBeUndefined();
+    });
+
+    it('ignores non-standard compose file names', () => {
+      const dir = createTempDir();
+      writeFileSync(join(dir, 'production.yml'), 'services: {}\n');
+      writeFileSync(join(dir, 'production.override.yml'), 'services: {}\n');
+
+      expect(findComposeOverride(join(dir, 'production.yml'))).toBeUndefined();
+    });
+  });
+
   describe('findAllComposeFiles()', () => {
     it('returns standard names first, then sniffed files', () => {
       const dir = createTempDir();
@@ -224,4 +255,92 @@ describe('discovery', () => {
       expect(findAllComposeFiles(dir)).toEqual([]);
     });
   });
+
+  describe('isDockerfileName()', () => {
+    it('accepts Dockerfile and Containerfile variants', () => {
+      for (const name of ['Dockerfile', 'dockerfile', 'Containerfile', 'Dockerfile.worker', 'api.Dockerfile', 'web.dockerfile']) {
+        expect(isDockerfileName(name), name).toBe(true);
+      }
+    });
+
+    it('rejects per-Dockerfile ignore files, docs and unrelated files', () => {
+      for (const name of ['Dockerfile.dockerignore', 'Dockerfile.md', 'Dockerfile~', 'docker-compose.yml', 'Dockerfiles']) {
+        expect(isDockerfileName(name), name).toBe(false);
+      }
+    });
+  });
+
+  describe('findDockerfiles()', () => {
+    it('returns standard names first, then variants alphabetically', () => {
+      const dir = createTempDir();
+      for (const name of ['worker.Dockerfile', 'Dockerfile.prod', 'Containerfile', 'Dockerfile', 'README.md']) {
+        writeFileSync(join(dir, name), 'FROM alpine\n');
+      }
+
+      expect(findDockerfiles(dir)).toEqual([
+        join(dir, 'Dockerfile'),
+        join(dir, 'Containerfile'),
+        join(dir, 'Dockerfile.prod'),
+        join(dir, 'worker.Dockerfile'),
+      ]);
+    });
+
+    it('skips directories and missing directories', () => {
+      const dir = createTempDir();
+      mkdirSync(join(dir, 'Dockerfile.d'));
+
+      expect(findDockerfiles(dir)).toEqual([]);
+      expect(findDockerfiles(join(dir, 'missing'))).toEqual([]);
+    });
+  });
+
+  describe('findProjects()', () => {
+    function touch(dir: string, path: string, content = ''): void {
+      mkdirSync(join(dir, path, '..'), { recursive: true });
+      writeFileSync(join(dir, path), content);
+    }
+
+    it('finds every directory with a Dockerfile, compose file or .dockerignore', () => {
+      const dir = createTempDir();
+      touch(dir, 'docker-compose.yml', 'services:\n  web:\n    image: nginx\n');
+      touch(dir, 'services/api/Dockerfile', 'FROM node:20\n');
+      touch(dir, 'services/web/web.Dockerfile', 'FROM nginx\n');
+      touch(dir, 'tools/cli/.dockerignore', 'node_modules\n');
+      touch(dir, 'docs/README.md', '# docs\n');
+
+      expect(findProjects(dir)).toEqual([
+        dir,
+        join(dir, 'services', 'api'),
+        join(dir, 'services', 'web'),
+        join(dir, 'tools', 'cli'),
+      ]);
+    });
+
+    it('skips directories excluded by .gitignore files at any level', () => {
+      const dir = createTempDir();
+      touch(dir, '.gitignore', 'generated/\n');
+      touch(dir, 'generated/Dockerfile', 'FROM alpine\n');
+      touch(dir, 'apps/api/Dockerfile', 'FROM alpine\n');
+      touch(dir, 'apps/.gitignore', 'legacy\n');
+      touch(dir, 'apps/legacy/Dockerfile', 'FROM alpine\n');
+
+      expect(findProjects(dir)).toEqual([join(dir, 'apps', 'api')]);
+    });
+
+    it('skips node_modules and hidden directories', () => {
+      const dir = createTempDir();
+      touch(dir, 'node_modules/pkg/Dockerfile', 'FROM alpine\n');
+      touch(dir, '.cache/Dockerfile', 'FROM alpine\n');
+
+      expect(findProjects(dir)).toEqual([]);
+    });
+
+    it('stops descending at maxDepth', () => {
+      const dir = createTempDir();
+      touch(dir, 'a/Dockerfile', 'FROM alpine\n');
+      touch(dir, 'a/b/c/Dockerfile', 'FROM alpine\n');
+
+      expect(findProjects(dir, 1)).toEqual([join(dir, 'a')]);
+    });
+  });
 });
@@ -8,6 +8,8 @@ const mockListNetworks = vi.fn();
 const mockDf = vi.fn();
 const mockContainerInspect = vi.fn();
 const mockContainerLogs = vi.fn();
+const mockImageInspect = vi.fn();
+const mockGetImage = vi.fn().mockReturnValue({ inspect: mockImageInspect });
 const mockGetContainer = vi.fn().mockReturnValue({
   inspect: mockContainerInspect,
   logs: mockContainerLogs,
@@ -24,6 +26,7 @@ vi.mock('dockerode', () => {
         listNetworks: mockListNetworks,
         df: mockDf,
         getContainer: mockGetContainer,
+        getImage: mockGetImage,
       };
     },
   };
@@ -35,6 +38,7 @@ const {
   ping,
   listContainers,
   listImages,
+  getImageRepoDigests,
   listVolumes,
   listNetworks,
   inspectContainer,
@@ -49,6 +53,7 @@ beforeEach(() => {
     inspect: mockContainerInspect,
     logs: mockContainerLogs,
   });
+  mockGetImage.mockReturnValue({ inspect: mockImageInspect });
 });
 
 describe('getClient', () => {
@@ -244,6 +249,19 @@ describe('listNetworks', () => {
   });
 });
 
+describe('getImageRepoDigests', () => {
+  it('returns the digests the image was pulled by', async () => {
+    mockImageInspect.mockResolvedValue({ RepoDigests: ['node@sha256:abc'] });
+    expect(await getImageRepoDigests('node:20')).toEqual(['node@sha256:abc']);
+    expect(mockGetImage).toHaveBeenCalledWith('node:20');
+  });
+
+  it('returns an empty list when the image is not present', async () => {
+    mockImageInspect.mockRejectedValue(new Error('No such image'));
+    expect(await getImageRepoDigests('node:20')).toEqual([]);
+  });
+});
+
 describe('inspectContainer', () => {
   it('calls inspect on the container', async () => {
     const inspectData = { Id: 'abc', State: { Running: true } };
@@ -1,4 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
 
 const mockExeca = vi.fn();
 vi.mock('execa', () => ({
@@ -106,24 +109,25 @@ describe('dockerLogs', () => {
 });
 
 describe('dockerBuildContextSize', () => {
-  it('returns size in bytes from du output', async () => {
-    mockExeca.mockResolvedValue({ stdout: '12345\t/path/to/context', stderr: '', exitCode: 0 });
-    const size = await dockerBuildContextSize('/path/to/context');
-    expect(size).toBe(12345);
-    expect(mockExeca).toHaveBeenCalledWith('du', ['-sb', '/path/to/context'], { timeout: 10000 });
-  });
-
-  it('returns -1 when du fails', async () => {
-    mockExeca.mockRejectedValue(new Error('command not found'));
-    const size = await dockerBuildContextSize('/bad/path');
+  it('sums the files the .dockerignore leaves in the context', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'dockerdoctor-context-'));
+    try {
+      mkdirSync(join(dir, 'node_modules'));
+      writeFileSync(join(dir, 'node_modules', 'big.js'), 'x'.repeat(1000));
+      writeFileSync(join(dir, 'server.js'), 'x'.repeat(40));
+      writeFileSync(join(dir, '.dockerignore'), 'node_modules\n');
+
+      expect(await dockerBuildContextSize(dir)).toBe(40 + 'node_modules\n'.length);
+      expect(mockExeca).not.toHaveBeenCalled();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('returns -1 when the context cannot be read', async () => {
+    const size = await dockerBuildContextSize('/no/such/context');
     expect(size).toBe(-1);
   });
-
-  it('returns 0 for unparseable output', async () => {
-    mockExeca.mockResolvedValue({ stdout: 'garbage', stderr: '', exitCode: 0 });
-    const size = await dockerBuildContextSize('/test');
-    expect(size).toBe(0);
-  });
 });
 
 describe('dockerImageHistory', () => {
@@ -0,0 +1,96 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+  detectStacks,
+  isNeededBySources,
+  tailoredSections,
+  generateDockerignore,
+} from '../../src/dockerignore.js';
+import { parseDockerfile } from '../../src/parsers/dockerfile.js';
+import type { CheckContext } from '../../src/types/index.js';
+
+describe('dockerignore generator', () => {
+  const tempDirs: string[] = [];
+
+  function createProject(files: string[]): string {
+    const dir = mkdtempSync(join(tmpdir(), 'dockerdoctor-stacks-'));
+    tempDirs.push(dir);
+    for (const file of files) writeFileSync(join(dir, file), '');
+    return dir;
+  }
+
+  afterEach(() => {
+    for (const dir of tempDirs) rmSync(dir, { recursive: true, force: true });
+    tempDirs.length = 0;
+  });
+
+  describe('detectStacks()', () => {
+    it('recognizes stacks by their marker files', () => {
+      const dir = createProject(['package.json', 'pyproject.toml', 'Api.csproj', 'build.gradle.kts', 'Gemfile']);
+      expect(detectStacks(dir)).toEqual(['node', 'python', 'gradle', 'dotnet', 'ruby']);
+    });
+
+    it('returns nothing for a missing directory', () => {
+      expect(detectStacks('/no/such/dir')).toEqual([]);
+    });
+  });
+
+  describe('isNeededBySources()', () => {
+    it('protects copied paths and their parent directories', () => {
+      expect(isNeededBySources('dist', ['./dist/'])).toBe(true);
+      expect(isNeededBySources('build', ['build/libs/app.jar'])).toBe(true);
+      expect(isNeededBySources('*.log', ['app.log'])).toBe(true);
+      expect(isNeededBySources('dist', ['dist*'])).toBe(true);
+    });
+
+    it('matches entries the way Docker does', () => {
+      expect(isNeededBySources('**/node_modules', ['node_modules/pkg'])).toBe(true);
+      expect(isNeededBySources('**/*.log', ['logs/app.log'])).toBe(true);
+      expect(isNeededBySources('\\*.md', ['README.md'])).toBe(false);
+      expect(isNeededBySources('\\*.md', ['*.md'])).toBe(true);
+    });
+
+    it('ignores whole-context copies and unrelated paths', () => {
+      expect(isNeededBySources('node_modules', ['.', 'src', 'package*.json'])).toBe(false);
+    });
+  });
+
+  describe('tailoredSections()', () => {
+    it('combines general and stack entries, minus what the Dockerfile copies', () => {
+      const dir = createProject(['go.mod', 'Cargo.toml']);
+      const dockerfile = parseDockerfile(
+        'FROM golang:1.22\nARG OUT=bin\nCOPY ${OUT}/ /app/\nCOPY --from=build /src/target /x\nCOPY . .\n',
+        join(dir, 'Dockerfile'),
+      );
+      const context: CheckContext = { cwd: dir, dockerfile, dockerAvailable: false, files: { shellScripts: [] } };
+
+      const sections = tailoredSections(context);
+
+      expect(sections.map((s) => s.label)).toEqual(['General', 'Go', 'Rust']);
+      expect(sections[1].entries).toEqual(['*.test', '*.out']);
+      expect(sections[2].entries).toEqual(['target']);
+    });
+  });
+
+  describe('generateDockerignore()', () => {
+    const sections = [
+      { label: 'General', entries: ['.git', '.env'] },
+      { label: 'Python', entries: ['__pycache__', '.venv'] },
+    ];
+
+    it('writes one block per section for a new file', () => {
+      expect(generateDockerignore(sections)).toBe('# General\n.git\n.env\n\n# Python\n__pycache__\n.venv\n');
+    });
+
+    it('appends only what an existing file lacks and keeps re-included entries out', () => {
+      expect(generateDockerignore(sections, '.git/\n!.env\n__pycache__')).toBe(
+        '.git/\n!.env\n__pycache__\n\n# Added by dockerdoctor\n# Python\n.venv\n',
+      );
+      expect(generateDockerignore(sections, '.git\n.env\n__pycache__\n.venv\n')).toBe(
+        '.git\n.env\n__pycache__\n.venv\n',
+      );
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+  editFix,
+  previewFixes,
+  readCurrent,
+  applyFixes,
+  undoFixes,
+  validateEdit,
+  FixBackupError,
+  BACKUP_DIR,
+} from '../../src/fixes.js';
+import type { Fix } from '../../src/types/index.js';
+
+describe('fixes', () => {
+  const tempDirs: string[] = [];
+
+  function createTempDir(): string {
+    const dir = mkdtempSync(join(tmpdir(), 'dockerdoctor-fixes-'));
+    tempDirs.push(dir);
+    return dir;
+  }
+
+  afterEach(() => {
+    for (const dir of tempDirs) rmSync(dir, { recursive: true, force: true });
+    tempDirs.length = 0;
+  });
+
+  const append = (path: string, line: string): Fix =>
+    editFix(`Append ${line}`, async (read) => {
+      const before = read(path);
+      return [{ path, before, after: (before ?? '') + line + '\n' }];
+    });
+
+  describe('editFix()', () => {
+    it('writes the computed edits on apply', async () => {
+      const dir = createTempDir();
+      const path = join(dir, '.dockerignore');
+      writeFileSync(path, 'node_modules\n');
+
+      expect(await append(path, '.git').apply!()).toBe(true);
+      expect(readFileSync(path, 'utf-8')).toBe('node_modules\n.git\n');
+    });
+
+    it('reports failure when the edits cannot be computed', async () => {
+      const fix = editFix('Broken', async () => {
+        throw new Error('nope');
+      });
+      expect(await fix.apply!()).toBe(false);
+    });
+  });
+
+  describe('previewFixes()', () => {
+    it('chains edits to the same file without touching the disk', async () => {
+      const dir = createTempDir();
+      const path = join(dir, '.dockerignore');
+      writeFileSync(path, 'node_modules\n');
+
+      const { edits } = await previewFixes([append(path, '.git'), append(path, '.env')]);
+
+      expect(edits).toEqual([{ path, before: 'node_modules\n', after: 'node_modules\n.git\n.env\n' }]);
+      expect(readCurrent(path)).toBe('node_modules\n');
+    });
+
+    it('separates fixes that cannot be previewed or fail', async () => {
+      const legacy: Fix = { description: 'Legacy', type: 'auto', apply: async () => true };
+      const broken = editFix('Broken', async () => {
+        throw new Error('nope');
+      });
+
+      const { edits, unsupported, failed } = await previewFixes([legacy, broken]);
+
+      expect(edits).toEqual([]);
+      expect(unsupported).toEqual([legacy]);
+      expect(failed).toEqual([broken]);
+    });
+
+    it('leaves out edits that change nothing', async () => {
+      const dir = createTempDir();
+      const path = join(dir, 'a.sh');
+      writeFileSync(path, 'echo hi\n');
+      const noop = editFix('Noop', async (read) => [{ path, before: read(path), after: read(path)! }]);
+
+      expect((await previewFixes([noop])).edits).toEqual([]);
+    });
+  });
+
+  const replace = (path: string, from: string, to: string): Fix =>
+    editFix(`Replace ${from}`, async (read) => [{ path, before: read(path), after: read(path)!.replace(from, to) }]);
+
+  describe('validateEdit()', () => {
+    it('accepts valid Dockerfiles and compose files', () => {
+      expect(validateEdit('/repo/Dockerfile', 'FROM node:20\nUSER node\n')).toBeUndefined();
+      expect(validateEdit('/repo/compose.yml', 'services:\n  web:\n    image: nginx\n')).toBeUndefined();
+      expect(validateEdit('/repo/.dockerignore', 'not: [yaml')).toBeUndefined();
+    });
+
+    it('rejects unknown instructions, missing FROM and broken YAML', () => {
+      expect(validateEdit('/repo/Dockerfile', 'FROM node:20\nUSR node\n')).toContain('unknown instruction USR');
+      expect(validateEdit('/repo/api.Dockerfile', 'ARG V=1\nRUN true\n')).toBe('line 2: RUN before the first FROM');
+      expect(validateEdit('/repo/compose.yml', 'services: [web\n')).toBeDefined();
+    });
+  });
+
+  describe('applyFixes()', () => {
+    it('backs up the original files and writes every edit', async () => {
+      const dir = createTempDir();
+      const path = join(dir, '.dockerignore');
+      writeFileSync(path, 'node_modules\n');
+
+      const { applied, failed, rolledBack } = await applyFixes([append(path, '.git'), append(path, '.env')], dir);
+
+      expect(applied).toHaveLength(2);
+      expect(failed).toEqual([]);
+      expect(rolledBack).toBe(false);
+      expect(readFileSync(path, 'utf-8')).toBe('node_modules\n.git\n.env\n');
+      expect(readFileSync(join(dir, BACKUP_DIR, '0.bak'), 'utf-8')).toBe('node_modules\n');
+    });
+
+    it('writes nothing when a fix would leave a Dockerfile that does not parse', async () => {
+      const dir = createTempDir();
+      const dockerfile = join(dir, 'Dockerfile');
+      const ignore = join(dir, '.dockerignore');
+      writeFileSync(dockerfile, 'FROM node:20\nUSER node\n');
+      writeFileSync(ignore, 'node_modules\n');
+      const breaking = replace(dockerfile, 'USER', 'USR');
+
+      const { applied, failed, rolledBack } = await applyFixes([append(ignore, '.git'), breaking], dir);
+
+      expect(rolledBack).toBe(true);
+      expect(applied).toEqual([]);
+      expect(failed[0].fix).toBe(breaking);
+      expect(failed[0].error).toContain('unknown instruction USR');
+      expect(readFileSync(ignore, 'utf-8')).toBe('node_modules\n');
+      expect(existsSync(join(dir, BACKUP_DIR))).toBe(false);
+    });
+
+    it('writes nothing when a fix throws', async () => {
+      const dir = createTempDir();
+      const path = join(dir, '.dockerignore');
+      writeFileSync(path, 'node_modules\n');
+      const broken = editFix('Broken', async () => {
+        throw new Error('nope');
+      });
+
+      const { failed, rolledBack } = await applyFixes([append(path, '.git'), broken], dir);
+
+      expect(rolledBack).toBe(true);
+      expect(failed).toEqual([{ fix: broken, error: 'nope' }]);
+      expect(readFileSync(path, 'utf-8')).toBe('node_modules\n');
+    });
+
+    it('runs fixes without edits after the transaction', async () => {
+      const dir = createTempDir();
+      const legacy: Fix = { description: 'Legacy', type: 'auto', apply: async () => false };
+
+      const { applied, failed, rolledBack } = await applyFixes([legacy], dir);
+
+      expect(applied).toEqual([]);
+      expect(failed).toEqual([{ fix: legacy, error: 'fix reported failure' }]);
+      expect(rolledBack).toBe(false);
+    });
+  });
+
+  describe('undoFixes()', () => {
+    it('restores changed files and removes created ones', async () => {
+      const dir = createTempDir();
+      const dockerfile = join(dir, 'Dockerfile');
+      const created = join(dir, '.dockerignore');
+      writeFileSync(dockerfile, 'FROM node:20\n');
+      await applyFixes([append(dockerfile, 'USER node'), append(created, 'node_modules')], dir);
+
+      expect(undoFixes(dir)).toEqual([dockerfile, created]);
+      expect(readFileSync(dockerfile, 'utf-8')).toBe('FROM node:20\n');
+      expect(existsSync(created)).toBe(false);
+      expect(existsSync(join(dir, BACKUP_DIR))).toBe(false);
+    });
+
+    it('refuses to overwrite files edited after the fix', async () => {
+      const dir = createTempDir();
+      const path = join(dir, '.dockerignore');
+      writeFileSync(path, 'node_modules\n');
+      await applyFixes([append(path, '.git')], dir);
+      writeFileSync(path, 'edited\n');
+
+      expect(() => undoFixes(dir)).toThrow(/Changed since the fixes were applied/);
+      expect(readFileSync(path, 'utf-8')).toBe('edited\n');
+      expect(existsSync(join(dir, BACKUP_DIR, 'manifest.json'))).toBe(true);
+    });
+
+    it('throws when there is nothing to undo', () => {
+      expect(() => undoFixes(createTempDir())).toThrow(FixBackupError);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { formatHtml } from '../../../src/formatters/html.js';
+import type { CheckResult, Report } from '../../../src/types/index.js';
+
+function makeResult(overrides: Partial<CheckResult> = {}): CheckResult {
+  return {
+    id: 'dockerfile.shell-form',
+    title: 'CMD uses shell form',
+    severity: 'warning',
+    category: 'dockerfile',
+    message: 'Signals are not forwarded',
+    fixes: [],
+    ...overrides,
+  };
+}
+
+function makeReport(results: CheckResult[]): Report {
+  return {
+    timestamp: '2026-01-01T00:00:00.000Z',
+    version: '1.2.3',
+    dockerAvailable: false,
+    results,
+    summary: {
+      total: results.length,
+      errors: results.filter((r) => r.severity === 'error').length,
+      warnings: results.filter((r) => r.severity === 'warning').length,
+      info: results.filter((r) => r.severity === 'info').length,
+      fixable: 0,
+      suppressed: 2,
+      baselined: 0,
+    },
+  };
+}
+
+describe('formatHtml()', () => {
+  const tempDirs: string[] = [];
+
+  function createTempDir(): string {
+    const dir = mkdtempSync(join(tmpdir(), 'dockerdoctor-html-'));
+    tempDirs.push(dir);
+    return dir;
+  }
+
+  afterEach(() => {
+    for (const dir of tempDirs) {
+      rmSync(dir, { recursive: true, force: true });
+    }
+    tempDirs.length = 0;
+  });
+
+  it('should produce a self-contained page with summary cards', () => {
+    const html = formatHtml(makeReport([makeResult(), makeResult({ severity: 'error' })]), '/test');
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('<style>');
+    expect(html).not.toMatch(/<script|<link/);
+    expect(html).toContain('<div class="card error"><div class="value">1</div><div class="label">Errors</div></div>');
+    expect(html).toContain('<div class="value">2</div><div class="label">Suppressed</div>');
+    expect(html).not.toContain('Baselined');
+  });
+
+  it('should group findings into collapsible categories', () => {
+    const html = formatHtml(
+      makeReport([makeResult(), makeResult({ id: 'compose.static-ip', category: 'compose', title: 'Static IP' })]),
+      '/test',
+    );
+
+    expect(html).toContain('<summary>Dockerfile <span class="count">1</span></summary>');
+    expect(html).toContain('<summary>Compose <span class="count">1</span></summary>');
+  });
+
+  it('should escape finding text and highlight YAML fix instructions', () => {
+    const html = formatHtml(
+      makeReport([
+        makeResult({
+          title: 'Use <exec> & "form"',
+          fixes: [
+            {
+              description: 'Add a healthcheck',
+              type: 'manual',
+              instructions: 'Add to compose:\n```yaml\nhealthcheck:\n  retries: 3\n```',
+            },
+          ],
+        }),
+      ]),
+      '/test',
+    );
+
+    expect(html).toContain('Use &lt;exec&gt; &amp; &quot;form&quot;');
+    expect(html).toContain('<span class="hl-key">healthcheck</span>');
+    expect(html).toContain('<span class="hl-literal">3</span>');
+    expect(html).not.toContain('```');
+  });
+
+  it('should annotate findings on the offending source line', () => {
+    const dir = createTempDir();
+    const path = join(dir, 'Dockerfile');
+    writeFileSync(path, 'FROM node:20\nCMD node <index>.js\n');
+
+    const html = formatHtml(makeReport([makeResult({ location: path, line: 2 })]), dir);
+
+    expect(html).toContain('<summary>Dockerfile</summary>');
+    expect(html).toContain(
+      '<tr id="src-Dockerfile-L2" class="flagged warning"><td class="lineno">2</td><td class="code">CMD node &lt;index&gt;.js</td></tr>',
+    );
+    expect(html).toContain('<tr class="annotation warning">');
+    expect(html).toContain('<a class="location" href="#src-Dockerfile-L2">Dockerfile:2</a>');
+  });
+
+  it('should show an all-clear message when there are no findings', () => {
+    expect(formatHtml(makeReport([]), '/test')).toContain('All clear');
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { formatJunit } from '../../../src/formatters/junit.js';
+import type { Check, CheckResult, Report } from '../../../src/types/index.js';
+
+function makeCheck(overrides: Partial<Check> = {}): Check {
+  return {
+    id: 'dockerfile.shell-form',
+    name: 'Shell form CMD/ENTRYPOINT',
+    category: 'dockerfile',
+    requiresDocker: false,
+    run: async () => [],
+    ...overrides,
+  };
+}
+
+function makeResult(overrides: Partial<CheckResult> = {}): CheckResult {
+  return {
+    id: 'dockerfile.shell-form',
+    title: 'CMD uses shell form',
+    severity: 'warning',
+    category: 'dockerfile',
+    message: 'Signals are not forwarded',
+    location: '/test/Dockerfile',
+    line: 7,
+    fixes: [],
+    ...overrides,
+  };
+}
+
+function makeReport(results: CheckResult[], skipped: Report['skipped'] = []): Report {
+  return {
+    timestamp: '2026-01-01T00:00:00.000Z',
+    version: '1.2.3',
+    dockerAvailable: false,
+    results,
+    summary: {
+      total: results.length,
+      errors: 0,
+      warnings: results.length,
+      info: 0,
+      fixable: 0,
+      suppressed: 0,
+      baselined: 0,
+    },
+    skipped,
+  };
+}
+
+const checks = [
+  makeCheck(),
+  makeCheck({ id: 'dockerfile.npm-install', name: 'npm install' }),
+  makeCheck({ id: 'image.image-size', name: 'Image size', category: 'image', requiresDocker: true }),
+];
+
+describe('formatJunit()', () => {
+  it('should emit one testsuite per category and one testcase per check', () => {
+    const xml = formatJunit(makeReport([]), checks, '/test');
+
+    expect(xml).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>/);
+    expect(xml).toContain('<testsuites name="dockerdoctor" tests="3" failures="0" errors="0" skipped="0">');
+    expect(xml).toContain('<testsuite name="dockerfile" timestamp="2026-01-01T00:00:00.000Z" tests="2"');
+    expect(xml).toContain('<testsuite name="image" timestamp="2026-01-01T00:00:00.000Z" tests="1"');
+    expect(xml).toContain('<testcase classname="dockerdoctor.dockerfile" name="dockerfile.npm-install"/>');
+  });
+
+  it('should report error and warning results as failures', () => {
+    const xml = formatJunit(
+      makeReport([makeResult(), makeResult({ severity: 'error', title: 'Second' })]),
+      checks,
+      '/test',
+    );
+
+    expect(xml).toContain('<failure message="2 findings" type="error">');
+    expect(xml).toContain('[warning] CMD uses shell form (Dockerfile:7)');
+    expect(xml).toContain('<testsuite name="dockerfile" timestamp="2026-01-01T00:00:00.000Z" tests="2" failures="1"');
+  });
+
+  it('should put info results in system-out without failing the testcase', () => {
+    const xml = formatJunit(makeReport([makeResult({ severity: 'info' })]), checks, '/test');
+
+    expect(xml).not.toContain('<failure');
+    expect(xml).toContain('<system-out>[info] CMD uses shell form');
+  });
+
+  it('should mark checks that did not run as skipped', () => {
+    const xml = formatJunit(
+      makeReport([], [{ id: 'image.image-size', reason: 'docker-unavailable' }]),
+      checks,
+      '/test',
+    );
+
+    expect(xml).toContain('<skipped message="Docker daemon not available"/>');
+    expect(xml).toContain('tests="3" failures="0" errors="0" skipped="1"');
+  });
+
+  it('should escape XML special characters', () => {
+    const xml = formatJunit(
+      makeReport([makeResult({ title: 'Use "exec" <form> & more', message: 'a\u0007b' })]),
+      checks,
+      '/test',
+    );
+
+    expect(xml).toContain('message="Use &quot;exec&quot; &lt;form&gt; &amp; more"');
+    expect(xml).toContain('ab');
+    expect(xml).not.toContain('\u0007');
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { formatSarif } from '../../../src/formatters/sarif.js';
+import type { Check, CheckResult, Report } from '../../../src/types/index.js';
+
+function makeCheck(overrides: Partial<Check> = {}): Check {
+  return {
+    id: 'dockerfile.shell-form',
+    name: 'Shell form CMD/ENTRYPOINT',
+    category: 'dockerfile',
+    requiresDocker: false,
+    run: async () => [],
+    ...overrides,
+  };
+}
+
+function makeResult(overrides: Partial<CheckResult> = {}): CheckResult {
+  return {
+    id: 'dockerfile.shell-form',
+    title: 'CMD uses shell form',
+    severity: 'warning',
+    category: 'dockerfile',
+    message: 'Signals are not forwarded',
+    location: '/test/docker/Dockerfile',
+    line: 7,
+    fixes: [{ description: 'Use exec form', type: 'manual', instructions: 'CMD ["node", "index.js"]' }],
+    ...overrides,
+  };
+}
+
+function makeReport(results: CheckResult[]): Report {
+  return {
+    timestamp: '2026-01-01T00:00:00.000Z',
+    version: '1.2.3',
+    dockerAvailable: false,
+    results,
+    summary: {
+      total: results.length,
+      errors: 0,
+      warnings: results.length,
+      info: 0,
+      fixable: 0,
+      suppressed: 0,
+      baselined: 0,
+    },
+  };
+}
+
+describe('formatSarif()', () => {
+  it('should describe the tool and every registered check as a rule', () => {
+    const checks = [makeCheck(), makeCheck({ id: 'image.image-size', name: 'Image size', category: 'image', requiresDocker: true })];
+    const log = formatSarif(makeReport([makeResult()]), checks, '/test');
+    const { driver } = log.runs[0].tool;
+
+    expect(log.version).toBe('2.1.0');
+    expect(driver.name).toBe('dockerdoctor');
+    expect(driver.version).toBe('1.2.3');
+    expect(driver.rules.map((r) => r.id)).toEqual(['dockerfile.shell-form', 'image.image-size']);
+    expect(driver.rules[0].name).toBe('DockerfileShellForm');
+    expect(driver.rules[0].help?.text).toBe('CMD ["node", "index.js"]');
+    expect(driver.rules[1].help).toBeUndefined();
+    expect(driver.rules[1].properties).toEqual({ category: 'image', requiresDocker: true });
+  });
+
+  it('should map severities to SARIF levels', () => {
+    const log = formatSarif(
+      makeReport([
+        makeResult({ severity: 'error' }),
+        makeResult({ severity: 'warning' }),
+        makeResult({ severity: 'info' }),
+      ]),
+      [makeCheck()],
+      '/test',
+    );
+
+    expect(log.runs[0].results.map((r) => r.level)).toEqual(['error', 'warning', 'note']);
+  });
+
+  it('should use relative URIs against %SRCROOT% with the line as region', () => {
+    const log = formatSarif(makeReport([makeResult()]), [makeCheck()], '/test');
+    const [result] = log.runs[0].results;
+
+    expect(result.ruleIndex).toBe(0);
+    expect(result.locations?.[0].physicalLocation).toEqual({
+      artifactLocation: { uri: 'docker/Dockerfile', uriBaseId: '%SRCROOT%' },
+      region: { startLine: 7 },
+    });
+    expect(log.runs[0].originalUriBaseIds['%SRCROOT%'].uri).toBe('file:///test/');
+  });
+
+  it('should omit locations for results without a file', () => {
+    const log = formatSarif(makeReport([makeResult({ location: undefined, line: undefined })]), [makeCheck()], '/test');
+    expect(log.runs[0].results[0].locations).toBeUndefined();
+  });
+
+  it('should attach the baseline fingerprint to every result', () => {
+    const log = formatSarif(
+      makeReport([makeResult({ title: 'A', line: undefined }), makeResult({ title: 'B', line: undefined })]),
+      [makeCheck()],
+      '/test',
+    );
+    const [a, b] = log.runs[0].results.map((r) => r.partialFingerprints['dockerdoctor/v1']);
+
+    expect(a).toMatch(/^[0-9a-f]{32}$/);
+    expect(a).not.toBe(b);
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect } from 'vitest';
+import { parse as parseYaml } from 'yaml';
+import { COMPOSE_TAGS, mergeComposeDocuments } from '../../../src/parsers/compose-merge.js';
+
+function merge(...raws: string[]) {
+  return mergeComposeDocuments(
+    raws.map((raw, i) => ({
+      path: `/test/file${i}.yml`,
+      doc: parseYaml(raw, { customTags: COMPOSE_TAGS }) as Record<string, unknown>,
+    })),
+  );
+}
+
+function service(result: ReturnType<typeof merge>, name: string): Record<string, unknown> {
+  return (result.doc.services as Record<string, Record<string, unknown>>)[name];
+}
+
+describe('mergeComposeDocuments()', () => {
+  it('should merge mappings recursively and override scalars', () => {
+    const result = merge(
+      `services:
+  web:
+    image: app:1
+    restart: always
+    healthcheck:
+      test: ["CMD", "curl", "-f", "http://localhost"]
+      interval: 30s
+`,
+      `services:
+  web:
+    image: app:2
+    healthcheck:
+      interval: 10s
+  worker:
+    image: worker
+`,
+    );
+
+    expect(service(result, 'web')).toEqual({
+      image: 'app:2',
+      restart: 'always',
+      healthcheck: { test: ['CMD', 'curl', '-f', 'http://localhost'], interval: '10s' },
+    });
+    expect(service(result, 'worker')).toEqual({ image: 'worker' });
+  });
+
+  it('should merge ports and volumes by unique key and append other sequences', () => {
+    const result = merge(
+      `services:
+  web:
+    ports: ["80:80", "443:443"]
+    volumes: ["./src:/app", "data:/data"]
+    cap_add: [NET_ADMIN]
+    profiles: [web]
+`,
+      `services:
+  web:
+    ports: ["80:80", "8080:8080"]
+    volumes: ["./dist:/app"]
+    cap_add: [NET_ADMIN, SYS_TIME]
+    profiles: [debug]
+`,
+    );
+
+    const web = service(result, 'web');
+    expect(web.ports).toEqual(['80:80', '443:443', '8080:8080']);
+    expect(web.volumes).toEqual(['./dist:/app', 'data:/data']);
+    expect(web.cap_add).toEqual(['NET_ADMIN', 'SYS_TIME']);
+    expect(web.profiles).toEqual(['web', 'debug']);
+  });
+
+  it('should merge list- and map-style environment, labels and depends_on', () => {
+    const result = merge(
+      `services:
+  web:
+    environment: ["A=1", "B=2"]
+    depends_on: [db]
+`,
+      `services:
+  web:
+    environment:
+      B: "3"
+      C: "4"
+    depends_on:
+      cache:
+        condition: service_healthy
+`,
+    );
+
+    const web = service(result, 'web');
+    expect(web.environment).toEqual({ A: '1', B: '3', C: '4' });
+    expect(web.depends_on).toEqual({
+      db: { condition: 'service_started' },
+      cache: { condition: 'service_healthy' },
+    });
+  });
+
+  it('should replace command, entrypoint and healthcheck.test', () => {
+    const result = merge(
+      `services:
+  web:
+    command: ["npm", "start"]
+    healthcheck:
+      test: ["CMD", "true"]
+`,
+      `services:
+  web:
+    command: ["node", "server.js"]
+    healthcheck:
+      test: ["CMD", "false"]
+`,
+    );
+
+    const web = service(result, 'web');
+    expect(web.command).toEqual(['node', 'server.js']);
+    expect(web.healthcheck).toEqual({ test: ['CMD', 'false'] });
+  });
+
+  it('should honor !reset and !override', () => {
+    const result = merge(
+      `services:
+  web:
+    ports: ["80:80"]
+    environment:
+      A: "1"
+    build:
+      context: .
+      args:
+        X: "1"
+`,
+      `services:
+  web:
+    ports: !reset []
+    environment: !override
+      B: "2"
+    build: !reset null
+`,
+    );
+
+    expect(service(result, 'web')).toEqual({ environment: { B: '2' } });
+  });
+
+  it('should strip tags from a single file', () => {
+    const result = merge(`services:
+  web:
+    ports: !reset []
+    environment: !override
+      A: "1"
+`);
+
+    expect(service(result, 'web')).toEqual({ environment: { A: '1' } });
+  });
+
+  it('should record the file that introduced each service and last set each attribute', () => {
+    const result = merge(
+      `services:
+  web:
+    image: app
+    ports: ["80:80"]
+networks:
+  front: {}
+`,
+      `services:
+  web:
+    ports: ["8080:8080"]
+  worker:
+    image: worker
+`,
+    );
+
+    expect(result.sources['services.web']).toBe('/test/file0.yml');
+    expect(result.sources['services.web.image']).toBe('/test/file0.yml');
+    expect(result.sources['services.web.ports']).toBe('/test/file1.yml');
+    expect(result.sources['services.worker']).toBe('/test/file1.yml');
+    expect(result.sources['networks.front']).toBe('/test/file0.yml');
+  });
+});
@@ -1,4 +1,7 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
 import { parseCompose } from '../../../src/parsers/compose.js';
 
 describe('parseCompose', () => {
@@ -265,4 +268,203 @@ services:
       expect(result.services[0].name).toBe('web');
     });
   });
+
+  describe('comments', () => {
+    it('should retain standalone and trailing comments with line numbers', () => {
+      const raw = `# Production stack
+services:
+  web:
+    image: "nginx#latest" # pinned later
+`;
+      const result = parseCompose(raw, '/test/docker-compose.yml');
+
+      expect(result.comments).toEqual([
+        { text: 'Production stack', line: 1, trailing: false },
+        { text: 'pinned later', line: 4, trailing: true },
+      ]);
+      expect(result.services[0].image).toBe('nginx#latest');
+    });
+  });
+
+  describe('source lines', () => {
+    it('should record the line of every key and sequence item', () => {
+      const raw = `services:
+  web:
+    image: nginx
+    ports:
+      - "80:80"
+    environment: !override
+      A: "1"
+networks:
+  front: {}
+`;
+      const result = parseCompose(raw, '/test/compose.yml');
+
+      expect(result.files[0].lines).toEqual({
+        services: 1,
+        'services.web': 2,
+        'services.web.image': 3,
+        'services.web.ports': 4,
+        'services.web.ports[0]': 5,
+        'services.web.environment': 6,
+        networks: 8,
+        'networks.front': 9,
+      });
+    });
+  });
+
+  describe('interpolation', () => {
+    it('should resolve variables while keeping the raw services', () => {
+      const raw = `services:
+  web:
+    image: "nginx:\${TAG:-latest}"
+    ports:
+      - "\${PORT}:80"
+    command: echo $$HOME
+`;
+      const result = parseCompose(raw, '/test/docker-compose.yml', {
+        PORT: { value: '8080', source: 'env-file', file: '/test/.env' },
+      });
+
+      expect(result.services[0].image).toBe('nginx:latest');
+      expect(result.services[0].ports).toEqual(['8080:80']);
+      expect(result.services[0].command).toBe('echo $HOME');
+      expect(result.rawServices[0].image).toBe('nginx:${TAG:-latest}');
+      expect(result.variables.PORT.source).toBe('env-file');
+      expect(result.unresolved).toEqual([]);
+    });
+
+    it('should collect unresolved variables with their paths', () => {
+      const raw = `services:
+  db:
+    image: postgres
+    environment:
+      POSTGRES_PASSWORD: \${DB_PASSWORD:?required}
+`;
+      const result = parseCompose(raw, '/test/docker-compose.yml');
+
+      expect(result.unresolved).toEqual([
+        {
+          name: 'DB_PASSWORD',
+          path: 'services.db.environment.POSTGRES_PASSWORD',
+          required: true,
+          message: 'required',
+        },
+      ]);
+    });
+  });
+
+  describe('include and extends', () => {
+    const tempDirs: string[] = [];
+
+    function createTempDir(): string {
+      const dir = mkdtempSync(join(tmpdir(), 'dockerdoctor-compose-'));
+      tempDirs.push(dir);
+      return dir;
+    }
+
+    afterEach(() => {
+      for (const dir of tempDirs) {
+        rmSync(dir, { recursive: true, force: true });
+      }
+      tempDirs.length = 0;
+    });
+
+    it('should load included files relative to the including file', () => {
+      const dir = createTempDir();
+      mkdirSync(join(dir, 'infra'));
+      writeFileSync(
+        join(dir, 'infra', 'db.yml'),
+        'services:\n  db:\n    image: postgres\nnetworks:\n  backend: {}\n',
+      );
+      const raw = `include:
+  - path: ./infra/db.yml
+services:
+  web:
+    image: app
+    networks: [backend]
+`;
+      const result = parseCompose(raw, join(dir, 'compose.yml'));
+
+      expect(result.services.map((s) => s.name)).toEqual(['db', 'web']);
+      expect(Object.keys(result.networks)).toEqual(['backend']);
+      expect(result.files.map((f) => f.path)).toEqual([join(dir, 'compose.yml'), join(dir, 'infra', 'db.yml')]);
+      expect(result.sources['services.db']).toBe(join(dir, 'infra', 'db.yml'));
+      expect(result.issues).toEqual([]);
+    });
+
+    it('should detect include cycles', () => {
+      const dir = createTempDir();
+      writeFileSync(join(dir, 'b.yml'), 'include: [a.yml]\nservices:\n  b:\n    image: b\n');
+
+      const result = parseCompose('include: [b.yml]\nservices:\n  a:\n    image: a\n', join(dir, 'a.yml'));
+
+      expect(result.issues).toHaveLength(1);
+      expect(result.issues[0]).toMatchObject({ kind: 'include-cycle', file: join(dir, 'b.yml'), path: 'include[0]' });
+      expect(result.services.map((s) => s.name)).toEqual(['b', 'a']);
+    });
+
+    it('should merge extended services from the same and other files', () => {
+      const dir = createTempDir();
+      writeFileSync(
+        join(dir, 'common.yml'),
+        'services:\n  base:\n    image: node:20\n    environment:\n      NODE_ENV: production\n',
+      );
+      const raw = `services:
+  web:
+    extends:
+      file: common.yml
+      service: base
+    environment:
+      PORT: "3000"
+  worker:
+    extends: web
+    command: node worker.js
+`;
+      const result = parseCompose(raw, join(dir, 'compose.yml'));
+      const [web, worker] = result.services;
+
+      expect(web).toMatchObject({ image: 'node:20', environment: { NODE_ENV: 'production', PORT: '3000' } });
+      expect(web.extends).toBeUndefined();
+      expect(worker).toMatchObject({ image: 'node:20', command: 'node worker.js' });
+      expect(result.issues).toEqual([]);
+    });
+  });
+
+  describe('profiles', () => {
+    const raw = `services:
+  web:
+    image: app
+  debug:
+    image: debugger
+    profiles: [debug]
+  docs:
+    image: docs
+    profiles: [docs, all]
+`;
+
+    it('should leave out services whose profiles are inactive', () => {
+      const result = parseCompose(raw, '/test/compose.yml');
+
+      expect(result.services.map((s) => s.name)).toEqual(['web']);
+      expect(result.rawServices.map((s) => s.name)).toEqual(['web']);
+      expect(result.inactiveServices).toEqual(['debug', 'docs']);
+    });
+
+    it('should enable profiles from options or COMPOSE_PROFILES', () => {
+      expect(parseCompose(raw, '/test/compose.yml', {}, { profiles: ['all'] }).services.map((s) => s.name)).toEqual([
+        'web',
+        'docs',
+      ]);
+      const fromEnv = parseCompose(raw, '/test/compose.yml', {
+        COMPOSE_PROFILES: { value: 'debug, docs', source: 'environment' },
+      });
+      expect(fromEnv.profiles).toEqual(['debug', 'docs']);
+      expect(fromEnv.inactiveServices).toEqual([]);
+    });
+
+    it('should enable every profile with *', () => {
+      expect(parseCompose(raw, '/test/compose.yml', {}, { profiles: ['*'] }).services).toHaveLength(3);
+    });
+  });
 });
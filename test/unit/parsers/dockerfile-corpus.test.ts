@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync, readdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { parseDockerfile } from '../../../src/parsers/dockerfile.js';
+
+const CORPUS = join(import.meta.dirname, '..', '..', 'fixtures', 'dockerfiles', 'corpus');
+
+function load(name: string) {
+  const path = join(CORPUS, name);
+  return parseDockerfile(readFileSync(path, 'utf-8'), path);
+}
+
+describe('Dockerfile corpus', () => {
+  const files = readdirSync(CORPUS).filter((f) => f.endsWith('.Dockerfile'));
+
+  it.each(files)('%s: instructions cover every non-comment line exactly once', (name) => {
+    const result = load(name);
+    const lines = result.raw.split('\n');
+    const covered = new Set<number>();
+
+    for (const instr of result.allInstructions) {
+      expect(instr.error).toBeUndefined();
+      expect(instr.endLine).toBeGreaterThanOrEqual(instr.lineno);
+      expect(instr.original).toBe(lines.slice(instr.lineno - 1, instr.endLine).join('\n'));
+      for (let line = instr.lineno; line <= instr.endLine; line++) {
+        expect(covered.has(line)).toBe(false);
+        covered.add(line);
+      }
+    }
+
+    lines.forEach((text, index) => {
+      if (!covered.has(index + 1)) expect(text.trim() === '' || text.trim().startsWith('#')).toBe(true);
+    });
+  });
+
+  it('node-buildkit: directives, repeated --mount flags and HEALTHCHECK options', () => {
+    const result = load('node-buildkit.Dockerfile');
+    const install = result.allInstructions.find((i) => i.args === 'npm ci --omit=dev')!;
+    const healthcheck = result.allInstructions.find((i) => i.name === 'HEALTHCHECK')!;
+
+    expect(result.directives.syntax).toBe('docker/dockerfile:1.7');
+    expect(result.stages.map((s) => [s.name, s.baseImage])).toEqual([
+      ['deps', 'node:${NODE_VERSION}-alpine'],
+      ['build', 'deps'],
+      [undefined, 'node:${NODE_VERSION}-alpine'],
+    ]);
+    expect(install.flags.filter((f) => f.name === 'mount')).toHaveLength(2);
+    expect([install.lineno, install.endLine]).toEqual([9, 11]);
+    expect(healthcheck.flags.map((f) => f.name)).toEqual(['interval', 'timeout', 'start-period']);
+    expect(healthcheck.args).toBe('CMD wget -qO- http://localhost:3000/health || exit 1');
+  });
+
+  it('python-heredoc: heredoc bodies for RUN and COPY', () => {
+    const result = load('python-heredoc.Dockerfile');
+    const withHeredocs = result.allInstructions.filter((i) => i.heredocs.length > 0);
+
+    expect(withHeredocs.map((i) => [i.name, i.heredocs.map((h) => h.name)])).toEqual([
+      ['RUN', ['EOF']],
+      ['COPY', ['EOT']],
+      ['RUN', ['SCRIPT']],
+      ['COPY', ['CONF', 'ENV']],
+    ]);
+    expect(withHeredocs[0].heredocs[0].body).toContain('apt-get install -y --no-install-recommends curl\n');
+    expect(withHeredocs[1].heredocs[0].body).toBe('[server]\nport = 8000\n');
+    expect(withHeredocs[2].heredocs[0].quoted).toBe(true);
+    expect(result.allInstructions.at(-1)!.json).toEqual(['gunicorn', '--bind', '0.0.0.0:8000', 'app:app']);
+  });
+
+  it('windows-escape: backtick continuations keep backslash paths intact', () => {
+    const result = load('windows-escape.Dockerfile');
+    const run = result.allInstructions.find((i) => i.name === 'RUN')!;
+
+    expect(result.escape).toBe('`');
+    expect([run.lineno, run.endLine]).toEqual([6, 8]);
+    expect(run.args).toContain('-OutFile C:\\tool.zip ;');
+    expect(result.allInstructions.find((i) => i.name === 'COPY')!.args).toBe('app\\ C:\\app\\');
+  });
+
+  it('go-continuations: comment and blank lines inside a continued RUN', () => {
+    const result = load('go-continuations.Dockerfile');
+    const build = result.allInstructions.find((i) => i.args.startsWith('CGO_ENABLED=0'))!;
+
+    expect([build.lineno, build.endLine]).toEqual([6, 11]);
+    expect(build.args).not.toContain('strip debug info');
+    expect(build.args).toContain('-o /out/app ./cmd/app');
+    expect(result.comments).toEqual([]);
+    expect(result.allInstructions.find((i) => i.name === 'ONBUILD')!.args).toBe('RUN echo "child build"');
+  });
+});
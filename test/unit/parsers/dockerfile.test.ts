@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { parseDockerfile } from '../../../src/parsers/dockerfile.js';
+import { parseDockerfile, expandVariables } from '../../../src/parsers/dockerfile.js';
 
 describe('parseDockerfile', () => {
   describe('single-stage Dockerfile', () => {
@@ -141,7 +141,7 @@ COPY . .
 `;
       const result = parseDockerfile(raw, '/test/Dockerfile');
 
-      // docker-file-parser with includeComments: false skips comments
+      // Comments are collected separately, never as instructions
       expect(result.stages).toHaveLength(0);
       expect(result.allInstructions).toHaveLength(0);
     });
@@ -196,4 +196,324 @@ RUN echo "b"
       expect(result.stages[1].startLine).toBeGreaterThan(result.stages[0].startLine);
     });
   });
+
+  describe('comments', () => {
+    it('should keep comments out of instructions but retain them with line numbers', () => {
+      const raw = `# Build image
+FROM node:20
+# dockerdoctor-ignore dockerfile.shell-form
+CMD node index.js
+`;
+      const result = parseDockerfile(raw, '/test/Dockerfile');
+
+      expect(result.allInstructions.map((i) => i.name)).toEqual(['FROM', 'CMD']);
+      expect(result.comments).toEqual([
+        { text: 'Build image', line: 1, trailing: false },
+        { text: 'dockerdoctor-ignore dockerfile.shell-form', line: 3, trailing: false },
+      ]);
+    });
+  });
+
+  describe('parser directives', () => {
+    it('should read directives from the top of the file', () => {
+      const raw = `# syntax=docker/dockerfile:1
+# check=skip=JSONArgsRecommended
+FROM node:20
+`;
+      const result = parseDockerfile(raw, '/test/Dockerfile');
+
+      expect(result.directives).toEqual({ syntax: 'docker/dockerfile:1', check: 'skip=JSONArgsRecommended' });
+      expect(result.escape).toBe('\\');
+    });
+
+    it('should ignore directive-like comments after the first instruction or blank line', () => {
+      const raw = `
+# syntax=docker/dockerfile:1
+FROM node:20
+# escape=\`
+`;
+      const result = parseDockerfile(raw, '/test/Dockerfile');
+
+      expect(result.directives).toEqual({});
+      expect(result.escape).toBe('\\');
+    });
+
+    it('should use the escape directive for line continuations', () => {
+      const raw = `# escape=\`
+FROM mcr.microsoft.com/windows/servercore
+RUN dir C:\\ ; \`
+    echo done
+`;
+      const result = parseDockerfile(raw, '/test/Dockerfile');
+      const run = result.allInstructions[1];
+
+      expect(result.escape).toBe('`');
+      expect(run.args).toBe('dir C:\\ ;     echo done');
+      expect([run.lineno, run.endLine]).toEqual([3, 4]);
+    });
+  });
+
+  describe('line continuations', () => {
+    it('should join continued lines and drop comment and blank lines inside them', () => {
+      const raw = `FROM node:20
+RUN apt-get update && \\
+    # install curl
+    apt-get install -y curl \\
+
+    && rm -rf /var/lib/apt/lists/*
+CMD ["node"]
+`;
+      const result = parseDockerfile(raw, '/test/Dockerfile');
+      const run = result.allInstructions[1];
+
+      expect(run.args).toBe('apt-get update &&     apt-get install -y curl     && rm -rf /var/lib/apt/lists/*');
+      expect(run.lineno).toBe(2);
+      expect(run.endLine).toBe(6);
+      expect(run.original).toBe(raw.split('\n').slice(1, 6).join('\n'));
+      expect(result.allInstructions[2].lineno).toBe(7);
+      expect(result.comments).toEqual([]);
+    });
+
+    it('should handle CRLF line endings', () => {
+      const raw = 'FROM node:20\r\nRUN echo a \\\r\n  b\r\n';
+      const run = parseDockerfile(raw, '/test/Dockerfile').allInstructions[1];
+
+      expect(run.args).toBe('echo a   b');
+      expect(run.original).toBe('RUN echo a \\\r\n  b\r');
+    });
+
+    it('should skip a lone continuation line', () => {
+      const result = parseDockerfile('FROM node\n\\\n', '/test/Dockerfile');
+
+      expect(result.allInstructions.map((i) => i.name)).toEqual(['FROM']);
+      expect(result.stages).toHaveLength(1);
+    });
+
+    it('should end an instruction continued at the end of the file', () => {
+      for (const raw of ['FROM node\nRUN npm ci \\\n', 'FROM node\nRUN npm ci \\']) {
+        const result = parseDockerfile(raw, '/test/Dockerfile');
+
+        expect(result.allInstructions.map((i) => [i.name, i.args])).toEqual([
+          ['FROM', 'node'],
+          ['RUN', 'npm ci'],
+        ]);
+      }
+    });
+  });
+
+  describe('flags', () => {
+    it('should separate leading flags from the arguments', () => {
+      const raw = `FROM --platform=linux/amd64 node:20 AS build
+RUN --mount=type=cache,target=/root/.npm --network=none npm ci
+COPY --from=build --chown=node:node --link /app/dist ./dist
+`;
+      const [from, run, copy] = parseDockerfile(raw, '/test/Dockerfile').allInstructions;
+
+      expect(from.flags).toEqual([{ name: 'platform', value: 'linux/amd64' }]);
+      expect(from.args).toBe('node:20 AS build');
+      expect(run.flags).toEqual([
+        { name: 'mount', value: 'type=cache,target=/root/.npm' },
+        { name: 'network', value: 'none' },
+      ]);
+      expect(run.args).toBe('npm ci');
+      expect(copy.flags.map((f) => f.name)).toEqual(['from', 'chown', 'link']);
+      expect(copy.flags[2].value).toBeUndefined();
+      expect(copy.raw).toBe('COPY --from=build --chown=node:node --link /app/dist ./dist');
+    });
+
+    it('should keep the stage base image free of flags', () => {
+      const result = parseDockerfile('FROM --platform=$BUILDPLATFORM golang:1.22 AS build\n', '/test/Dockerfile');
+
+      expect(result.stages[0].baseImage).toBe('golang:1.22');
+      expect(result.stages[0].name).toBe('build');
+    });
+
+    it('should not treat dashes in other instructions as flags', () => {
+      const result = parseDockerfile('FROM node:20\nCMD --help\n', '/test/Dockerfile');
+
+      expect(result.allInstructions[1].flags).toEqual([]);
+      expect(result.allInstructions[1].args).toBe('--help');
+    });
+  });
+
+  describe('JSON form', () => {
+    it('should parse exec form arguments', () => {
+      const raw = `FROM node:20
+CMD ["node", "server.js"]
+ENTRYPOINT ["/bin/sh", "-c"
+CMD node server.js
+`;
+      const [, exec, broken, shell] = parseDockerfile(raw, '/test/Dockerfile').allInstructions;
+
+      expect(exec.json).toEqual(['node', 'server.js']);
+      expect(exec.args).toBe('["node", "server.js"]');
+      expect(broken.json).toBeUndefined();
+      expect(shell.json).toBeUndefined();
+    });
+  });
+
+  describe('heredocs', () => {
+    it('should capture heredoc bodies and the lines they span', () => {
+      const raw = `FROM alpine
+RUN <<EOF
+apk add --no-cache curl
+echo done
+EOF
+CMD ["sh"]
+`;
+      const result = parseDockerfile(raw, '/test/Dockerfile');
+      const run = result.allInstructions[1];
+
+      expect(run.args).toBe('<<EOF');
+      expect(run.heredocs).toEqual([
+        { name: 'EOF', body: 'apk add --no-cache curl\necho done\n', chomp: false, quoted: false, line: 3 },
+      ]);
+      expect([run.lineno, run.endLine]).toEqual([2, 5]);
+      expect(run.original).toBe('RUN <<EOF\napk add --no-cache curl\necho done\nEOF');
+      expect(result.allInstructions[2].name).toBe('CMD');
+    });
+
+    it('should strip leading tabs for <<- and record quoted delimiters', () => {
+      const raw = 'FROM alpine\nCOPY <<-EOT /etc/motd\n\thello\n\tEOT\nRUN <<"SCRIPT" sh\necho $HOME\nSCRIPT\n';
+      const [, copy, run] = parseDockerfile(raw, '/test/Dockerfile').allInstructions;
+
+      expect(copy.heredocs[0]).toMatchObject({ name: 'EOT', body: 'hello\n', chomp: true, quoted: false });
+      expect(run.heredocs[0]).toMatchObject({ name: 'SCRIPT', body: 'echo $HOME\n', quoted: true });
+    });
+
+    it('should read several heredocs in order', () => {
+      const raw = `FROM alpine
+COPY <<A /a <<B /b
+first
+A
+second
+B
+`;
+      const copy = parseDockerfile(raw, '/test/Dockerfile').allInstructions[1];
+
+      expect(copy.heredocs.map((h) => [h.name, h.body, h.line])).toEqual([
+        ['A', 'first\n', 3],
+        ['B', 'second\n', 5],
+      ]);
+      expect(copy.endLine).toBe(6);
+    });
+
+    it('should report an unterminated heredoc', () => {
+      const run = parseDockerfile('FROM alpine\nRUN <<EOF\necho hi\n', '/test/Dockerfile').allInstructions[1];
+
+      expect(run.error).toBe('Unterminated heredoc <<EOF');
+      expect(run.heredocs[0].body).toBe('echo hi\n');
+    });
+
+    it('should not treat herestrings or other instructions as heredocs', () => {
+      const raw = `FROM alpine
+RUN cat <<<"text"
+LABEL note="<<EOF"
+`;
+      const [, run, label] = parseDockerfile(raw, '/test/Dockerfile').allInstructions;
+
+      expect(run.heredocs).toEqual([]);
+      expect(label.heredocs).toEqual([]);
+    });
+  });
+
+  describe('variable scopes', () => {
+    it('should expand global ARGs in FROM, with build args taking precedence', () => {
+      const raw = `ARG REGISTRY=docker.io
+ARG NODE_VERSION=20
+FROM \${REGISTRY}/node:\${NODE_VERSION}-alpine AS base
+`;
+      const [stage] = parseDockerfile(raw, '/test/Dockerfile', { buildArgs: { NODE_VERSION: '22' } }).stages;
+
+      expect(stage.baseImage).toBe('${REGISTRY}/node:${NODE_VERSION}-alpine');
+      expect(stage.effectiveBaseImage).toBe('docker.io/node:22-alpine');
+    });
+
+    it('should leave the effective base image undefined when a variable has no value', () => {
+      const raw = `ARG TAG
+FROM node:\${TAG}
+FROM \${UNDECLARED}
+FROM node:\${TAG:-20}
+`;
+      const stages = parseDockerfile(raw, '/test/Dockerfile').stages;
+
+      expect(stages.map((s) => s.effectiveBaseImage)).toEqual([undefined, undefined, 'node:20']);
+    });
+
+    it('should only see global ARGs in a stage after a bare ARG re-imports them', () => {
+      const raw = `ARG VERSION=1.0
+FROM alpine
+RUN echo $VERSION
+ARG VERSION
+ARG BUILD=dev
+RUN echo $VERSION $BUILD
+`;
+      const [, , firstRun, , , secondRun] = parseDockerfile(raw, '/test/Dockerfile').allInstructions;
+
+      expect(firstRun.vars).toEqual({});
+      expect(secondRun.vars).toEqual({ VERSION: '1.0', BUILD: 'dev' });
+    });
+
+    it('should let ENV override ARG and expand values from the previous scope', () => {
+      const raw = `FROM alpine
+ARG MODE=debug
+ENV MODE=release HOME_DIR=/srv DATA="/tmp/\${MODE:-none}" RAW='$MODE'
+ENV GREETING hello world
+WORKDIR $HOME_DIR
+`;
+      const workdir = parseDockerfile(raw, '/test/Dockerfile').allInstructions[4];
+
+      expect(workdir.vars).toEqual({
+        MODE: 'release',
+        HOME_DIR: '/srv',
+        DATA: '/tmp/debug',
+        RAW: '$MODE',
+        GREETING: 'hello world',
+      });
+    });
+
+    it('should inherit ENV, but not ARG, from the stage a stage is built from', () => {
+      const raw = `FROM node:20 AS base
+ARG PORT=3000
+ENV APP_HOME=/app
+FROM base AS final
+RUN echo $APP_HOME
+`;
+      const run = parseDockerfile(raw, '/test/Dockerfile').allInstructions[4];
+
+      expect(run.vars).toEqual({ APP_HOME: '/app' });
+    });
+
+    it('should mark ARGs without a value as undefined', () => {
+      const raw = `FROM alpine
+ARG TOKEN
+RUN echo $TOKEN
+`;
+      const run = parseDockerfile(raw, '/test/Dockerfile').allInstructions[2];
+
+      expect(run.vars).toEqual({ TOKEN: undefined });
+      expect('TOKEN' in run.vars).toBe(true);
+    });
+  });
+
+  describe('expandVariables', () => {
+    const vars = { NAME: 'app', EMPTY: '', UNSET: undefined };
+
+    it('should expand plain, braced and default forms', () => {
+      expect(expandVariables('$NAME ${NAME} ${EMPTY:-x} ${EMPTY-x} ${UNSET-y} ${NAME:+set} ${EMPTY+set}', vars).value)
+        .toBe('app app x  y set set');
+    });
+
+    it('should keep variables that are not in scope, single quotes and escapes as written', () => {
+      expect(expandVariables(`$HOME '$NAME' "$NAME" \\$NAME`, vars).value).toBe(`$HOME '$NAME' "app" \\$NAME`);
+    });
+
+    it('should honor the escape directive', () => {
+      expect(expandVariables('C:\\$NAME `$NAME', vars, '`').value).toBe('C:\\app `$NAME');
+    });
+
+    it('should report variables in scope without a value', () => {
+      expect(expandVariables('${UNSET}/${UNSET:-ok}', vars)).toEqual({ value: '/ok', unresolved: ['UNSET'] });
+    });
+  });
 });
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { parseDockerignore, hasEntry } from '../../../src/parsers/dockerignore.js';
+import { parseDockerignore, hasEntry, isDockerignored, cleanPattern } from '../../../src/parsers/dockerignore.js';
 
 describe('parseDockerignore', () => {
   it('should parse basic patterns', () => {
@@ -133,9 +133,7 @@ describe('hasEntry', () => {
 `;
     const parsed = parseDockerignore(raw, '/test/.dockerignore');
 
-    // hasEntry checks if e.pattern === pattern || e.pattern === pattern + '/'
-    // The parsed pattern will be "node_modules/" (since the raw line is "node_modules/")
-    // So hasEntry(parsed, 'node_modules') should match because e.pattern === 'node_modules/'
+    // The pattern keeps its slash ("node_modules/") but still excludes node_modules
     expect(hasEntry(parsed, 'node_modules')).toBe(true);
     expect(hasEntry(parsed, '.git')).toBe(true);
   });
@@ -157,4 +155,83 @@ describe('hasEntry', () => {
 
     expect(hasEntry(parsed, 'node_modules')).toBe(false);
   });
+
+  it('should count entries that exclude the path however they are spelled', () => {
+    const parsed = parseDockerignore('/node_modules\n**/.git\n./dist/\n', '/test/.dockerignore');
+
+    expect(hasEntry(parsed, 'node_modules')).toBe(true);
+    expect(hasEntry(parsed, '.git')).toBe(true);
+    expect(hasEntry(parsed, 'dist')).toBe(true);
+  });
+
+  it('should compare glob patterns as entries', () => {
+    const parsed = parseDockerignore('*.log\n', '/test/.dockerignore');
+
+    expect(hasEntry(parsed, '*.log')).toBe(true);
+    expect(hasEntry(parsed, '.env.*')).toBe(false);
+  });
+});
+
+describe('cleanPattern', () => {
+  it('should clean patterns like filepath.Clean and drop the leading slash', () => {
+    expect(cleanPattern('/node_modules/')).toBe('node_modules');
+    expect(cleanPattern('./src//app/../lib')).toBe('src/lib');
+    expect(cleanPattern('../outside')).toBe('../outside');
+    expect(cleanPattern('/')).toBe('.');
+  });
+});
+
+describe('isDockerignored', () => {
+  const ignored = (raw: string, path: string) =>
+    isDockerignored(path, parseDockerignore(raw, '/test/.dockerignore').entries);
+
+  it('should keep * and ? within one path segment', () => {
+    expect(ignored('*.log', 'debug.log')).toBe(true);
+    expect(ignored('*.log', 'logs/debug.log')).toBe(false);
+    expect(ignored('*/*.log', 'logs/debug.log')).toBe(true);
+    expect(ignored('file?.txt', 'file1.txt')).toBe(true);
+    expect(ignored('file?.txt', 'dir/file1.txt')).toBe(false);
+  });
+
+  it('should match ** across any number of directories', () => {
+    expect(ignored('**/node_modules', 'node_modules')).toBe(true);
+    expect(ignored('**/node_modules', 'packages/api/node_modules')).toBe(true);
+    expect(ignored('**/*.go', 'cmd/app/main.go')).toBe(true);
+    expect(ignored('docs/**', 'docs/guide/intro.md')).toBe(true);
+    expect(ignored('a/**/b', 'a/b')).toBe(true);
+    expect(ignored('a/**/b', 'a/x/y/b')).toBe(true);
+  });
+
+  it('should exclude everything below a matching directory', () => {
+    expect(ignored('node_modules', 'node_modules/pkg/index.js')).toBe(true);
+    expect(ignored('/build/', 'build/out/app.js')).toBe(true);
+    expect(ignored('node_modules', 'src/node_modules/pkg.js')).toBe(false);
+  });
+
+  it('should support character classes and escapes', () => {
+    expect(ignored('*.py[cod]', 'app.pyc')).toBe(true);
+    expect(ignored('*.py[cod]', 'app.py')).toBe(false);
+    expect(ignored('file[^0-9].txt', 'fileA.txt')).toBe(true);
+    expect(ignored('\\*.txt', '*.txt')).toBe(true);
+    expect(ignored('\\*.txt', 'a.txt')).toBe(false);
+  });
+
+  it('should let the last matching line win', () => {
+    const raw = '*.md\n!README.md\nREADME*.md\n';
+
+    expect(ignored(raw, 'CHANGELOG.md')).toBe(true);
+    expect(ignored(raw, 'README.md')).toBe(true);
+    expect(ignored('*.md\n!README.md\n', 'README.md')).toBe(false);
+  });
+
+  it('should re-include files inside excluded directories', () => {
+    const raw = 'docs\n!docs/api.md\n';
+
+    expect(ignored(raw, 'docs/guide.md')).toBe(true);
+    expect(ignored(raw, 'docs/api.md')).toBe(false);
+  });
+
+  it('should ignore nothing without entries', () => {
+    expect(ignored('', 'anything/at/all')).toBe(false);
+  });
 });
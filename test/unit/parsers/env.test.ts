@@ -0,0 +1,81 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { parseEnvFile, loadComposeVariables } from '../../../src/parsers/env.js';
+
+describe('parseEnvFile()', () => {
+  it('should parse plain, quoted and exported values', () => {
+    const vars = parseEnvFile(
+      [
+        '# comment',
+        'PLAIN=value',
+        'export EXPORTED=yes',
+        'SPACED = padded ',
+        'DOUBLE="two words # not a comment"',
+        "SINGLE='raw \\n'",
+        'ESCAPED="line\\nbreak"',
+        'INLINE=value # trailing comment',
+        'HASH=abc#def',
+        'EMPTY=',
+        'not a variable',
+      ].join('\n'),
+    );
+
+    expect(vars).toEqual({
+      PLAIN: 'value',
+      EXPORTED: 'yes',
+      SPACED: 'padded',
+      DOUBLE: 'two words # not a comment',
+      SINGLE: 'raw \\n',
+      ESCAPED: 'line\nbreak',
+      INLINE: 'value',
+      HASH: 'abc#def',
+      EMPTY: '',
+    });
+  });
+});
+
+describe('loadComposeVariables()', () => {
+  const tempDirs: string[] = [];
+
+  function createTempDir(): string {
+    const dir = mkdtempSync(join(tmpdir(), 'dockerdoctor-env-'));
+    tempDirs.push(dir);
+    return dir;
+  }
+
+  afterEach(() => {
+    for (const dir of tempDirs) {
+      rmSync(dir, { recursive: true, force: true });
+    }
+    tempDirs.length = 0;
+  });
+
+  it('should read the project .env and let the process environment win', () => {
+    const dir = createTempDir();
+    writeFileSync(join(dir, '.env'), 'TAG=from-file\nPORT=3000\n');
+
+    const vars = loadComposeVariables(dir, undefined, { TAG: 'from-env' });
+
+    expect(vars.TAG).toEqual({ value: 'from-env', source: 'environment' });
+    expect(vars.PORT).toEqual({ value: '3000', source: 'env-file', file: join(dir, '.env') });
+  });
+
+  it('should use explicit env files instead of .env, later files overriding earlier ones', () => {
+    const dir = createTempDir();
+    writeFileSync(join(dir, '.env'), 'FROM_DOTENV=1\n');
+    writeFileSync(join(dir, 'base.env'), 'TAG=base\nPORT=1\n');
+    writeFileSync(join(dir, 'prod.env'), 'TAG=prod\n');
+
+    const vars = loadComposeVariables(dir, [join(dir, 'base.env'), join(dir, 'prod.env')], {});
+
+    expect(vars.FROM_DOTENV).toBeUndefined();
+    expect(vars.TAG.value).toBe('prod');
+    expect(vars.PORT.value).toBe('1');
+  });
+
+  it('should tolerate a missing .env', () => {
+    expect(loadComposeVariables(createTempDir(), undefined, {})).toEqual({});
+  });
+});
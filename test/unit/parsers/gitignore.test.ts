@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { join } from 'node:path';
+import { parseGitignore, isGitignored } from '../../../src/parsers/gitignore.js';
+
+const ROOT = '/repo';
+
+describe('parseGitignore', () => {
+  it('skips comments and blank lines and records line numbers', () => {
+    const rules = parseGitignore('# build output\n\ndist/\n!keep.log\n\\#literal\n', ROOT);
+
+    expect(rules.map((r) => [r.pattern, r.negation, r.dirOnly, r.line])).toEqual([
+      ['dist/', false, true, 3],
+      ['!keep.log', true, false, 4],
+      ['\\#literal', false, false, 5],
+    ]);
+  });
+
+  it('strips unescaped trailing whitespace and CRLF line endings', () => {
+    const rules = parseGitignore('node_modules   \r\n', ROOT);
+    expect(isGitignored(join(ROOT, 'node_modules'), true, rules)).toBe(true);
+  });
+});
+
+describe('isGitignored', () => {
+  it('matches unanchored patterns at any depth', () => {
+    const rules = parseGitignore('*.log\nbuild\n', ROOT);
+
+    expect(isGitignored(join(ROOT, 'a.log'), false, rules)).toBe(true);
+    expect(isGitignored(join(ROOT, 'services', 'api', 'debug.log'), false, rules)).toBe(true);
+    expect(isGitignored(join(ROOT, 'services', 'build'), true, rules)).toBe(true);
+    expect(isGitignored(join(ROOT, 'builder'), true, rules)).toBe(false);
+  });
+
+  it('anchors patterns with a leading or middle slash to the .gitignore directory', () => {
+    const rules = parseGitignore('/vendor\ndocs/generated\n', ROOT);
+
+    expect(isGitignored(join(ROOT, 'vendor'), true, rules)).toBe(true);
+    expect(isGitignored(join(ROOT, 'lib', 'vendor'), true, rules)).toBe(false);
+    expect(isGitignored(join(ROOT, 'docs', 'generated'), true, rules)).toBe(true);
+    expect(isGitignored(join(ROOT, 'site', 'docs', 'generated'), true, rules)).toBe(false);
+  });
+
+  it('applies directory-only patterns to directories only', () => {
+    const rules = parseGitignore('tmp/\n', ROOT);
+
+    expect(isGitignored(join(ROOT, 'tmp'), true, rules)).toBe(true);
+    expect(isGitignored(join(ROOT, 'tmp'), false, rules)).toBe(false);
+  });
+
+  it('supports ** across directories', () => {
+    const rules = parseGitignore('**/fixtures/**\nexamples/**/out\n', ROOT);
+
+    expect(isGitignored(join(ROOT, 'test', 'fixtures', 'app'), true, rules)).toBe(true);
+    expect(isGitignored(join(ROOT, 'examples', 'out'), true, rules)).toBe(true);
+    expect(isGitignored(join(ROOT, 'examples', 'a', 'b', 'out'), true, rules)).toBe(true);
+  });
+
+  it('lets the last matching rule win, including negations', () => {
+    const rules = parseGitignore('services/*\n!services/api\n', ROOT);
+
+    expect(isGitignored(join(ROOT, 'services', 'web'), true, rules)).toBe(true);
+    expect(isGitignored(join(ROOT, 'services', 'api'), true, rules)).toBe(false);
+  });
+
+  it('ignores rules whose base does not contain the path', () => {
+    const rules = parseGitignore('*\n', join(ROOT, 'other'));
+    expect(isGitignored(join(ROOT, 'app'), true, rules)).toBe(false);
+  });
+});
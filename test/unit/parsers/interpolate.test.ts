@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { interpolateString, interpolateDocument } from '../../../src/parsers/interpolate.js';
+import type { ComposeVariable, UnresolvedVariable } from '../../../src/types/index.js';
+
+const env: Record<string, string> = { TAG: '1.2', EMPTY: '', HOST: 'db' };
+const lookup = (name: string) => env[name];
+
+describe('interpolateString()', () => {
+  it('should substitute braced and unbraced variables', () => {
+    expect(interpolateString('app:${TAG}', lookup)).toBe('app:1.2');
+    expect(interpolateString('app:$TAG-slim', lookup)).toBe('app:1.2-slim');
+  });
+
+  it('should apply defaults with and without the colon', () => {
+    expect(interpolateString('${MISSING:-latest}', lookup)).toBe('latest');
+    expect(interpolateString('${EMPTY:-latest}', lookup)).toBe('latest');
+    expect(interpolateString('${EMPTY-latest}', lookup)).toBe('');
+    expect(interpolateString('${TAG:-latest}', lookup)).toBe('1.2');
+  });
+
+  it('should resolve nested defaults', () => {
+    expect(interpolateString('${MISSING:-${HOST}:5432}', lookup)).toBe('db:5432');
+  });
+
+  it('should apply alternative values', () => {
+    expect(interpolateString('${TAG:+--tag}', lookup)).toBe('--tag');
+    expect(interpolateString('${EMPTY:+--tag}', lookup)).toBe('');
+    expect(interpolateString('${EMPTY+--tag}', lookup)).toBe('--tag');
+  });
+
+  it('should treat $$ as a literal dollar sign', () => {
+    expect(interpolateString('echo $$HOME $${TAG}', lookup)).toBe('echo $HOME ${TAG}');
+  });
+
+  it('should record required and unset variables', () => {
+    const issues: Array<Omit<UnresolvedVariable, 'path'>> = [];
+    expect(interpolateString('${DB:?database required} ${EMPTY?x} $NOPE', lookup, issues)).toBe('  ');
+    expect(issues).toEqual([
+      { name: 'DB', required: true, message: 'database required' },
+      { name: 'NOPE', required: false },
+    ]);
+  });
+
+  it('should leave malformed expressions as written', () => {
+    expect(interpolateString('cost: $5 ${unterminated', lookup)).toBe('cost: $5 ${unterminated');
+    expect(interpolateString('${1BAD}', lookup)).toBe('${1BAD}');
+  });
+});
+
+describe('interpolateDocument()', () => {
+  it('should interpolate nested values and report paths of unresolved ones', () => {
+    const variables: Record<string, ComposeVariable> = {
+      TAG: { value: '1.2', source: 'environment' },
+    };
+    const unresolved: UnresolvedVariable[] = [];
+    const doc = {
+      services: {
+        web: { image: 'app:${TAG}', ports: ['${PORT:?}:80', 8080] },
+      },
+    };
+
+    const result = interpolateDocument(doc, variables, unresolved);
+
+    expect(result.services.web.image).toBe('app:1.2');
+    expect(result.services.web.ports).toEqual([':80', 8080]);
+    expect(doc.services.web.image).toBe('app:${TAG}');
+    expect(unresolved).toEqual([{ name: 'PORT', required: true, message: undefined, path: 'services.web.ports[0]' }]);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { tokenizeShellCommand, execInsertionPoint } from '../../../src/parsers/shell.js';
+
+describe('tokenizeShellCommand', () => {
+  it('splits words and removes quoting', () => {
+    expect(tokenizeShellCommand('node server.js --port 3000')).toEqual(['node', 'server.js', '--port', '3000']);
+    expect(tokenizeShellCommand(`python -c 'print("hi")' "a b" c\\ d`)).toEqual([
+      'python',
+      '-c',
+      'print("hi")',
+      'a b',
+      'c d',
+    ]);
+    expect(tokenizeShellCommand('echo "say \\"hi\\""')).toEqual(['echo', 'say "hi"']);
+  });
+
+  it('rejects commands that need a shell', () => {
+    for (const command of [
+      'npm run migrate && npm start',
+      'node server.js | tee log',
+      'node server.js > out.log',
+      'node server.js --port $PORT',
+      'node "$APP"',
+      'cat *.conf',
+      'cd ~/app',
+      'NODE_ENV=production node server.js',
+      'node server.js # comment',
+      'cd /app',
+      'source env.sh',
+      '. ./env.sh',
+      'exec',
+      'exec export A',
+      "echo 'unterminated",
+    ]) {
+      expect(tokenizeShellCommand(command), command).toBeUndefined();
+    }
+  });
+});
+
+describe('execInsertionPoint', () => {
+  it('points at the last command of a list', () => {
+    const command = 'npm run migrate && npm start';
+    expect(command.slice(execInsertionPoint(command))).toBe('npm start');
+    expect(execInsertionPoint('node server.js --port $PORT 2>&1')).toBe(0);
+    expect(execInsertionPoint('echo "a && b"; node x')).toBe(15);
+  });
+
+  it('gives up on pipes, fallbacks, subshells and compound commands', () => {
+    for (const command of [
+      'node server.js | tee log',
+      'npm start || sleep 10',
+      'node a & node b',
+      'node --flag=$(cat flag)',
+      'if true; then node x; fi',
+      'cat <<EOF',
+    ]) {
+      expect(execInsertionPoint(command), command).toBeUndefined();
+    }
+  });
+});
@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+vi.mock('../../src/docker/client.js', () => ({
+  getImageRepoDigests: vi.fn().mockResolvedValue([]),
+}));
+
+import { getImageRepoDigests } from '../../src/docker/client.js';
+import {
+  parseImageReference,
+  pinnedReference,
+  fetchRegistryDigest,
+  resolveDigest,
+  findImageUses,
+  pinFix,
+} from '../../src/pin.js';
+import { previewFixes } from '../../src/fixes.js';
+import { parseDockerfile } from '../../src/parsers/dockerfile.js';
+import { parseCompose } from '../../src/parsers/compose.js';
+import { getChecksByCategory } from '../../src/checks/registry.js';
+import type { CheckContext } from '../../src/types/index.js';
+
+import '../../src/checks/dockerfile/index.js';
+
+const DIGEST = 'sha256:' + 'a'.repeat(64);
+const NEWER = 'sha256:' + 'b'.repeat(64);
+
+function makeContext(overrides: Partial<CheckContext> = {}): CheckContext {
+  return { cwd: '/test', dockerAvailable: false, files: { shellScripts: [] }, ...overrides };
+}
+
+beforeEach(() => {
+  vi.mocked(getImageRepoDigests).mockReset().mockResolvedValue([]);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('parseImageReference', () => {
+  it('normalizes Docker Hub references', () => {
+    expect(parseImageReference('node')).toEqual({ registry: 'docker.io', repository: 'library/node' });
+    expect(parseImageReference('bitnami/redis:7.2')).toEqual({
+      registry: 'docker.io',
+      repository: 'bitnami/redis',
+      tag: '7.2',
+    });
+  });
+
+  it('recognizes registry hosts, ports and digests', () => {
+    expect(parseImageReference(`localhost:5000/app:1@${DIGEST}`)).toEqual({
+      registry: 'localhost:5000',
+      repository: 'app',
+      tag: '1',
+      digest: DIGEST,
+    });
+    expect(parseImageReference('ghcr.io/org/app').registry).toBe('ghcr.io');
+  });
+});
+
+describe('pinnedReference', () => {
+  it('keeps the tag, writes out :latest and replaces an old digest', () => {
+    expect(pinnedReference('node:20-slim', DIGEST)).toBe(`node:20-slim@${DIGEST}`);
+    expect(pinnedReference('node', DIGEST)).toBe(`node:latest@${DIGEST}`);
+    expect(pinnedReference(`node:20@${DIGEST}`, NEWER)).toBe(`node:20@${NEWER}`);
+  });
+});
+
+describe('fetchRegistryDigest', () => {
+  it('fetches an anonymous token when the registry asks for one', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(
+        new Response(null, {
+          status: 401,
+          headers: { 'www-authenticate': 'Bearer realm="https://auth.example.com/token",service="registry.example.com"' },
+        }),
+      )
+      .mockResolvedValueOnce(new Response(JSON.stringify({ token: 'abc' }), { status: 200 }))
+      .mockResolvedValueOnce(new Response(null, { status: 200, headers: { 'docker-content-digest': DIGEST } }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    expect(await fetchRegistryDigest('mirror.example.com', 'library/node', '20')).toBe(DIGEST);
+    expect(fetchMock.mock.calls[0][0]).toBe('https://mirror.example.com/v2/library/node/manifests/20');
+    expect(String(fetchMock.mock.calls[1][0])).toContain('scope=repository%3Alibrary%2Fnode%3Apull');
+    expect(fetchMock.mock.calls[2][1].headers.Authorization).toBe('Bearer abc');
+  });
+
+  it('returns undefined when the registry fails', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('offline')));
+    expect(await fetchRegistryDigest('https://mirror.example.com/', 'library/node', '20')).toBeUndefined();
+  });
+});
+
+describe('resolveDigest', () => {
+  it('takes the digest of the matching repository from the local store', async () => {
+    vi.mocked(getImageRepoDigests).mockResolvedValue([`myorg/node@${NEWER}`, `node@${DIGEST}`]);
+
+    expect(await resolveDigest('node:20', { docker: true })).toBe(DIGEST);
+    expect(getImageRepoDigests).toHaveBeenCalledWith('node:20');
+  });
+
+  it('falls back to the mirror, or asks it first when preferred', async () => {
+    vi.mocked(getImageRepoDigests).mockResolvedValue([`node@${DIGEST}`]);
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue(new Response(null, { status: 200, headers: { 'docker-content-digest': NEWER } })),
+    );
+
+    expect(await resolveDigest(`node@${DIGEST}`, { docker: false, registryMirror: 'mirror.example.com' })).toBe(NEWER);
+    expect(await resolveDigest('node:20', { docker: true, registryMirror: 'mirror.example.com' })).toBe(DIGEST);
+    expect(
+      await resolveDigest('node:20', { docker: true, registryMirror: 'mirror.example.com', preferRegistry: true }),
+    ).toBe(NEWER);
+  });
+
+  it('does not ask a Docker Hub mirror for other registries', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    expect(await resolveDigest('ghcr.io/org/app:1', { docker: false, registryMirror: 'mirror.example.com' })).toBeUndefined();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('findImageUses / pinFix', () => {
+  const tempDirs: string[] = [];
+  afterEach(() => {
+    for (const dir of tempDirs) rmSync(dir, { recursive: true, force: true });
+    tempDirs.length = 0;
+  });
+
+  it('finds pinnable FROM and compose images and rewrites them in place', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'dockerdoctor-pin-'));
+    tempDirs.push(dir);
+    const dockerfilePath = join(dir, 'Dockerfile');
+    const composePath = join(dir, 'compose.yml');
+    const dockerfileRaw =
+      'ARG BASE=alpine\nFROM node:20 AS deps\nFROM deps AS build\nFROM ${BASE}\nFROM scratch\nFROM node:20-slim\n';
+    const composeRaw =
+      'services:\n  db:\n    image: "postgres:16"\n  api:\n    build: .\n    image: myorg/api\n  cache:\n    image: redis:${TAG}\n';
+    writeFileSync(dockerfilePath, dockerfileRaw);
+    writeFileSync(composePath, composeRaw);
+    const context = makeContext({
+      cwd: dir,
+      dockerfile: parseDockerfile(dockerfileRaw, dockerfilePath),
+      compose: parseCompose(composeRaw, composePath),
+    });
+
+    const uses = findImageUses(context);
+    expect(uses.map((u) => [u.image, u.line])).toEqual([
+      ['node:20', 2],
+      ['node:20-slim', 6],
+      ['postgres:16', 3],
+    ]);
+
+    const { edits } = await previewFixes(uses.map((use) => pinFix(use, DIGEST)));
+    expect(edits[0].after).toBe(
+      `ARG BASE=alpine\nFROM node:20@${DIGEST} AS deps\nFROM deps AS build\nFROM \${BASE}\nFROM scratch\nFROM node:20-slim@${DIGEST}\n`,
+    );
+    expect(edits[1].after).toContain(`    image: "postgres:16@${DIGEST}"\n`);
+  });
+});
+
+describe('dockerfile.base-image-latest pin fix', () => {
+  const check = getChecksByCategory('dockerfile').find((c) => c.id === 'dockerfile.base-image-latest')!;
+  const dockerfile = parseDockerfile('FROM node\n', '/test/Dockerfile');
+
+  it('offers an auto fix when the digest resolves locally', async () => {
+    vi.mocked(getImageRepoDigests).mockResolvedValue([`node@${DIGEST}`]);
+
+    const [result] = await check.run(makeContext({ dockerfile, dockerAvailable: true }));
+
+    expect(result.fixes.map((f) => f.type)).toEqual(['auto', 'manual']);
+    const [edit] = await result.fixes[0].edits!(() => 'FROM node\n');
+    expect(edit.after).toBe(`FROM node:latest@${DIGEST}\n`);
+  });
+
+  it('offers only the manual fix without Docker or a mirror', async () => {
+    const [result] = await check.run(makeContext({ dockerfile }));
+
+    expect(result.fixes.map((f) => f.type)).toEqual(['manual']);
+    expect(getImageRepoDigests).not.toHaveBeenCalled();
+  });
+});
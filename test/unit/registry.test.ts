@@ -71,10 +71,10 @@ describe('registry', () => {
       expect(Array.isArray(all)).toBe(true);
     });
 
-    it('should return all registered checks (25 static + 25 runtime + 1 test check)', () => {
+    it('should return all registered checks (31 static + 25 runtime + 1 test check)', () => {
       const all = getAllChecks();
-      // 25 static + 25 runtime (4 build + 4 startup + 4 network + 4 perf + 4 image + 5 cleanup) + 1 test
-      expect(all.length).toBe(51);
+      // 31 static + 25 runtime (4 build + 4 startup + 4 network + 4 perf + 4 image + 5 cleanup) + 1 test
+      expect(all.length).toBe(57);
     });
 
     it('should return a copy — mutating the returned array does not affect internal state', () => {
@@ -112,16 +112,16 @@ describe('registry', () => {
 
   // --- getChecksByCategory ---
   describe('getChecksByCategory()', () => {
-    it('should return 9 dockerfile checks', () => {
+    it('should return 13 dockerfile checks', () => {
       const checks = getChecksByCategory('dockerfile');
-      // 9 built-in + 1 test check registered above with category 'dockerfile'
-      expect(checks.length).toBe(10);
+      // 13 built-in + 1 test check registered above with category 'dockerfile'
+      expect(checks.length).toBe(14);
       checks.forEach((c) => expect(c.category).toBe('dockerfile'));
     });
 
-    it('should return 7 compose checks', () => {
+    it('should return 8 compose checks', () => {
       const checks = getChecksByCategory('compose');
-      expect(checks.length).toBe(7);
+      expect(checks.length).toBe(9);
       checks.forEach((c) => expect(c.category).toBe('compose'));
     });
 
@@ -189,10 +189,10 @@ describe('registry', () => {
       });
     });
 
-    it('should return 26 static checks (25 built-in + 1 test)', () => {
+    it('should return 32 static checks (31 built-in + 1 test)', () => {
       const staticChecks = getStaticChecks();
-      // 25 built-in static + 1 test check = 26 (the 8 runtime checks are excluded)
-      expect(staticChecks.length).toBe(26);
+      // 31 built-in static + 1 test check = 32 (the 8 runtime checks are excluded)
+      expect(staticChecks.length).toBe(32);
     });
   });
 
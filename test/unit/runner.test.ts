@@ -26,7 +26,7 @@ vi.mock('../../src/docker/client.js', () => ({
   getDiskUsage: vi.fn().mockResolvedValue({ containers: 0, images: 0, volumes: 0, buildCache: 0, total: 0 }),
 }));
 
-import { runChecks } from '../../src/runner.js';
+import { runChecks, combineReports } from '../../src/runner.js';
 import { registerCheck, getAllChecks, getChecksByCategory } from '../../src/checks/registry.js';
 import { parseDockerfile } from '../../src/parsers/dockerfile.js';
 import { parseCompose } from '../../src/parsers/compose.js';
@@ -264,6 +264,10 @@ CMD node index.js
       (r) => r.id === 'test.runner-runtime-check',
     );
     expect(runtimeResult).toBeUndefined();
+    expect(report.skipped).toContainEqual({
+      id: 'test.runner-runtime-check',
+      reason: 'docker-unavailable',
+    });
   });
 
   it('should include runtime checks when dockerAvailable is true', async () => {
@@ -383,4 +387,181 @@ networks:
     expect(reportTrue.dockerAvailable).toBe(true);
     expect(reportFalse.dockerAvailable).toBe(false);
   });
+
+  it('should skip checks disabled in the config', async () => {
+    const raw = `FROM node:latest
+CMD node index.js
+`;
+    const dockerfile = parseDockerfile(raw, '/test/Dockerfile');
+    const ctx = makeContext({
+      dockerfile,
+      config: { checks: { 'dockerfile.base-image-latest': { enabled: false } } },
+    });
+
+    const started: string[] = [];
+    const report = await runChecks(ctx, {
+      categories: ['dockerfile'],
+      onCheckStart: (check) => started.push(check.id),
+    });
+
+    expect(started).not.toContain('dockerfile.base-image-latest');
+    expect(report.results.some((r) => r.id === 'dockerfile.base-image-latest')).toBe(false);
+    expect(report.results.some((r) => r.id === 'dockerfile.shell-form')).toBe(true);
+  });
+
+  it('should override result severity from the config', async () => {
+    const raw = `FROM node:latest
+CMD node index.js
+`;
+    const dockerfile = parseDockerfile(raw, '/test/Dockerfile');
+    const ctx = makeContext({
+      dockerfile,
+      config: { checks: { 'dockerfile.base-image-latest': { severity: 'error' } } },
+    });
+
+    const report = await runChecks(ctx, { categories: ['dockerfile'] });
+
+    const latest = report.results.filter((r) => r.id === 'dockerfile.base-image-latest');
+    expect(latest.length).toBeGreaterThan(0);
+    latest.forEach((r) => expect(r.severity).toBe('error'));
+    expect(report.summary.errors).toBeGreaterThanOrEqual(latest.length);
+  });
+
+  it('should only check changed files and skip runtime checks when given changes', async () => {
+    const changed = parseDockerfile('FROM node:latest\nRUN npm install\nCMD node index.js\n', '/test/Dockerfile');
+    const unchanged = parseDockerfile('FROM python:latest\n', '/test/worker.Dockerfile');
+    const ctx = makeContext({ dockerfile: changed, dockerfiles: [changed, unchanged], dockerAvailable: true });
+    const changes = { ref: 'main', files: new Map([['/test/Dockerfile', new Set([2])]]) };
+
+    const report = await runChecks(ctx, { changes });
+
+    expect(report.results.length).toBeGreaterThan(0);
+    expect(report.results.every((r) => r.location === '/test/Dockerfile')).toBe(true);
+    expect(report.skipped).toContainEqual({ id: 'test.runner-runtime-check', reason: 'changed-files-only' });
+
+    const onChangedLines = await runChecks(ctx, { changes, diffLines: true });
+    expect(onChangedLines.results.length).toBeGreaterThan(0);
+    expect(onChangedLines.results.every((r) => r.line === 2)).toBe(true);
+  });
+});
+
+describe('runChecks() scheduling', () => {
+  let running = 0;
+  let maxRunning = 0;
+
+  const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  function makeSlowCheck(id: string, delayMs: number): Check {
+    return {
+      id,
+      name: `Slow ${id}`,
+      category: 'cleanup',
+      requiresDocker: false,
+      async run(): Promise<CheckResult[]> {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await sleep(delayMs);
+        running--;
+        return [
+          { id, title: id, severity: 'warning', category: 'cleanup', message: 'slow', fixes: [] },
+        ];
+      },
+    };
+  }
+
+  beforeAll(() => {
+    // Runtime cleanup checks are skipped without Docker, so only these run
+    registerCheck(makeSlowCheck('test.slow-a', 40));
+    registerCheck(makeSlowCheck('test.slow-b', 10));
+    registerCheck(makeSlowCheck('test.slow-c', 20));
+    registerCheck(makeSlowCheck('test.hanging', 200));
+  });
+
+  it('should run at most `concurrency` checks at once and keep results in check order', async () => {
+    maxRunning = 0;
+    const report = await runChecks(makeContext(), { categories: ['cleanup'], concurrency: 2 });
+
+    expect(maxRunning).toBe(2);
+    expect(report.results.map((r) => r.id)).toEqual([
+      'test.slow-a',
+      'test.slow-b',
+      'test.slow-c',
+      'test.hanging',
+    ]);
+  });
+
+  it('should record a distinct result when a check times out', async () => {
+    const report = await runChecks(makeContext(), { categories: ['cleanup'], timeoutMs: 100 });
+
+    const hanging = report.results.find((r) => r.id === 'test.hanging');
+    expect(hanging?.title).toBe('Check timed out: Slow test.hanging');
+    expect(hanging?.severity).toBe('info');
+    expect(hanging?.meta).toEqual({ timedOut: true, timeoutMs: 100 });
+    expect(report.results.find((r) => r.id === 'test.slow-a')?.title).toBe('test.slow-a');
+  });
+
+  it('should report timing and status for every check that ran', async () => {
+    const report = await runChecks(makeContext(), { categories: ['cleanup'], timeoutMs: 100 });
+
+    expect(report.timings?.map((t) => [t.id, t.status])).toEqual([
+      ['test.slow-a', 'ok'],
+      ['test.slow-b', 'ok'],
+      ['test.slow-c', 'ok'],
+      ['test.hanging', 'timed-out'],
+    ]);
+    expect(report.timings?.[0].durationMs).toBeGreaterThanOrEqual(30);
+  });
+});
+
+describe('combineReports()', () => {
+  function result(id: string, location?: string, severity: CheckResult['severity'] = 'warning'): CheckResult {
+    return { id, title: id, severity, category: 'dockerfile', message: id, location, fixes: [] };
+  }
+
+  function report(results: CheckResult[], suppressed = 0): Report {
+    return {
+      timestamp: '',
+      version: '',
+      dockerAvailable: false,
+      results,
+      summary: {
+        total: results.length,
+        errors: results.filter((r) => r.severity === 'error').length,
+        warnings: results.filter((r) => r.severity === 'warning').length,
+        info: results.filter((r) => r.severity === 'info').length,
+        fixable: 0,
+        suppressed,
+        baselined: 0,
+      },
+    };
+  }
+
+  it('groups results by project and sums the summary', () => {
+    const combined = combineReports([
+      { path: 'api', dir: '/repo/api', report: report([result('a', '/repo/api/Dockerfile', 'error')], 1) },
+      { path: 'web', dir: '/repo/web', report: report([result('b', '/repo/web/Dockerfile')], 2) },
+    ]);
+
+    expect(combined.projects?.map((p) => [p.path, p.results.map((r) => r.id)])).toEqual([
+      ['api', ['a']],
+      ['web', ['b']],
+    ]);
+    expect(combined.results.map((r) => r.id)).toEqual(['a', 'b']);
+    expect(combined.summary).toMatchObject({ total: 2, errors: 1, warnings: 1, suppressed: 3 });
+  });
+
+  it('keeps a finding reported by several projects once, under the closest project', () => {
+    const shared = result('dockerfile.base-image-latest', '/repo/api/Dockerfile');
+    const combined = combineReports([
+      { path: '.', dir: '/repo', report: report([shared, result('cleanup.dangling-images')]) },
+      { path: 'api', dir: '/repo/api', report: report([{ ...shared }, result('cleanup.dangling-images')]) },
+    ]);
+
+    expect(combined.projects?.map((p) => [p.path, p.results.map((r) => r.id)])).toEqual([
+      ['.', ['cleanup.dangling-images']],
+      ['api', ['dockerfile.base-image-latest']],
+    ]);
+    expect(combined.projects?.[1].summary.total).toBe(1);
+    expect(combined.summary.total).toBe(2);
+  });
 });
@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest';
+import { parseDockerfile } from '../../src/parsers/dockerfile.js';
+import { parseCompose, parseComposeFiles } from '../../src/parsers/compose.js';
+import { parseDirective, collectSuppressions, isSuppressed } from '../../src/suppressions.js';
+import { runChecks } from '../../src/runner.js';
+import type { CheckContext, CheckResult } from '../../src/types/index.js';
+
+// Side-effect import to register the static checks used below
+import '../../src/checks/dockerfile/index.js';
+
+function makeContext(overrides: Partial<CheckContext> = {}): CheckContext {
+  return {
+    cwd: '/test',
+    dockerAvailable: false,
+    files: {
+      shellScripts: [],
+    },
+    ...overrides,
+  };
+}
+
+function makeResult(overrides: Partial<CheckResult> = {}): CheckResult {
+  return {
+    id: 'dockerfile.running-as-root',
+    title: 'Test',
+    severity: 'warning',
+    category: 'dockerfile',
+    message: 'Test',
+    fixes: [],
+    ...overrides,
+  };
+}
+
+describe('parseDirective()', () => {
+  it('should parse a next-line directive with one ID', () => {
+    expect(parseDirective('dockerdoctor-ignore dockerfile.shell-form')).toEqual({
+      fileWide: false,
+      ids: ['dockerfile.shell-form'],
+    });
+  });
+
+  it('should parse a file-wide directive with several IDs', () => {
+    expect(parseDirective('dockerdoctor-ignore-file a.b, c.d e.*')).toEqual({
+      fileWide: true,
+      ids: ['a.b', 'c.d', 'e.*'],
+    });
+  });
+
+  it('should ignore a trailing reason', () => {
+    expect(parseDirective('dockerdoctor-ignore a.b -- needs root for port 80')?.ids).toEqual(['a.b']);
+  });
+
+  it('should treat a bare directive as matching every check', () => {
+    expect(parseDirective('dockerdoctor-ignore')).toEqual({ fileWide: false, ids: [] });
+  });
+
+  it('should return undefined for ordinary comments', () => {
+    expect(parseDirective('Install dependencies')).toBeUndefined();
+    expect(parseDirective('dockerdoctor-ignored')).toBeUndefined();
+  });
+});
+
+describe('collectSuppressions()', () => {
+  it('should target the next Dockerfile instruction', () => {
+    const dockerfile = parseDockerfile(
+      `FROM node:20
+
+# dockerdoctor-ignore dockerfile.shell-form
+
+CMD node index.js
+`,
+      '/test/Dockerfile',
+    );
+
+    const suppressions = collectSuppressions(makeContext({ dockerfile }));
+
+    expect(suppressions).toEqual([
+      { path: '/test/Dockerfile', line: 5, ids: ['dockerfile.shell-form'] },
+    ]);
+  });
+
+  it('should target the same line for trailing compose comments and the next line otherwise', () => {
+    const compose = parseCompose(
+      `services:
+  web:
+    # dockerdoctor-ignore compose.static-ip
+    image: nginx  # dockerdoctor-ignore compose.bind-mounts
+`,
+      '/test/compose.yml',
+    );
+
+    const suppressions = collectSuppressions(makeContext({ compose }));
+
+    expect(suppressions).toEqual([
+      { path: '/test/compose.yml', line: 4, ids: ['compose.static-ip'] },
+      { path: '/test/compose.yml', line: 4, ids: ['compose.bind-mounts'] },
+    ]);
+  });
+
+  it('should collect directives from every merged compose file', () => {
+    const compose = parseComposeFiles([
+      { path: '/test/compose.yml', raw: 'services:\n  web:\n    image: nginx\n' },
+      { path: '/test/compose.prod.yml', raw: '# dockerdoctor-ignore-file compose.static-ip\nservices: {}\n' },
+    ]);
+
+    const suppressions = collectSuppressions(makeContext({ compose }));
+
+    expect(suppressions).toEqual([{ path: '/test/compose.prod.yml', ids: ['compose.static-ip'] }]);
+  });
+
+  it('should collect directives from every Dockerfile', () => {
+    const dockerfiles = [
+      parseDockerfile('FROM node:20\n', '/test/Dockerfile'),
+      parseDockerfile('# dockerdoctor-ignore-file dockerfile.*\nFROM python:3.12\n', '/test/Dockerfile.worker'),
+    ];
+
+    const suppressions = collectSuppressions(makeContext({ dockerfile: dockerfiles[0], dockerfiles }));
+
+    expect(suppressions).toEqual([{ path: '/test/Dockerfile.worker', ids: ['dockerfile.*'] }]);
+  });
+});
+
+describe('isSuppressed()', () => {
+  const suppressions = [
+    { path: '/test/Dockerfile', line: 3, ids: ['dockerfile.running-as-root'] },
+    { path: '/test/compose.yml', ids: ['compose.*'] },
+  ];
+
+  it('should match on path, line and ID', () => {
+    expect(isSuppressed(makeResult({ location: '/test/Dockerfile', line: 3 }), suppressions)).toBe(true);
+    expect(isSuppressed(makeResult({ location: '/test/Dockerfile', line: 4 }), suppressions)).toBe(false);
+    expect(
+      isSuppressed(makeResult({ id: 'dockerfile.shell-form', location: '/test/Dockerfile', line: 3 }), suppressions),
+    ).toBe(false);
+  });
+
+  it('should match file-wide category wildcards regardless of line', () => {
+    const result = makeResult({ id: 'compose.bind-mounts', category: 'compose', location: '/test/compose.yml' });
+    expect(isSuppressed(result, suppressions)).toBe(true);
+  });
+
+  it('should never suppress results without a location', () => {
+    expect(isSuppressed(makeResult({ line: 3 }), suppressions)).toBe(false);
+  });
+});
+
+describe('runChecks() with suppressions', () => {
+  it('should drop suppressed results and count them in the summary', async () => {
+    const raw = `FROM node:20
+# dockerdoctor-ignore dockerfile.shell-form -- legacy start script
+CMD node index.js
+`;
+    const dockerfile = parseDockerfile(raw, '/test/Dockerfile');
+    const report = await runChecks(makeContext({ dockerfile }), { categories: ['dockerfile'] });
+
+    expect(report.results.some((r) => r.id === 'dockerfile.shell-form')).toBe(false);
+    expect(report.summary.suppressed).toBe(1);
+    expect(report.summary.total).toBe(report.results.length);
+  });
+
+  it('should drop every matching result for a file-wide directive', async () => {
+    const raw = `# dockerdoctor-ignore-file dockerfile.*
+FROM node:latest
+CMD node index.js
+`;
+    const dockerfile = parseDockerfile(raw, '/test/Dockerfile');
+    const report = await runChecks(makeContext({ dockerfile }), { categories: ['dockerfile'] });
+
+    expect(report.results.filter((r) => r.location === '/test/Dockerfile')).toEqual([]);
+    expect(report.summary.suppressed).toBeGreaterThanOrEqual(2);
+  });
+});
@@ -1,5 +1,9 @@
-import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { vi, describe, it, expect, beforeEach, afterEach, afterAll } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
 import type { CheckResult, Fix } from '../../../src/types/index.js';
+import { editFix } from '../../../src/fixes.js';
 
 const mockConfirm = vi.fn();
 const mockIsCancel = vi.fn().mockReturnValue(false);
@@ -23,6 +27,7 @@ function makeResult(overrides: Partial<CheckResult> = {}): CheckResult {
 describe('prompts', () => {
   let promptFixes: typeof import('../../../src/ui/prompts.js').promptFixes;
   let autoApplyFixes: typeof import('../../../src/ui/prompts.js').autoApplyFixes;
+  let previewAllFixes: typeof import('../../../src/ui/prompts.js').previewAllFixes;
   let logSpy: ReturnType<typeof vi.spyOn>;
 
   beforeEach(async () => {
@@ -32,8 +37,28 @@ describe('prompts', () => {
     const mod = await import('../../../src/ui/prompts.js');
     promptFixes = mod.promptFixes;
     autoApplyFixes = mod.autoApplyFixes;
+    previewAllFixes = mod.previewAllFixes;
   });
 
+  const tempDirs: string[] = [];
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+  afterAll(() => {
+    for (const dir of tempDirs) rmSync(dir, { recursive: true, force: true });
+  });
+
+  function appendFix(): { path: string; fix: Fix } {
+    const dir = mkdtempSync(join(tmpdir(), 'dockerdoctor-prompts-'));
+    tempDirs.push(dir);
+    // Fix backups go to the working directory
+    vi.spyOn(process, 'cwd').mockReturnValue(dir);
+    const path = join(dir, '.dockerignore');
+    writeFileSync(path, 'node_modules\n');
+    const fix = editFix('Append .git', async (read) => [{ path, before: read(path), after: read(path) + '.git\n' }]);
+    return { path, fix };
+  }
+
   function allOutput(): string {
     return logSpy.mock.calls.map((c) => c.join(' ')).join('\n');
   }
@@ -250,4 +275,55 @@ describe('prompts', () => {
       expect(output).toContain('Step-by-step instructions here');
     });
   });
+
+  describe('fix previews', () => {
+    it('autoApplyFixes shows the diff of each fix it writes', async () => {
+      const { path, fix } = appendFix();
+
+      const count = await autoApplyFixes([makeResult({ fixes: [fix] })]);
+
+      expect(count).toBe(1);
+      expect(readFileSync(path, 'utf-8')).toBe('node_modules\n.git\n');
+      expect(allOutput()).toContain('+.git');
+    });
+
+    it('promptFixes shows the diff before asking and skips declined fixes', async () => {
+      const { path, fix } = appendFix();
+      mockConfirm.mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+
+      const count = await promptFixes([makeResult({ fixes: [fix] })]);
+
+      expect(count).toBe(0);
+      expect(allOutput()).toContain('+.git');
+      expect(readFileSync(path, 'utf-8')).toBe('node_modules\n');
+    });
+
+    it('promptFixes applies the accepted fixes together and rolls back on failure', async () => {
+      const { path, fix } = appendFix();
+      const broken = editFix('Break the Dockerfile', async () => [
+        { path: join(tempDirs.at(-1)!, 'Dockerfile'), after: 'FORM node:20\n' },
+      ]);
+      mockConfirm.mockResolvedValueOnce(true).mockResolvedValueOnce(true).mockResolvedValueOnce(true);
+
+      const count = await promptFixes([makeResult({ fixes: [fix, broken] })]);
+
+      expect(count).toBe(0);
+      expect(readFileSync(path, 'utf-8')).toBe('node_modules\n');
+      expect(existsSync(join(tempDirs.at(-1)!, 'Dockerfile'))).toBe(false);
+      expect(allOutput()).toContain('Rolled back');
+    });
+
+    it('previewAllFixes writes a patch without touching the tree', async () => {
+      const { path, fix } = appendFix();
+      const patchPath = join(tempDirs.at(-1)!, 'fixes.patch');
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const files = await previewAllFixes([makeResult({ fixes: [fix] })], patchPath);
+
+      expect(files).toBe(1);
+      expect(readFileSync(path, 'utf-8')).toBe('node_modules\n');
+      expect(readFileSync(patchPath, 'utf-8')).toContain('@@ -1 +1,2 @@\n node_modules\n+.git\n');
+      errorSpy.mockRestore();
+    });
+  });
 });